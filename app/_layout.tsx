@@ -6,6 +6,13 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useReminderNotifications } from '@/hooks/use-reminder-notifications';
+import { startEscalations } from '@/services/escalation';
+import { runImageMaintenance } from '@/services/imageMaintenance';
+import { startInteractionReview } from '@/services/interactionReview';
+import { getActiveMedications, startRefillReminders } from '@/services/medicationStorage';
+import { reconcileReminders } from '@/services/reminders';
+import { startScanQueue } from '@/services/scanQueue';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -16,6 +23,7 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  useReminderNotifications();
 
   useEffect(() => {
     // Hide the splash screen when the root view has mounted.
@@ -23,11 +31,43 @@ export default function RootLayout() {
     SplashScreen.hideAsync();
   }, []);
 
+  useEffect(() => {
+    // Analyze scans that were taken offline as soon as a connection is available
+    return startScanQueue();
+  }, []);
+
+  useEffect(() => {
+    // Move old cache photos into app storage and drop images nothing uses
+    runImageMaintenance();
+  }, []);
+
+  useEffect(() => {
+    // Reminders can go missing (OS restore, app update) or outlive a medication
+    getActiveMedications().then(reconcileReminders);
+  }, []);
+
+  useEffect(() => {
+    // Re-alert, then text contacts, when a scheduled dose stays unconfirmed
+    return startEscalations();
+  }, []);
+
+  useEffect(() => {
+    // Project run-out days and remind before a medicine runs out
+    return startRefillReminders();
+  }, []);
+
+  useEffect(() => {
+    // Re-check My Medications for interactions whenever the list changes
+    return startInteractionReview();
+  }, []);
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="medications" options={{ headerShown: false }} />
+        <Stack.Screen name="medication-edit" options={{ headerShown: false }} />
+        <Stack.Screen name="ai-settings" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
       <StatusBar style="auto" />
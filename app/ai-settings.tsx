@@ -0,0 +1,267 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useAIAvailability } from '../hooks/use-ai-availability';
+import { clearUserApiKey, saveUserApiKey } from '../services/config';
+
+const SOURCE_LABELS: Record<string, string> = {
+    env: 'Build environment',
+    'secure-store': 'Saved on this device',
+    mock: 'Local mock server',
+    none: 'Not set',
+};
+
+export default function AISettingsScreen() {
+    const router = useRouter();
+    const { loading, available, config } = useAIAvailability();
+    const [apiKey, setApiKey] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        if (!apiKey.trim()) {
+            Alert.alert('API Key Required', 'Paste your Gemini API key first.');
+            return;
+        }
+        try {
+            setIsSaving(true);
+            await saveUserApiKey(apiKey);
+            setApiKey('');
+            Alert.alert('Saved', 'AI features are now available.');
+        } catch (error) {
+            console.error('Error saving API key:', error);
+            Alert.alert('Error', 'Could not save the API key.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemove = () => {
+        Alert.alert(
+            'Remove API Key',
+            'AI scanning and translation will stop working until a new key is added.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Remove',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await clearUserApiKey();
+                        } catch (error) {
+                            console.error('Error removing API key:', error);
+                            Alert.alert('Error', 'Could not remove the API key.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <StatusBar barStyle="dark-content" />
+
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color="#000" />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>AI Settings</Text>
+                <View style={styles.headerSpacer} />
+            </View>
+
+            {loading || !config ? (
+                <ActivityIndicator size="large" color="#007AFF" style={{ marginTop: 40 }} />
+            ) : (
+                <ScrollView contentContainerStyle={styles.content}>
+                    {/* Status */}
+                    <View style={[styles.statusCard, available ? styles.statusOk : styles.statusOff]}>
+                        <Ionicons
+                            name={available ? 'checkmark-circle' : 'cloud-offline'}
+                            size={28}
+                            color={available ? '#10B981' : '#DC2626'}
+                        />
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.statusTitle}>{available ? 'AI Available' : 'AI Unavailable'}</Text>
+                            <Text style={styles.statusDesc}>
+                                {available
+                                    ? 'Medicine scanning and translation are ready.'
+                                    : 'Add a Gemini API key to scan medicines and translate.'}
+                            </Text>
+                        </View>
+                    </View>
+
+                    <Text style={styles.sectionTitle}>CONFIGURATION</Text>
+                    <View style={styles.infoCard}>
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>Profile</Text>
+                            <Text style={styles.infoValue}>{config.profile}</Text>
+                        </View>
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>Provider</Text>
+                            <Text style={styles.infoValue}>{config.provider} ({config.model})</Text>
+                        </View>
+                        <View style={styles.infoRow}>
+                            <Text style={styles.infoLabel}>API Key</Text>
+                            <Text style={styles.infoValue}>{SOURCE_LABELS[config.apiKeySource]}</Text>
+                        </View>
+                        {config.baseUrl && (
+                            <View style={styles.infoRow}>
+                                <Text style={styles.infoLabel}>Endpoint</Text>
+                                <Text style={styles.infoValue} numberOfLines={1}>{config.baseUrl}</Text>
+                            </View>
+                        )}
+                    </View>
+
+                    {config.apiKeySource !== 'env' && (
+                        <>
+                            <Text style={styles.sectionTitle}>GEMINI API KEY</Text>
+                            <TextInput
+                                style={styles.input}
+                                placeholder="Paste API key"
+                                placeholderTextColor="#9CA3AF"
+                                value={apiKey}
+                                onChangeText={setApiKey}
+                                secureTextEntry
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+                                {isSaving
+                                    ? <ActivityIndicator color="#FFF" />
+                                    : <Text style={styles.saveButtonText}>Save Key</Text>}
+                            </TouchableOpacity>
+                            {config.apiKeySource === 'secure-store' && (
+                                <TouchableOpacity style={styles.removeButton} onPress={handleRemove}>
+                                    <Ionicons name="trash-outline" size={18} color="#DC2626" />
+                                    <Text style={styles.removeButtonText}>Remove Saved Key</Text>
+                                </TouchableOpacity>
+                            )}
+                        </>
+                    )}
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        backgroundColor: '#FFF',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 8,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#000',
+    },
+    headerSpacer: {
+        width: 40,
+    },
+    content: {
+        padding: 16,
+    },
+    statusCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 16,
+        borderRadius: 12,
+        gap: 12,
+    },
+    statusOk: {
+        backgroundColor: '#ECFDF5',
+    },
+    statusOff: {
+        backgroundColor: '#FEF2F2',
+    },
+    statusTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#000',
+    },
+    statusDesc: {
+        fontSize: 13,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: '#6B7280',
+        letterSpacing: 0.5,
+        marginTop: 24,
+        marginBottom: 12,
+    },
+    infoCard: {
+        backgroundColor: '#FFF',
+        borderRadius: 12,
+        padding: 16,
+        gap: 12,
+    },
+    infoRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    infoLabel: {
+        fontSize: 14,
+        color: '#6B7280',
+    },
+    infoValue: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        textAlign: 'right',
+    },
+    input: {
+        backgroundColor: '#FFF',
+        borderRadius: 12,
+        padding: 14,
+        fontSize: 15,
+        color: '#000',
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    saveButton: {
+        backgroundColor: '#007AFF',
+        padding: 14,
+        borderRadius: 10,
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#FFF',
+    },
+    removeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FEF2F2',
+        padding: 12,
+        borderRadius: 8,
+        marginTop: 12,
+        gap: 6,
+    },
+    removeButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#DC2626',
+    },
+});
@@ -22,6 +22,14 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
+import { EmergencyContact, getEmergencyContacts, saveEmergencyContacts } from '../services/emergencyContacts';
+import {
+    DEFAULT_ESCALATION_POLICY,
+    EscalationPolicy,
+    getEscalationPolicy,
+    saveEscalationPolicy
+} from '../services/escalation';
+import { EMPTY_MEDICAL_INFO, getMedicalInfo, MedicalInfo, saveMedicalInfo, splitMedicalList } from '../services/medicalId';
 import {
     requestSpeechPermission,
     speakText,
@@ -30,8 +38,6 @@ import {
     useSpeechRecognitionEvent,
 } from '../services/speechService';
 
-const CONTACTS_KEY = 'emergency_contacts';
-const MEDICAL_ID_KEY = 'medical_id';
 const FALL_DETECTION_KEY = 'fall_detection_enabled';
 const BATTERY_ALERT_KEY = 'battery_alert_enabled';
 const DISTRESS_KEYWORDS = ['help', 'emergency', 'call 911', 'accident', 'hurt', 'pain', 'ambulance'];
@@ -42,28 +48,63 @@ const FALL_IMPACT_THRESHOLD = 0.6; // g-force (near freefall)
 const LOW_BATTERY_THRESHOLD = 20; // percent
 const CRITICAL_BATTERY_THRESHOLD = 10; // percent
 
+// Missed-dose escalation choices, in minutes after the dose was due
+const REALERT_OPTIONS = [10, 15, 30];
+const CONTACTS_ALERT_OPTIONS = [60, 120, 180];
+
 const { width } = Dimensions.get('window');
 
-interface EmergencyContact {
-    id: string;
-    name: string;
-    phone: string;
-}
+type MedicalListField = 'allergies' | 'conditions';
 
-interface MedicalInfo {
-    name: string;
-    bloodType: string;
-    allergies: string;
-    conditions: string;
-    medications: string;
+interface MedicalListEditorProps {
+    placeholder: string;
+    items: string[];
+    draft: string;
+    onDraftChange: (text: string) => void;
+    onChange: (items: string[]) => void;
 }
 
+// One entry per chip, so scans can be checked against each allergy and condition
+const MedicalListEditor = ({ placeholder, items, draft, onDraftChange, onChange }: MedicalListEditorProps) => {
+    const handleAdd = () => {
+        onChange(splitMedicalList([...items, draft].join(',')));
+        onDraftChange('');
+    };
+
+    return (
+        <View>
+            {items.length > 0 && (
+                <View style={styles.listChips}>
+                    {items.map(item => (
+                        <TouchableOpacity key={item} style={styles.listChip} onPress={() => onChange(items.filter(other => other !== item))}>
+                            <Text style={styles.listChipText}>{item}</Text>
+                            <Ionicons name="close" size={14} color="#475569" />
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+            <View style={styles.listInputRow}>
+                <TextInput
+                    style={[styles.input, { flex: 1 }]}
+                    placeholder={placeholder}
+                    value={draft}
+                    onChangeText={onDraftChange}
+                    onSubmitEditing={handleAdd}
+                    returnKeyType="done"
+                />
+                <TouchableOpacity style={styles.listAddBtn} onPress={handleAdd} disabled={!draft.trim()}>
+                    <Ionicons name="add" size={22} color="#FFF" />
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+};
+
 export default function Emergency() {
     const router = useRouter();
     const [contacts, setContacts] = useState<EmergencyContact[]>([]);
-    const [medicalInfo, setMedicalInfo] = useState<MedicalInfo>({
-        name: '', bloodType: '', allergies: '', conditions: '', medications: ''
-    });
+    const [medicalInfo, setMedicalInfo] = useState<MedicalInfo>(EMPTY_MEDICAL_INFO);
+    const [listDrafts, setListDrafts] = useState<Record<MedicalListField, string>>({ allergies: '', conditions: '' });
 
     // UI States
     const [isEditingMedical, setIsEditingMedical] = useState(false);
@@ -81,6 +122,7 @@ export default function Emergency() {
     // Feature Toggles
     const [fallDetectionEnabled, setFallDetectionEnabled] = useState(false);
     const [batteryAlertEnabled, setBatteryAlertEnabled] = useState(false);
+    const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY);
 
     // Monitoring State
     const [fallDetected, setFallDetected] = useState(false);
@@ -115,6 +157,8 @@ export default function Emergency() {
 
             const battery = await AsyncStorage.getItem(BATTERY_ALERT_KEY);
             if (battery !== null) setBatteryAlertEnabled(JSON.parse(battery));
+
+            setEscalationPolicy(await getEscalationPolicy());
         } catch (error) {
             console.error('Error loading settings:', error);
         }
@@ -139,6 +183,24 @@ export default function Emergency() {
         }
     };
 
+    const updateEscalationPolicy = async (changes: Partial<EscalationPolicy>) => {
+        const updated = { ...escalationPolicy, ...changes };
+        setEscalationPolicy(updated);
+        try {
+            await saveEscalationPolicy(updated);
+        } catch (error) {
+            console.error('Error saving escalation policy:', error);
+            Alert.alert('Error', 'Could not save missed dose alert settings.');
+        }
+    };
+
+    const toggleEscalationContact = (id: string) => {
+        const contactIds = escalationPolicy.contactIds.includes(id)
+            ? escalationPolicy.contactIds.filter(c => c !== id)
+            : [...escalationPolicy.contactIds, id];
+        updateEscalationPolicy({ contactIds });
+    };
+
     // --- Core Logic Effects (Fall, Battery, Animation) ---
 
     // Fall Detection
@@ -253,10 +315,8 @@ export default function Emergency() {
 
     const loadData = async () => {
         try {
-            const c = await AsyncStorage.getItem(CONTACTS_KEY);
-            if (c) setContacts(JSON.parse(c));
-            const m = await AsyncStorage.getItem(MEDICAL_ID_KEY);
-            if (m) setMedicalInfo(JSON.parse(m));
+            setContacts(await getEmergencyContacts());
+            setMedicalInfo(await getMedicalInfo());
         } catch (e) {
             console.error(e);
         }
@@ -389,10 +449,23 @@ export default function Emergency() {
 
     // --- Contact / Medical Editing ---
 
-    const saveMedicalInfo = async () => {
-        await AsyncStorage.setItem(MEDICAL_ID_KEY, JSON.stringify(medicalInfo));
-        setIsEditingMedical(false);
-        Alert.alert('Success', 'Medical ID saved.');
+    const handleSaveMedicalInfo = async () => {
+        // Text typed but not yet added still counts
+        const saved = {
+            ...medicalInfo,
+            allergies: splitMedicalList([...medicalInfo.allergies, listDrafts.allergies].join(',')),
+            conditions: splitMedicalList([...medicalInfo.conditions, listDrafts.conditions].join(',')),
+        };
+        try {
+            await saveMedicalInfo(saved);
+            setMedicalInfo(saved);
+            setListDrafts({ allergies: '', conditions: '' });
+            setIsEditingMedical(false);
+            Alert.alert('Success', 'Medical ID saved.');
+        } catch (error) {
+            console.error('Error saving medical ID:', error);
+            Alert.alert('Error', 'Could not save your Medical ID. Please try again.');
+        }
     };
 
     const addContact = () => {
@@ -400,7 +473,7 @@ export default function Emergency() {
         const nc = { id: Date.now().toString(), name: newName.trim(), phone: newPhone.trim() };
         const updated = [...contacts, nc];
         setContacts(updated);
-        AsyncStorage.setItem(CONTACTS_KEY, JSON.stringify(updated));
+        saveEmergencyContacts(updated);
         setNewName(''); setNewPhone(''); setIsAddingContact(false);
     };
 
@@ -411,7 +484,10 @@ export default function Emergency() {
                 text: 'Remove', style: 'destructive', onPress: () => {
                     const updated = contacts.filter(c => c.id !== id);
                     setContacts(updated);
-                    AsyncStorage.setItem(CONTACTS_KEY, JSON.stringify(updated));
+                    saveEmergencyContacts(updated);
+                    if (escalationPolicy.contactIds.includes(id)) {
+                        updateEscalationPolicy({ contactIds: escalationPolicy.contactIds.filter(c => c !== id) });
+                    }
                 }
             }
         ]);
@@ -501,13 +577,79 @@ export default function Emergency() {
                             trackColor={{ false: '#E2E8F0', true: '#0369A1' }}
                         />
                     </View>
+                    <View style={styles.settingRow}>
+                        <View style={styles.settingInfo}>
+                            <Text style={styles.settingLabel}>Missed Dose Alerts</Text>
+                            <Text style={styles.settingDesc}>Re-alert me, then text contacts, if a dose is not confirmed</Text>
+                        </View>
+                        <Switch
+                            value={escalationPolicy.enabled}
+                            onValueChange={enabled => updateEscalationPolicy({ enabled })}
+                            trackColor={{ false: '#E2E8F0', true: '#0369A1' }}
+                        />
+                    </View>
+                    {escalationPolicy.enabled && (
+                        <View style={styles.escalationCard}>
+                            <Text style={styles.escalationLabel}>Re-alert me after</Text>
+                            <View style={styles.chipRow}>
+                                {REALERT_OPTIONS.map(minutes => (
+                                    <TouchableOpacity
+                                        key={minutes}
+                                        style={[styles.chip, escalationPolicy.realertAfterMinutes === minutes && styles.chipActive]}
+                                        onPress={() => updateEscalationPolicy({ realertAfterMinutes: minutes })}
+                                    >
+                                        <Text style={[styles.chipText, escalationPolicy.realertAfterMinutes === minutes && styles.chipTextActive]}>
+                                            {minutes} min
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text style={styles.escalationLabel}>Text my contacts after</Text>
+                            <View style={styles.chipRow}>
+                                {CONTACTS_ALERT_OPTIONS.map(minutes => (
+                                    <TouchableOpacity
+                                        key={minutes}
+                                        style={[styles.chip, escalationPolicy.contactsAfterMinutes === minutes && styles.chipActive]}
+                                        onPress={() => updateEscalationPolicy({ contactsAfterMinutes: minutes })}
+                                    >
+                                        <Text style={[styles.chipText, escalationPolicy.contactsAfterMinutes === minutes && styles.chipTextActive]}>
+                                            {minutes / 60} hr
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text style={styles.escalationLabel}>Contacts to text</Text>
+                            {contacts.length === 0 ? (
+                                <Text style={styles.settingDesc}>Add an emergency contact below to include them.</Text>
+                            ) : (
+                                <View style={styles.chipRow}>
+                                    {contacts.map(c => (
+                                        <TouchableOpacity
+                                            key={c.id}
+                                            style={[styles.chip, escalationPolicy.contactIds.includes(c.id) && styles.chipActive]}
+                                            onPress={() => toggleEscalationContact(c.id)}
+                                        >
+                                            <Text style={[styles.chipText, escalationPolicy.contactIds.includes(c.id) && styles.chipTextActive]}>
+                                                {c.name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                            <Text style={styles.settingDesc}>
+                                The message opens ready to send when you next open the app. Every alert is kept in the dose history.
+                            </Text>
+                        </View>
+                    )}
                 </View>
 
                 {/* Medical ID Section */}
                 <View style={styles.section}>
                     <View style={styles.sectionTitleRow}>
                         <Text style={styles.sectionHeader}>Medical ID</Text>
-                        <TouchableOpacity onPress={() => isEditingMedical ? saveMedicalInfo() : setIsEditingMedical(true)}>
+                        <TouchableOpacity onPress={() => isEditingMedical ? handleSaveMedicalInfo() : setIsEditingMedical(true)}>
                             <Text style={styles.editLink}>{isEditingMedical ? 'Done' : 'Edit'}</Text>
                         </TouchableOpacity>
                     </View>
@@ -517,8 +659,22 @@ export default function Emergency() {
                             <View style={styles.editForm}>
                                 <TextInput style={styles.input} placeholder="Name" value={medicalInfo.name} onChangeText={t => setMedicalInfo({ ...medicalInfo, name: t })} />
                                 <TextInput style={styles.input} placeholder="Blood Type" value={medicalInfo.bloodType} onChangeText={t => setMedicalInfo({ ...medicalInfo, bloodType: t })} />
-                                <TextInput style={styles.input} placeholder="Allergies" value={medicalInfo.allergies} onChangeText={t => setMedicalInfo({ ...medicalInfo, allergies: t })} />
-                                <TextInput style={styles.input} placeholder="Conditions" value={medicalInfo.conditions} onChangeText={t => setMedicalInfo({ ...medicalInfo, conditions: t })} />
+                                <Text style={styles.medLabel}>Allergies</Text>
+                                <MedicalListEditor
+                                    placeholder="Add an allergy (e.g. Penicillin)"
+                                    items={medicalInfo.allergies}
+                                    draft={listDrafts.allergies}
+                                    onDraftChange={t => setListDrafts({ ...listDrafts, allergies: t })}
+                                    onChange={allergies => setMedicalInfo({ ...medicalInfo, allergies })}
+                                />
+                                <Text style={styles.medLabel}>Conditions</Text>
+                                <MedicalListEditor
+                                    placeholder="Add a condition (e.g. Kidney disease)"
+                                    items={medicalInfo.conditions}
+                                    draft={listDrafts.conditions}
+                                    onDraftChange={t => setListDrafts({ ...listDrafts, conditions: t })}
+                                    onChange={conditions => setMedicalInfo({ ...medicalInfo, conditions })}
+                                />
                                 <TextInput style={[styles.input, styles.textArea]} placeholder="Notes/Meds" multiline value={medicalInfo.medications} onChangeText={t => setMedicalInfo({ ...medicalInfo, medications: t })} />
                             </View>
                         ) : (
@@ -536,11 +692,11 @@ export default function Emergency() {
                                 <View style={styles.medRow}>
                                     <View style={{ flex: 1 }}>
                                         <Text style={styles.medLabel}>Allergies</Text>
-                                        <Text style={styles.medValue}>{medicalInfo.allergies || 'None'}</Text>
+                                        <Text style={styles.medValue}>{medicalInfo.allergies.join(', ') || 'None'}</Text>
                                     </View>
                                     <View style={{ flex: 1 }}>
                                         <Text style={styles.medLabel}>Conditions</Text>
-                                        <Text style={styles.medValue}>{medicalInfo.conditions || 'None'}</Text>
+                                        <Text style={styles.medValue}>{medicalInfo.conditions.join(', ') || 'None'}</Text>
                                     </View>
                                 </View>
                                 {medicalInfo.medications ? (
@@ -695,6 +851,13 @@ const styles = StyleSheet.create({
     settingInfo: { flex: 1, marginRight: 16 },
     settingLabel: { fontSize: 16, fontWeight: '600', color: '#1E293B' },
     settingDesc: { fontSize: 13, color: '#64748B', marginTop: 2 },
+    escalationCard: { backgroundColor: '#FFF', padding: 16, borderRadius: 16, marginBottom: 12 },
+    escalationLabel: { fontSize: 14, fontWeight: '600', color: '#334155', marginBottom: 8 },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+    chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20, backgroundColor: '#F1F5F9', borderWidth: 1, borderColor: '#E2E8F0' },
+    chipActive: { backgroundColor: '#0369A1', borderColor: '#0369A1' },
+    chipText: { fontSize: 14, fontWeight: '600', color: '#475569' },
+    chipTextActive: { color: '#FFF' },
 
     // Medical ID
     medicalCard: {
@@ -711,6 +874,14 @@ const styles = StyleSheet.create({
     medRow: { flexDirection: 'row', gap: 20, marginBottom: 16 },
     medLabel: { fontSize: 12, fontWeight: '600', color: '#64748B', textTransform: 'uppercase', marginBottom: 4 },
     medValue: { fontSize: 16, fontWeight: '600', color: '#0F172A' },
+    listChips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+    listChip: {
+        flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 12, paddingVertical: 6,
+        borderRadius: 16, backgroundColor: '#E0F2FE'
+    },
+    listChipText: { fontSize: 14, fontWeight: '600', color: '#0F172A' },
+    listInputRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    listAddBtn: { backgroundColor: '#0369A1', width: 44, height: 44, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
 
     // Contacts
     addContactForm: { backgroundColor: '#FFF', padding: 16, borderRadius: 16, marginBottom: 16, gap: 12 },
@@ -0,0 +1,454 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { RegimenEditor } from '../components/regimen-editor';
+import {
+    Correction,
+    EDITABLE_FIELD_LABELS,
+    EditableField,
+    formatDay,
+    getCorrections,
+    getMedicationEdits,
+    MedicationEdit
+} from '../services/medicationAudit';
+import { getMedication, MedicationRecord, updateMedication } from '../services/medicationStorage';
+import { describeRegimen, parseRegimen, Regimen } from '../services/regimen';
+
+// The editable text fields, as typed
+interface EditForm {
+    name: string;
+    ingredients: string;
+    dosage: string;
+    prescriber: string;
+    notes: string;
+    startDate: string;  // YYYY-MM-DD
+    endDate: string;    // YYYY-MM-DD, blank while still taking it
+}
+
+type TextField = keyof EditForm;
+
+// Local midnight of a YYYY-MM-DD day, or null if it is not a real date
+function parseDay(text: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return formatDay(date) === text.trim() ? date : null;
+}
+
+function toForm(med: MedicationRecord): EditForm {
+    return {
+        name: med.analysis.medicineName,
+        ingredients: med.analysis.activeIngredients ?? '',
+        dosage: med.analysis.dosage ?? '',
+        prescriber: med.analysis.prescribedBy ?? '',
+        notes: med.notes ?? '',
+        startDate: formatDay(med.startDate),
+        endDate: med.endDate ? formatDay(med.endDate) : '',
+    };
+}
+
+export default function MedicationEditScreen() {
+    const router = useRouter();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const [medication, setMedication] = useState<MedicationRecord | null>(null);
+    const [form, setForm] = useState<EditForm | null>(null);
+    const [regimen, setRegimen] = useState<Regimen | null>(null);
+    const [edits, setEdits] = useState<MedicationEdit[]>([]);
+    const [regimenTarget, setRegimenTarget] = useState<MedicationRecord | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            const med = id ? await getMedication(id) : null;
+            if (med) {
+                setMedication(med);
+                setForm(toForm(med));
+                setRegimen(med.regimen);
+                setEdits(await getMedicationEdits(med.id));
+            }
+            setLoading(false);
+        };
+        load();
+    }, [id]);
+
+    const setField = (field: TextField, value: string) => {
+        setForm(current => current && { ...current, [field]: value });
+    };
+
+    // The record as it would be saved; dates that do not parse keep their saved value
+    const buildDraft = (med: MedicationRecord, values: EditForm, draftRegimen: Regimen): MedicationRecord => {
+        const startDate = parseDay(values.startDate);
+        return {
+            ...med,
+            analysis: {
+                ...med.analysis,
+                medicineName: values.name.trim(),
+                activeIngredients: values.ingredients.trim(),
+                dosage: values.dosage.trim(),
+                prescribedBy: values.prescriber.trim() || undefined,
+            },
+            regimen: draftRegimen,
+            notes: values.notes.trim() || undefined,
+            // Same day keeps the saved time, so the course end does not shift
+            startDate: startDate && values.startDate !== formatDay(med.startDate) ? startDate : med.startDate,
+            endDate: values.endDate.trim() ? parseDay(values.endDate) ?? med.endDate : undefined,
+        };
+    };
+
+    const handleSave = async () => {
+        if (!medication || !form || !regimen) return;
+
+        if (!form.name.trim()) {
+            Alert.alert('Name Required', 'Enter the name of the medicine.');
+            return;
+        }
+        const startDate = parseDay(form.startDate);
+        const endDate = form.endDate.trim() ? parseDay(form.endDate) : undefined;
+        if (!startDate || endDate === null) {
+            Alert.alert('Check the Dates', 'Enter dates as YYYY-MM-DD, e.g. 2025-03-01. Leave the end date blank if you are still taking it.');
+            return;
+        }
+        if (endDate && endDate < startDate) {
+            Alert.alert('Check the Dates', 'The end date cannot be before the start date.');
+            return;
+        }
+
+        const draft = buildDraft(medication, form, regimen);
+        try {
+            setIsSaving(true);
+            await updateMedication(medication.id, {
+                analysis: draft.analysis,
+                regimen: draft.regimen,
+                notes: draft.notes,
+                startDate: draft.startDate,
+                endDate: draft.endDate,
+            });
+            router.back();
+        } catch (error) {
+            console.error('Error saving medication details:', error);
+            Alert.alert('Error', 'Could not save the changes.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const restoreScanned = (correction: Correction) => {
+        if (!medication) return;
+        const ai = medication.aiAnalysis;
+        if (correction.field === 'regimen') {
+            setRegimen(parseRegimen(ai.dosage, ai.recommendedTime));
+        } else if (correction.field === 'name') {
+            setField('name', ai.medicineName);
+        } else if (correction.field === 'ingredients') {
+            setField('ingredients', ai.activeIngredients ?? '');
+        } else if (correction.field === 'dosage') {
+            setField('dosage', ai.dosage ?? '');
+        } else if (correction.field === 'prescriber') {
+            setField('prescriber', ai.prescribedBy ?? '');
+        }
+    };
+
+    if (loading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ActivityIndicator size="large" color="#007AFF" style={{ marginTop: 40 }} />
+            </SafeAreaView>
+        );
+    }
+
+    if (!medication || !form || !regimen) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.header}>
+                    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                        <Ionicons name="arrow-back" size={24} color="#000" />
+                    </TouchableOpacity>
+                    <Text style={styles.headerTitle}>Edit Details</Text>
+                    <View style={styles.headerSpacer} />
+                </View>
+                <Text style={styles.emptyText}>This medication no longer exists.</Text>
+            </SafeAreaView>
+        );
+    }
+
+    const draft = buildDraft(medication, form, regimen);
+    const corrections = new Map(getCorrections(draft).map(c => [c.field, c]));
+
+    // "Scan read" line under a field the user has changed
+    const renderScanned = (field: EditableField) => {
+        const correction = corrections.get(field);
+        if (!correction) return null;
+        return (
+            <View style={styles.scannedRow}>
+                <Ionicons name="scan-outline" size={14} color="#92400E" />
+                <Text style={styles.scannedText} numberOfLines={2}>
+                    Scan read: {correction.aiValue ?? '(nothing)'}
+                </Text>
+                <TouchableOpacity onPress={() => restoreScanned(correction)}>
+                    <Text style={styles.linkText}>Use</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const renderInput = (field: TextField, label: string, placeholder: string, multiline = false) => (
+        <>
+            <Text style={styles.fieldLabel}>{label}</Text>
+            <TextInput
+                style={[styles.input, multiline && styles.inputMultiline]}
+                value={form[field]}
+                onChangeText={value => setField(field, value)}
+                placeholder={placeholder}
+                placeholderTextColor="#9CA3AF"
+                multiline={multiline}
+            />
+        </>
+    );
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <StatusBar barStyle="dark-content" />
+
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color="#000" />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>Edit Details</Text>
+                <View style={styles.headerSpacer} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.infoBanner}>
+                    <Ionicons name="information-circle" size={20} color="#0369A1" />
+                    <Text style={styles.infoBannerText}>
+                        Fix anything the scan misread. Changed fields show what the scan read, and every change is kept in the history below.
+                    </Text>
+                </View>
+
+                <Text style={styles.sectionTitle}>FROM THE SCAN</Text>
+                <View style={styles.card}>
+                    {renderInput('name', 'Name', 'e.g. Biogesic')}
+                    {renderScanned('name')}
+                    {renderInput('ingredients', 'Active Ingredients', 'e.g. Paracetamol 500mg')}
+                    {renderScanned('ingredients')}
+                    {renderInput('dosage', 'Dosage', 'e.g. 1 tablet every 6 hours', true)}
+                    {renderScanned('dosage')}
+
+                    <Text style={styles.fieldLabel}>Schedule</Text>
+                    <TouchableOpacity style={styles.regimenRow} onPress={() => setRegimenTarget(draft)}>
+                        <Text style={styles.regimenText}>{describeRegimen(regimen)}</Text>
+                        <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />
+                    </TouchableOpacity>
+                    {renderScanned('regimen')}
+
+                    {renderInput('prescriber', 'Prescribed By', 'Doctor\'s name')}
+                    {renderScanned('prescriber')}
+                </View>
+
+                <Text style={styles.sectionTitle}>YOUR DETAILS</Text>
+                <View style={styles.card}>
+                    {renderInput('startDate', 'Start Date (YYYY-MM-DD)', formatDay(new Date()))}
+                    {renderInput('endDate', 'End Date (blank if still taking it)', 'YYYY-MM-DD')}
+                    {renderInput('notes', 'Notes', 'e.g. Take with plenty of water', true)}
+                </View>
+
+                <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+                    {isSaving
+                        ? <ActivityIndicator color="#FFF" />
+                        : <Text style={styles.saveButtonText}>Save Changes</Text>}
+                </TouchableOpacity>
+
+                <Text style={styles.sectionTitle}>EDIT HISTORY</Text>
+                {edits.length === 0 ? (
+                    <Text style={styles.emptyText}>No changes yet. Everything is as the scan read it.</Text>
+                ) : (
+                    <View style={styles.card}>
+                        {edits.map(edit => (
+                            <View key={edit.id} style={styles.historyRow}>
+                                <Text style={styles.historyField}>
+                                    {EDITABLE_FIELD_LABELS[edit.field]}
+                                    <Text style={styles.historyDate}>
+                                        {'  '}{edit.editedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                                    </Text>
+                                </Text>
+                                <Text style={styles.historyOld}>{edit.oldValue ?? '(empty)'}</Text>
+                                <Text style={styles.historyNew}>→ {edit.newValue ?? '(empty)'}</Text>
+                            </View>
+                        ))}
+                    </View>
+                )}
+            </ScrollView>
+
+            <RegimenEditor
+                medication={regimenTarget}
+                onClose={() => setRegimenTarget(null)}
+                onSave={value => {
+                    setRegimen(value);
+                    setRegimenTarget(null);
+                }}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        backgroundColor: '#FFF',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 8,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#000',
+    },
+    headerSpacer: {
+        width: 40,
+    },
+    content: {
+        padding: 16,
+        paddingBottom: 40,
+    },
+    infoBanner: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        backgroundColor: '#F0F9FF',
+        borderRadius: 12,
+        padding: 12,
+        gap: 8,
+    },
+    infoBannerText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#0369A1',
+        lineHeight: 18,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: '#6B7280',
+        letterSpacing: 0.5,
+        marginTop: 24,
+        marginBottom: 12,
+    },
+    card: {
+        backgroundColor: '#FFF',
+        borderRadius: 12,
+        padding: 16,
+    },
+    fieldLabel: {
+        fontSize: 12,
+        fontWeight: '700',
+        color: '#6B7280',
+        marginTop: 12,
+        marginBottom: 4,
+        letterSpacing: 0.5,
+    },
+    input: {
+        backgroundColor: '#F9FAFB',
+        borderRadius: 10,
+        padding: 12,
+        fontSize: 15,
+        color: '#000',
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    inputMultiline: {
+        minHeight: 70,
+        textAlignVertical: 'top',
+    },
+    regimenRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#F9FAFB',
+        borderRadius: 10,
+        padding: 12,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    regimenText: {
+        flex: 1,
+        fontSize: 15,
+        color: '#000',
+    },
+    scannedRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FFFBEB',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        marginTop: 6,
+        gap: 6,
+    },
+    scannedText: {
+        flex: 1,
+        fontSize: 12,
+        color: '#92400E',
+    },
+    linkText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
+    saveButton: {
+        backgroundColor: '#007AFF',
+        padding: 14,
+        borderRadius: 10,
+        alignItems: 'center',
+        marginTop: 20,
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#FFF',
+    },
+    emptyText: {
+        fontSize: 14,
+        color: '#6B7280',
+        textAlign: 'center',
+        marginTop: 8,
+        padding: 16,
+    },
+    historyRow: {
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#F3F4F6',
+    },
+    historyField: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+    },
+    historyDate: {
+        fontSize: 12,
+        fontWeight: '400',
+        color: '#9CA3AF',
+    },
+    historyOld: {
+        fontSize: 13,
+        color: '#9CA3AF',
+        textDecorationLine: 'line-through',
+        marginTop: 4,
+    },
+    historyNew: {
+        fontSize: 13,
+        color: '#111827',
+        marginTop: 2,
+    },
+});
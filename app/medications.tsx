@@ -1,7 +1,27 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, Dimensions, Image, RefreshControl, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Dimensions, Image, Modal, RefreshControl, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { FoodRestrictions } from '../components/food-restrictions';
+import { InteractionMatrix } from '../components/interaction-matrix';
+import { RegimenEditor } from '../components/regimen-editor';
+import { checkAgainstMedicalId, Contraindication } from '../services/contraindications';
+import { AdherenceSummary, DoseEvent, DoseStatus, getAdherence, getDoseEvents, undoDose } from '../services/doseLog';
+import { FoodRestriction, groupFoodWarnings } from '../services/foodRestrictions';
+import { MedicineAnalysis } from '../services/gemini';
+import { getThumbnailUri } from '../services/imageStore';
+import { TherapeuticDuplicate } from '../services/ingredients';
+import { getInteractionReview, InteractionReview, reviewActiveMedications, subscribeToInteractionReview } from '../services/interactionReview';
+import { INTERACTION_SOURCE_LABELS } from '../services/interactions';
+import {
+    DEFAULT_REFILL_LEAD_DAYS,
+    getUnitLabel,
+    isLowOnStock,
+    MedicationInventory,
+    parseDoseUnits
+} from '../services/inventory';
+import { getCorrections } from '../services/medicationAudit';
+import { getPendingMatches, getRefillUnits, MatchResolution, MedicationMatch, resolveMatch, settleUnmatchedScans } from '../services/medicationMatching';
 import {
     DailySchedule,
     findDuplicateMedications,
@@ -9,38 +29,227 @@ import {
     getTodaySchedule,
     markMedicationTaken,
     MedicationRecord,
+    refillMedication,
+    setMedicationInventory,
+    skipDose,
+    updateMedication,
     updateMedicationStatus
 } from '../services/medicationStorage';
+import { describeRegimen, Regimen } from '../services/regimen';
 
 const { width } = Dimensions.get('window');
 
+const ADHERENCE_DAYS = 7;
+const DOSE_HISTORY_LIMIT = 5;
+
+const DOSE_STATUS_DISPLAY: Record<DoseStatus, { icon: keyof typeof Ionicons.glyphMap; color: string; label: string }> = {
+    taken: { icon: 'checkmark-circle', color: '#10B981', label: 'Taken' },
+    late: { icon: 'time', color: '#F59E0B', label: 'Taken late' },
+    skipped: { icon: 'remove-circle', color: '#6B7280', label: 'Skipped' },
+    missed: { icon: 'alert-circle', color: '#EF4444', label: 'Missed' },
+    realerted: { icon: 'notifications', color: '#F59E0B', label: 'Re-alerted' },
+    escalated: { icon: 'people', color: '#B91C1C', label: 'Contacts alerted' },
+};
+
+// Interaction review card: a serious or other conflict, an incomplete check, or all clear
+const REVIEW_DISPLAY: Record<'high' | 'conflict' | 'unchecked' | 'clear', { icon: keyof typeof Ionicons.glyphMap; color: string; background: string }> = {
+    high: { icon: 'alert-circle', color: '#DC2626', background: '#FEF2F2' },
+    conflict: { icon: 'alert-circle', color: '#D97706', background: '#FFFBEB' },
+    unchecked: { icon: 'help-circle', color: '#475569', background: '#F1F5F9' },
+    clear: { icon: 'shield-checkmark', color: '#059669', background: '#ECFDF5' },
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// --- Stock Editor ---
+
+interface InventoryEditorProps {
+    medication: MedicationRecord | null;
+    onClose: () => void;
+    onSave: (inventory: MedicationInventory | null) => void;
+    onRefill: (units: number) => void;
+    onRescan: () => void;
+}
+
+const toAmount = (value: string) => {
+    const amount = parseFloat(value);
+    return amount > 0 ? amount : undefined;
+};
+
+const InventoryEditor = ({ medication, onClose, onSave, onRefill, onRescan }: InventoryEditorProps) => {
+    const [onHand, setOnHand] = useState('');
+    const [perDose, setPerDose] = useState('');
+    const [packSize, setPackSize] = useState('');
+    const [leadDays, setLeadDays] = useState('');
+    const [refillCount, setRefillCount] = useState('');
+
+    useEffect(() => {
+        if (!medication) return;
+        const inventory = medication.inventory;
+        setOnHand(inventory ? String(inventory.onHand) : '');
+        setPerDose(String(inventory?.perDose ?? parseDoseUnits(medication.regimen.doseAmount)));
+        setPackSize(inventory?.packSize ? String(inventory.packSize) : '');
+        setLeadDays(String(inventory?.refillLeadDays ?? DEFAULT_REFILL_LEAD_DAYS));
+        setRefillCount('');
+    }, [medication]);
+
+    if (!medication) return null;
+
+    const inventory = medication.inventory;
+    const unit = getUnitLabel(medication.regimen.doseAmount);
+
+    const handleSave = () => {
+        const units = parseFloat(onHand);
+        const dose = toAmount(perDose);
+        const lead = parseInt(leadDays, 10);
+        if (!(units >= 0) || !dose || !(lead >= 0)) {
+            Alert.alert('Check the Numbers', 'Enter how many you have, how many you take per dose, and how many days ahead to remind you.');
+            return;
+        }
+        onSave({ onHand: units, perDose: dose, packSize: toAmount(packSize), refillLeadDays: lead });
+    };
+
+    const handleRefillCount = () => {
+        const units = toAmount(refillCount);
+        if (units) onRefill(units);
+        else Alert.alert('Check the Count', `Enter how many ${unit} you are adding.`);
+    };
+
+    return (
+        <Modal visible animationType="slide" transparent onRequestClose={onClose}>
+            <View style={styles.modalOverlay}>
+                <View style={styles.editorSheet}>
+                    <View style={styles.editorHeader}>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.editorTitle}>Stock & Refills</Text>
+                            <Text style={styles.editorSubtitle}>{medication.analysis.medicineName}</Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose}>
+                            <Ionicons name="close-circle" size={30} color="#D1D5DB" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.editorBody} keyboardShouldPersistTaps="handled">
+                        <Text style={styles.bodyLabel}>Add a New Pack</Text>
+                        <View style={styles.regimenActions}>
+                            {inventory?.packSize && (
+                                <TouchableOpacity style={styles.regimenButton} onPress={() => onRefill(inventory.packSize!)}>
+                                    <Ionicons name="add-circle-outline" size={16} color="#10B981" />
+                                    <Text style={[styles.linkText, { color: '#10B981' }]}>Add a pack ({inventory.packSize} {unit})</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity style={styles.regimenButton} onPress={onRescan}>
+                                <Ionicons name="scan-outline" size={16} color="#007AFF" />
+                                <Text style={styles.linkText}>Rescan the box</Text>
+                            </TouchableOpacity>
+                        </View>
+                        <View style={[styles.timeRow, { marginTop: 12 }]}>
+                            <TextInput
+                                style={[styles.input, styles.timeInput]}
+                                value={refillCount}
+                                onChangeText={setRefillCount}
+                                placeholder="30"
+                                keyboardType="decimal-pad"
+                            />
+                            <TouchableOpacity onPress={handleRefillCount}>
+                                <Text style={styles.linkText}>Add {unit}</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <Text style={styles.bodyLabel}>{unit.charAt(0).toUpperCase() + unit.slice(1)} on Hand</Text>
+                        <TextInput style={styles.input} value={onHand} onChangeText={setOnHand} placeholder="30" keyboardType="decimal-pad" />
+
+                        <Text style={styles.bodyLabel}>Per Dose</Text>
+                        <TextInput style={styles.input} value={perDose} onChangeText={setPerDose} placeholder="1" keyboardType="decimal-pad" />
+
+                        <Text style={styles.bodyLabel}>Pack Size (optional)</Text>
+                        <TextInput style={styles.input} value={packSize} onChangeText={setPackSize} placeholder="30" keyboardType="decimal-pad" />
+
+                        <Text style={styles.bodyLabel}>Remind Me This Many Days Before Running Out</Text>
+                        <TextInput style={styles.input} value={leadDays} onChangeText={setLeadDays} placeholder="5" keyboardType="number-pad" />
+
+                        {inventory && (
+                            <TouchableOpacity style={{ marginTop: 16 }} onPress={() => onSave(null)}>
+                                <Text style={[styles.linkText, { color: '#DC2626' }]}>Stop tracking stock</Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+
+                    <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                        <Text style={styles.saveButtonText}>{inventory ? 'Save Stock' : 'Start Tracking'}</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+// A scanned-again medicine whose record was removed is saved as new; ask first if it clashes with the Medical ID
+const askToAddContraindicated = (medicine: MedicineAnalysis, found: Contraindication[]) => new Promise<boolean>(resolve => {
+    Alert.alert(
+        found.some(c => c.kind === 'allergy') ? '⚠️ Allergy Warning' : '⚠️ Check With Your Doctor',
+        `${medicine.medicineName} was scanned again, but its saved record was removed.\n\n${found.map(c => c.reason).join('\n\n')}\n\nAdd it to My Medications anyway?`,
+        [
+            { text: "Don't Add", style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Add Anyway', style: 'destructive', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+    );
+});
+
+// --- Main Screen ---
+
 export default function MedicationsScreen() {
     const router = useRouter();
 
     // State
     const [medications, setMedications] = useState<MedicationRecord[]>([]);
     const [todaySchedule, setTodaySchedule] = useState<DailySchedule[]>([]);
-    const [duplicates, setDuplicates] = useState<Array<{ ingredient: string; medications: MedicationRecord[] }>>([]);
+    const [duplicates, setDuplicates] = useState<TherapeuticDuplicate[]>([]);
+    const [medicalWarnings, setMedicalWarnings] = useState<Contraindication[]>([]);
+    const [foodRestrictions, setFoodRestrictions] = useState<FoodRestriction[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [expandedMedId, setExpandedMedId] = useState<string | null>(null);
+    const [adherence, setAdherence] = useState<AdherenceSummary | null>(null);
+    const [doseHistory, setDoseHistory] = useState<DoseEvent[]>([]);
+    const [editingMed, setEditingMed] = useState<MedicationRecord | null>(null);
+    const [stockMed, setStockMed] = useState<MedicationRecord | null>(null);
+    const [pendingMatches, setPendingMatches] = useState<MedicationMatch[]>([]);
+    const [review, setReview] = useState<InteractionReview | null>(null);
+    const [isReviewing, setIsReviewing] = useState(false);
 
-    // Load data on mount
-    useEffect(() => {
+    // Load data on mount, and again on coming back from the edit screen
+    useFocusEffect(useCallback(() => {
         loadData();
-    }, []);
+    }, []));
+
+    // The review re-runs in the background whenever the list changes
+    useEffect(() => subscribeToInteractionReview(setReview), []);
 
     const loadData = async () => {
         try {
             setIsLoading(true);
-            const [meds, schedule, dups] = await Promise.all([
+            // First: a match whose record has gone is saved as a new medication here
+            await settleUnmatchedScans(askToAddContraindicated);
+            setPendingMatches(await getPendingMatches());
+            const [meds, schedule, dups, lastReview] = await Promise.all([
                 getActiveMedications(),
                 getTodaySchedule(),
-                findDuplicateMedications()
+                findDuplicateMedications(),
+                getInteractionReview()
             ]);
             setMedications(meds);
             setTodaySchedule(schedule);
             setDuplicates(dups);
+            setReview(lastReview);
+            setFoodRestrictions(groupFoodWarnings(meds.map(med => med.analysis)));
+            setMedicalWarnings(await checkAgainstMedicalId(meds.map(med => med.analysis)));
+
+            // After getTodaySchedule, so missed doses are already logged
+            const since = new Date();
+            since.setDate(since.getDate() - ADHERENCE_DAYS);
+            setAdherence(await getAdherence(since));
         } catch (error) {
             console.error('Error loading medications:', error);
             Alert.alert('Error', 'Failed to load medications');
@@ -49,21 +258,165 @@ export default function MedicationsScreen() {
         }
     };
 
+    // Only shown once there are two medications to compare
+    const reviewReport = review?.report;
+    const reviewDisplay = reviewReport && (reviewReport.hasConflict
+        ? REVIEW_DISPLAY[reviewReport.severity === 'high' ? 'high' : 'conflict']
+        : REVIEW_DISPLAY[reviewReport.unchecked ? 'unchecked' : 'clear']);
+
+    const handleCheckAgain = async () => {
+        setIsReviewing(true);
+        await reviewActiveMedications(true);
+        setIsReviewing(false);
+    };
+
     const handleRefresh = async () => {
         setRefreshing(true);
         await loadData();
         setRefreshing(false);
     };
 
-    const handleMarkTaken = async (medicationId: string) => {
+    const handleMarkTaken = async (item: DailySchedule) => {
         try {
-            await markMedicationTaken(medicationId);
+            await markMedicationTaken(item.medicationId, item.scheduledFor);
             await loadData(); // Reload to update checkmarks
         } catch (error) {
             Alert.alert('Error', 'Failed to mark as taken');
         }
     };
 
+    const handleUndo = (item: DailySchedule) => {
+        if (!item.eventId || !item.status) return;
+        const eventId = item.eventId;
+
+        Alert.alert(
+            'Undo Dose',
+            `Remove "${DOSE_STATUS_DISPLAY[item.status].label}" for ${item.medicationName} at ${item.time}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Undo',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await undoDose(eventId);
+                            await loadData();
+                        } catch (error) {
+                            console.error('Error undoing dose:', error);
+                            Alert.alert('Error', 'Failed to undo');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleSkip = (item: DailySchedule) => {
+        Alert.alert(
+            'Skip Dose',
+            `Skip ${item.medicationName} at ${item.time}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Skip',
+                    onPress: async () => {
+                        try {
+                            await skipDose(item.medicationId, item.scheduledFor);
+                            await loadData();
+                        } catch (error) {
+                            console.error('Error skipping dose:', error);
+                            Alert.alert('Error', 'Failed to skip dose');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    // An unlogged or missed slot can still be taken; anything logged by hand can be undone
+    const handleSchedulePress = (item: DailySchedule) => {
+        if (!item.status || item.status === 'missed') {
+            handleMarkTaken(item);
+        } else {
+            handleUndo(item);
+        }
+    };
+
+    const handleLogDose = async (med: MedicationRecord) => {
+        try {
+            await markMedicationTaken(med.id);
+            await loadData();
+            setDoseHistory(await getDoseEvents({ medicationId: med.id, limit: DOSE_HISTORY_LIMIT }));
+        } catch (error) {
+            console.error('Error logging dose:', error);
+            Alert.alert('Error', 'Failed to log dose');
+        }
+    };
+
+    const handleSaveRegimen = async (regimen: Regimen) => {
+        if (!editingMed) return;
+        try {
+            await updateMedication(editingMed.id, { regimen });
+            setEditingMed(null);
+            await loadData();
+        } catch (error) {
+            console.error('Error saving regimen:', error);
+            Alert.alert('Error', 'Failed to save the schedule');
+        }
+    };
+
+    const handleSaveInventory = async (inventory: MedicationInventory | null) => {
+        if (!stockMed) return;
+        try {
+            await setMedicationInventory(stockMed.id, inventory);
+            setStockMed(null);
+            await loadData();
+        } catch (error) {
+            console.error('Error saving stock:', error);
+            Alert.alert('Error', 'Failed to save the stock');
+        }
+    };
+
+    const handleRefill = async (units: number) => {
+        if (!stockMed) return;
+        try {
+            await refillMedication(stockMed.id, units);
+            setStockMed(null);
+            await loadData();
+            Alert.alert('Refilled', `Added ${units} ${getUnitLabel(stockMed.regimen.doseAmount)} to ${stockMed.analysis.medicineName}.`);
+        } catch (error) {
+            console.error('Error refilling:', error);
+            Alert.alert('Error', 'Failed to add the refill');
+        }
+    };
+
+    const handleResolveMatch = async (match: MedicationMatch, resolution: MatchResolution) => {
+        try {
+            await resolveMatch(match, resolution);
+            await loadData();
+        } catch (error) {
+            console.error('Error resolving match:', error);
+            Alert.alert('Error', `Failed to update ${match.existing.analysis.medicineName}`);
+        }
+    };
+
+    const handleRescanRefill = () => {
+        if (!stockMed) return;
+        const refillFor = stockMed.id;
+        setStockMed(null);
+        router.push({ pathname: '/scanner', params: { refillFor } });
+    };
+
+    const handleExpand = async (medicationId: string) => {
+        if (expandedMedId === medicationId) {
+            setExpandedMedId(null);
+            return;
+        }
+        setExpandedMedId(medicationId);
+        setDoseHistory([]);
+        setDoseHistory(await getDoseEvents({ medicationId, limit: DOSE_HISTORY_LIMIT }));
+    };
+
     const handleDiscontinue = async (medicationId: string) => {
         Alert.alert(
             'Discontinue Medication',
@@ -119,46 +472,159 @@ export default function MedicationsScreen() {
                 style={styles.scrollView}
                 refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
             >
-                {/* Duplicates Warning */}
-                {duplicates.length > 0 && (
-                    <View style={styles.warningBanner}>
-                        <Ionicons name="warning" size={20} color="#DC2626" />
-                        <Text style={styles.warningText}>
-                            {duplicates.length} duplicate medication{duplicates.length > 1 ? 's' : ''} detected
+                {/* Duplicates Warning: same ingredient, or same drug class */}
+                {duplicates.map(duplicate => (
+                    <View key={`${duplicate.kind}:${duplicate.key}`} style={styles.duplicateCard}>
+                        <View style={styles.duplicateHeader}>
+                            <Ionicons name="warning" size={20} color="#DC2626" />
+                            <Text style={styles.warningText}>
+                                {duplicate.kind === 'ingredient' ? `Double dose of ${duplicate.label}` : `More than one of the ${duplicate.label}`}
+                            </Text>
+                        </View>
+                        <Text style={styles.duplicateText}>{duplicate.explanation}</Text>
+                    </View>
+                ))}
+
+                {/* Medical ID: active medications against recorded allergies and conditions */}
+                {medicalWarnings.map((warning, index) => (
+                    <View key={`${warning.medicineName}-${warning.trigger}-${index}`} style={[styles.duplicateCard, warning.severity !== 'high' && { backgroundColor: '#FFFBEB' }]}>
+                        <View style={styles.duplicateHeader}>
+                            <Ionicons name="medkit" size={20} color={warning.severity === 'high' ? '#DC2626' : '#D97706'} />
+                            <Text style={[styles.warningText, warning.severity !== 'high' && { color: '#D97706' }]}>
+                                {warning.kind === 'allergy' ? `Allergy: ${warning.trigger}` : `Condition: ${warning.trigger}`}
+                            </Text>
+                        </View>
+                        <Text style={[styles.duplicateText, warning.severity !== 'high' && { color: '#78350F' }]}>{warning.reason}</Text>
+                    </View>
+                ))}
+
+                {/* Interaction Review of all active medications */}
+                {review && reviewDisplay && (
+                    <View style={[styles.reviewCard, { backgroundColor: reviewDisplay.background }]}>
+                        <View style={styles.duplicateHeader}>
+                            <Ionicons name={reviewDisplay.icon} size={20} color={reviewDisplay.color} />
+                            <Text style={styles.reviewTitle}>
+                                {review.report?.hasConflict
+                                    ? `Interaction in your medications (${review.report.severity})`
+                                    : review.report?.unchecked
+                                        ? `Could not fully check your ${review.medicationNames.length} medications`
+                                        : `No known interactions between your ${review.medicationNames.length} medications`}
+                            </Text>
+                        </View>
+                        {(review.report?.hasConflict || review.report?.unchecked) && <Text style={styles.reviewText}>{review.report.description}</Text>}
+                        {review.report?.hasConflict && <InteractionMatrix report={review.report} />}
+                        <View style={styles.reviewFooter}>
+                            <Text style={styles.reviewMeta}>
+                                Checked {new Date(review.reviewedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                {review.report?.source ? ` · ${INTERACTION_SOURCE_LABELS[review.report.source]}` : ''}
+                            </Text>
+                            <TouchableOpacity onPress={handleCheckAgain} disabled={isReviewing}>
+                                {isReviewing
+                                    ? <ActivityIndicator size="small" color="#007AFF" />
+                                    : <Text style={styles.reviewLink}>Check again</Text>}
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+
+                {/* What to avoid eating or drinking, across all active medications */}
+                <FoodRestrictions restrictions={foodRestrictions} />
+
+                {/* Low Stock Warning */}
+                {medications.some(isLowOnStock) && (
+                    <View style={[styles.warningBanner, { backgroundColor: '#FFFBEB' }]}>
+                        <Ionicons name="cube" size={20} color="#D97706" />
+                        <Text style={[styles.warningText, { color: '#D97706' }]}>
+                            Time to refill: {medications.filter(isLowOnStock).map(m => m.analysis.medicineName).join(', ')}
                         </Text>
                     </View>
                 )}
 
+                {/* Scanned Again (found by the offline queue, or dismissed in the scanner) */}
+                {pendingMatches.length > 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>SCANNED AGAIN</Text>
+                        {pendingMatches.map(match => {
+                            const units = getRefillUnits(match);
+                            return (
+                                <View key={match.id} style={styles.matchCard}>
+                                    <Text style={styles.matchTitle}>{match.existing.analysis.medicineName}</Text>
+                                    <Text style={styles.matchText}>
+                                        Scanned again on {new Date(match.scannedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}.
+                                        {' '}Update the saved details, add this box to its stock, or keep both?
+                                    </Text>
+                                    <View style={styles.matchActions}>
+                                        <TouchableOpacity style={styles.matchButton} onPress={() => handleResolveMatch(match, 'update')}>
+                                            <Text style={styles.matchButtonText}>Update</Text>
+                                        </TouchableOpacity>
+                                        {!!units && (
+                                            <TouchableOpacity style={styles.matchButton} onPress={() => handleResolveMatch(match, 'refill')}>
+                                                <Text style={styles.matchButtonText}>Add {units} {getUnitLabel(match.existing.regimen.doseAmount)}</Text>
+                                            </TouchableOpacity>
+                                        )}
+                                        <TouchableOpacity style={styles.matchButton} onPress={() => handleResolveMatch(match, 'keep-both')}>
+                                            <Text style={styles.matchButtonText}>Keep Both</Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                </View>
+                            );
+                        })}
+                    </View>
+                )}
+
+                {/* Adherence */}
+                {adherence && adherence.rate !== null && (
+                    <View style={styles.adherenceCard}>
+                        <View>
+                            <Text style={styles.adherenceRate}>{Math.round(adherence.rate * 100)}%</Text>
+                            <Text style={styles.adherenceLabel}>Doses taken, last {ADHERENCE_DAYS} days</Text>
+                        </View>
+                        <View style={styles.adherenceCounts}>
+                            {(['taken', 'late', 'skipped', 'missed'] as const).map(status => (
+                                <View key={status} style={styles.adherenceCount}>
+                                    <Ionicons name={DOSE_STATUS_DISPLAY[status].icon} size={14} color={DOSE_STATUS_DISPLAY[status].color} />
+                                    <Text style={styles.adherenceCountText}>{adherence[status]}</Text>
+                                </View>
+                            ))}
+                        </View>
+                    </View>
+                )}
+
                 {/* Today's Schedule */}
                 {todaySchedule.length > 0 && (
                     <View style={styles.section}>
                         <Text style={styles.sectionTitle}>TODAY'S SCHEDULE</Text>
-                        {todaySchedule.map((item, index) => (
-                            <TouchableOpacity
-                                key={index}
-                                style={styles.scheduleItem}
-                                onPress={() => !item.taken && handleMarkTaken(item.medicationId)}
-                            >
-                                <Ionicons
-                                    name={item.taken ? "checkmark-circle" : "ellipse-outline"}
-                                    size={24}
-                                    color={item.taken ? "#10B981" : "#D1D5DB"}
-                                />
-                                <View style={styles.scheduleInfo}>
-                                    <Text style={styles.scheduleTime}>{item.time}</Text>
-                                    <Text style={styles.scheduleMedName}>{item.medicationName}</Text>
-                                    <Text style={styles.scheduleDosage}>{item.dosage}</Text>
-                                </View>
-                                {item.taken && item.takenAt && (
-                                    <Text style={styles.takenTime}>
-                                        {new Date(item.takenAt).toLocaleTimeString('en-US', {
-                                            hour: 'numeric',
-                                            minute: '2-digit'
-                                        })}
-                                    </Text>
-                                )}
-                            </TouchableOpacity>
-                        ))}
+                        <Text style={styles.scheduleHint}>Tap to log a dose, tap again to undo. Hold to skip.</Text>
+                        {todaySchedule.map((item, index) => {
+                            const display = item.status ? DOSE_STATUS_DISPLAY[item.status] : null;
+
+                            return (
+                                <TouchableOpacity
+                                    key={index}
+                                    style={styles.scheduleItem}
+                                    onPress={() => handleSchedulePress(item)}
+                                    onLongPress={() => (!item.status || item.status === 'missed') && handleSkip(item)}
+                                >
+                                    <Ionicons
+                                        name={display ? display.icon : "ellipse-outline"}
+                                        size={24}
+                                        color={display ? display.color : "#D1D5DB"}
+                                    />
+                                    <View style={styles.scheduleInfo}>
+                                        <Text style={styles.scheduleTime}>{item.time}</Text>
+                                        <Text style={styles.scheduleMedName}>{item.medicationName}</Text>
+                                        <Text style={styles.scheduleDosage}>
+                                            {item.dosage}{item.instructions ? ` · ${item.instructions}` : ''}
+                                        </Text>
+                                    </View>
+                                    {display && (
+                                        <Text style={[styles.takenTime, { color: display.color }]}>
+                                            {item.takenAt ? formatTime(item.takenAt) : display.label}
+                                        </Text>
+                                    )}
+                                </TouchableOpacity>
+                            );
+                        })}
                     </View>
                 )}
 
@@ -187,12 +653,17 @@ export default function MedicationsScreen() {
                                 <View key={med.id} style={styles.medCard}>
                                     <TouchableOpacity
                                         style={styles.medCardHeader}
-                                        onPress={() => setExpandedMedId(isExpanded ? null : med.id)}
+                                        onPress={() => handleExpand(med.id)}
                                     >
-                                        <Image source={{ uri: med.imageUri }} style={styles.medThumb} />
+                                        <Image source={{ uri: getThumbnailUri(med.imageUri) }} style={styles.medThumb} />
                                         <View style={styles.medCardHeaderInfo}>
                                             <Text style={styles.medName}>{med.analysis.medicineName}</Text>
                                             <Text style={styles.medDosage}>{med.analysis.dosage}</Text>
+                                            {getCorrections(med).length > 0 && (
+                                                <Text style={styles.correctedText}>
+                                                    <Ionicons name="create" size={11} color="#7C3AED" /> Corrected by you
+                                                </Text>
+                                            )}
                                             {fraud && (
                                                 <View style={[
                                                     styles.authBadge,
@@ -241,6 +712,77 @@ export default function MedicationsScreen() {
                                                 })}
                                             </Text>
 
+                                            {med.notes && (
+                                                <>
+                                                    <Text style={styles.bodyLabel}>Notes</Text>
+                                                    <Text style={styles.bodyText}>{med.notes}</Text>
+                                                </>
+                                            )}
+
+                                            <View style={styles.regimenActions}>
+                                                <TouchableOpacity
+                                                    style={styles.regimenButton}
+                                                    onPress={() => router.push({ pathname: '/medication-edit', params: { id: med.id } })}
+                                                >
+                                                    <Ionicons name="pencil-outline" size={16} color="#007AFF" />
+                                                    <Text style={styles.linkText}>Edit Details</Text>
+                                                </TouchableOpacity>
+                                            </View>
+
+                                            <Text style={styles.bodyLabel}>Dosing Schedule</Text>
+                                            <Text style={styles.bodyText}>{describeRegimen(med.regimen)}</Text>
+                                            <View style={styles.regimenActions}>
+                                                <TouchableOpacity style={styles.regimenButton} onPress={() => setEditingMed(med)}>
+                                                    <Ionicons name="create-outline" size={16} color="#007AFF" />
+                                                    <Text style={styles.linkText}>Edit Schedule</Text>
+                                                </TouchableOpacity>
+                                                {med.regimen.kind === 'as-needed' && (
+                                                    <TouchableOpacity style={styles.regimenButton} onPress={() => handleLogDose(med)}>
+                                                        <Ionicons name="checkmark-circle-outline" size={16} color="#10B981" />
+                                                        <Text style={[styles.linkText, { color: '#10B981' }]}>Log a Dose Now</Text>
+                                                    </TouchableOpacity>
+                                                )}
+                                            </View>
+
+                                            <Text style={styles.bodyLabel}>Stock</Text>
+                                            {med.inventory ? (
+                                                <Text style={[styles.bodyText, isLowOnStock(med) && { color: '#DC2626' }]}>
+                                                    {med.inventory.onHand} {getUnitLabel(med.regimen.doseAmount)} left
+                                                    {med.refillDate && ` · runs out around ${med.refillDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                                                </Text>
+                                            ) : (
+                                                <Text style={styles.bodyTextSmall}>Not tracked</Text>
+                                            )}
+                                            <View style={styles.regimenActions}>
+                                                <TouchableOpacity style={styles.regimenButton} onPress={() => setStockMed(med)}>
+                                                    <Ionicons name="cube-outline" size={16} color="#007AFF" />
+                                                    <Text style={styles.linkText}>{med.inventory ? 'Refill / Edit Stock' : 'Track Stock'}</Text>
+                                                </TouchableOpacity>
+                                            </View>
+
+                                            <Text style={styles.bodyLabel}>Recent Doses</Text>
+                                            {doseHistory.length === 0 ? (
+                                                <Text style={styles.bodyTextSmall}>No doses logged yet</Text>
+                                            ) : (
+                                                doseHistory.map(event => (
+                                                    <View key={event.id} style={styles.historyRow}>
+                                                        <Ionicons
+                                                            name={DOSE_STATUS_DISPLAY[event.status].icon}
+                                                            size={16}
+                                                            color={DOSE_STATUS_DISPLAY[event.status].color}
+                                                        />
+                                                        <Text style={styles.historyText}>
+                                                            {DOSE_STATUS_DISPLAY[event.status].label}
+                                                            {' · '}
+                                                            {(event.scheduledFor ?? event.recordedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                                            {event.scheduledFor && `, due ${formatTime(event.scheduledFor)}`}
+                                                            {event.takenAt && `, taken ${formatTime(event.takenAt)}`}
+                                                            {event.note && ` · ${event.note}`}
+                                                        </Text>
+                                                    </View>
+                                                ))
+                                            )}
+
                                             <TouchableOpacity
                                                 style={styles.discontinueButton}
                                                 onPress={() => handleDiscontinue(med.id)}
@@ -258,6 +800,20 @@ export default function MedicationsScreen() {
 
                 <View style={{ height: 40 }} />
             </ScrollView>
+
+            <RegimenEditor
+                medication={editingMed}
+                onClose={() => setEditingMed(null)}
+                onSave={handleSaveRegimen}
+            />
+
+            <InventoryEditor
+                medication={stockMed}
+                onClose={() => setStockMed(null)}
+                onSave={handleSaveInventory}
+                onRefill={handleRefill}
+                onRescan={handleRescanRefill}
+            />
         </SafeAreaView>
     );
 }
@@ -322,10 +878,97 @@ const styles = StyleSheet.create({
         color: '#DC2626',
         fontWeight: '600',
     },
+    duplicateCard: {
+        backgroundColor: '#FEF2F2',
+        padding: 12,
+        marginHorizontal: 16,
+        marginTop: 16,
+        borderRadius: 8,
+    },
+    duplicateHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    duplicateText: {
+        fontSize: 13,
+        color: '#7F1D1D',
+        marginTop: 6,
+        lineHeight: 18,
+    },
+    reviewCard: {
+        padding: 12,
+        marginHorizontal: 16,
+        marginTop: 16,
+        borderRadius: 8,
+    },
+    reviewTitle: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#111827',
+    },
+    reviewText: {
+        fontSize: 13,
+        color: '#374151',
+        marginTop: 6,
+        lineHeight: 18,
+    },
+    reviewFooter: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    reviewMeta: {
+        fontSize: 12,
+        color: '#6B7280',
+    },
+    reviewLink: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
     section: {
         marginTop: 24,
         paddingHorizontal: 16,
     },
+    matchCard: {
+        backgroundColor: '#FFF',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+        borderLeftWidth: 4,
+        borderLeftColor: '#007AFF',
+    },
+    matchTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#000',
+    },
+    matchText: {
+        fontSize: 14,
+        color: '#374151',
+        marginTop: 4,
+        lineHeight: 20,
+    },
+    matchActions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginTop: 12,
+    },
+    matchButton: {
+        backgroundColor: '#EFF6FF',
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    matchButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
     sectionTitle: {
         fontSize: 13,
         fontWeight: '700',
@@ -365,6 +1008,135 @@ const styles = StyleSheet.create({
         color: '#10B981',
         fontWeight: '600',
     },
+    scheduleHint: {
+        fontSize: 12,
+        color: '#9CA3AF',
+        marginTop: -6,
+        marginBottom: 10,
+    },
+    adherenceCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        backgroundColor: '#FFF',
+        padding: 16,
+        marginHorizontal: 16,
+        marginTop: 16,
+        borderRadius: 12,
+    },
+    adherenceRate: {
+        fontSize: 28,
+        fontWeight: '700',
+        color: '#000',
+    },
+    adherenceLabel: {
+        fontSize: 13,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+    adherenceCounts: {
+        flexDirection: 'row',
+        gap: 10,
+    },
+    adherenceCount: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 3,
+    },
+    adherenceCountText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#374151',
+    },
+    regimenActions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 16,
+        marginTop: 8,
+    },
+    regimenButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    linkText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    editorSheet: {
+        backgroundColor: '#FFF',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        maxHeight: '90%',
+        paddingBottom: 32,
+    },
+    editorHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#F3F4F6',
+    },
+    editorTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#000',
+    },
+    editorSubtitle: {
+        fontSize: 14,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+    editorBody: {
+        paddingHorizontal: 20,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 16,
+        color: '#000',
+    },
+    timeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        marginBottom: 8,
+    },
+    timeInput: {
+        width: 100,
+    },
+    saveButton: {
+        backgroundColor: '#007AFF',
+        marginHorizontal: 20,
+        marginTop: 12,
+        padding: 14,
+        borderRadius: 10,
+        alignItems: 'center',
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#FFF',
+    },
+    historyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 4,
+    },
+    historyText: {
+        fontSize: 13,
+        color: '#374151',
+    },
     emptyState: {
         alignItems: 'center',
         paddingVertical: 48,
@@ -426,6 +1198,12 @@ const styles = StyleSheet.create({
         color: '#6B7280',
         marginTop: 2,
     },
+    correctedText: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: '#7C3AED',
+        marginTop: 2,
+    },
     authBadge: {
         alignSelf: 'flex-start',
         paddingHorizontal: 8,
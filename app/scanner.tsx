@@ -1,55 +1,211 @@
 import { Ionicons } from '@expo/vector-icons';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import * as Notifications from 'expo-notifications';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import * as Speech from 'expo-speech';
-import React, { useEffect, useRef, useState } from 'react';
-import { ActivityIndicator, Alert, Dimensions, FlatList, Image, Modal, Platform, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, Vibration, View } from 'react-native';
-import { analyzeInteractions, analyzeMedicineImage, InteractionReport, MedicineAnalysis } from '../services/gemini';
-import { saveMedication } from '../services/medicationStorage';
-import { getRecentScans, SavedScan, saveScan } from '../services/storage';
-
-// Configure notification handler
-try {
-    Notifications.setNotificationHandler({
-        handleNotification: async () => ({
-            shouldShowAlert: true,
-            shouldPlaySound: true,
-            shouldSetBadge: false,
-            shouldShowBanner: true,
-            shouldShowList: true,
-        }),
-    });
-} catch (e) {
-    console.warn('Notification handler setup failed:', e);
-}
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Dimensions, FlatList, Image, Modal, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, Vibration, View } from 'react-native';
+import { InteractionMatrix } from '../components/interaction-matrix';
+import { useAIAvailability } from '../hooks/use-ai-availability';
+import { describeAIError } from '../services/aiRequest';
+import { checkAgainstMedicalId, Contraindication } from '../services/contraindications';
+import { analyzeMedicineImage, InteractionReport, MedicineAnalysis } from '../services/gemini';
+import { cleanUpImages } from '../services/imageMaintenance';
+import { formatBytes, getImageStorageUsage, getThumbnailUri } from '../services/imageStore';
+import { checkInteractions, INTERACTION_SOURCE_LABELS } from '../services/interactions';
+import { getUnitLabel } from '../services/inventory';
+import {
+    getRefillUnits,
+    MatchResolution,
+    MedicationMatch,
+    normalizeIngredients,
+    normalizeMedicineName,
+    resolveMatch,
+    savePendingMatches
+} from '../services/medicationMatching';
+import { getActiveMedications, getMedication, MedicationRecord, refillMedication, setMedicationReminder } from '../services/medicationStorage';
+import { formatRegimenTimes, parseRegimen } from '../services/regimen';
+import { ALARM_TONES, DEFAULT_TONE_ID, reconcileReminders } from '../services/reminders';
+import { checkScanInteractions, completeScan } from '../services/scanPipeline';
+import { enqueueScan, getPendingScans, isNetworkAvailable, PendingScan, removePendingScan, retryPendingScan, subscribeToScanQueue } from '../services/scanQueue';
+import { clearScans, deleteScan, getScanRiskLevel, queryScans, SavedScan, ScanQuery, ScanRiskLevel } from '../services/storage';
 
 const { width, height } = Dimensions.get('window');
 
 // --- Helper Components ---
 
-// Recent Scans Modal (Bottom Sheet Style)
+// Scan History Modal (Bottom Sheet Style)
 interface RecentScansModalProps {
     visible: boolean;
     onClose: () => void;
     onSelect: (scan: SavedScan) => void;
 }
 
+type DateFilter = 'all' | '7d' | '30d' | '90d';
+type RiskFilter = 'all' | ScanRiskLevel;
+
+const DATE_FILTERS: { id: DateFilter; label: string; days?: number }[] = [
+    { id: 'all', label: 'Any time' },
+    { id: '7d', label: '7 days', days: 7 },
+    { id: '30d', label: '30 days', days: 30 },
+    { id: '90d', label: '90 days', days: 90 },
+];
+
+const RISK_FILTERS: { id: RiskFilter; label: string; color: string }[] = [
+    { id: 'all', label: 'All', color: '#64748B' },
+    { id: 'high-risk', label: 'High risk', color: '#EF4444' },
+    { id: 'suspicious', label: 'Suspicious', color: '#F97316' },
+    { id: 'caution', label: 'Caution', color: '#F59E0B' },
+    { id: 'safe', label: 'Verified', color: '#10B981' },
+];
+
+const HISTORY_PAGE_SIZE = 20;
+
 const RecentScansModal = ({ visible, onClose, onSelect }: RecentScansModalProps) => {
     const [scans, setScans] = useState<SavedScan[]>([]);
+    const [pending, setPending] = useState<PendingScan[]>([]);
+    const [total, setTotal] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [search, setSearch] = useState('');
+    const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+    const [riskFilter, setRiskFilter] = useState<RiskFilter>('all');
+    const [diskUsage, setDiskUsage] = useState<number | null>(null);
+
+    const isFiltered = search.trim() !== '' || dateFilter !== 'all' || riskFilter !== 'all';
+
+    const buildQuery = useCallback((after?: SavedScan): ScanQuery => {
+        const days = DATE_FILTERS.find(f => f.id === dateFilter)?.days;
+        return {
+            search,
+            from: days ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined,
+            riskLevels: riskFilter === 'all' ? undefined : [riskFilter],
+            after,
+            limit: HISTORY_PAGE_SIZE,
+        };
+    }, [search, dateFilter, riskFilter]);
+
+    const loadScans = useCallback(async () => {
+        const page = await queryScans(buildQuery());
+        setScans(page.scans);
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+        setLoading(false);
+    }, [buildQuery]);
+
+    const refreshDiskUsage = () => {
+        getImageStorageUsage().then(usage => setDiskUsage(usage.totalBytes));
+    };
 
     useEffect(() => {
-        if (visible) {
+        if (!visible) return;
+        getPendingScans().then(setPending);
+        refreshDiskUsage();
+
+        // Finished queue items move from the pending list into history
+        return subscribeToScanQueue(queue => {
+            setPending(queue);
             loadScans();
+        });
+    }, [visible, loadScans]);
+
+    useEffect(() => {
+        if (!visible) return;
+        // Wait for typing to pause before searching
+        const timer = setTimeout(loadScans, 250);
+        return () => clearTimeout(timer);
+    }, [visible, loadScans]);
+
+    const loadMore = async () => {
+        if (!hasMore || loadingMore) return;
+        setLoadingMore(true);
+        try {
+            const page = await queryScans(buildQuery(scans[scans.length - 1]));
+            setScans(prev => [...prev, ...page.scans]);
+            setHasMore(page.hasMore);
+        } catch (err) {
+            console.error('Error loading more scans:', err);
+        } finally {
+            setLoadingMore(false);
         }
-    }, [visible]);
+    };
 
-    const loadScans = async () => {
-        setLoading(true);
-        const data = await getRecentScans();
-        setScans(data);
-        setLoading(false);
+    const confirmDelete = (scan: SavedScan) => {
+        Alert.alert('Delete Scan', 'Remove this scan from your history?', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await deleteScan(scan.id);
+                        setScans(prev => prev.filter(s => s.id !== scan.id));
+                        setTotal(prev => prev - 1);
+                        await cleanUpImages();
+                        refreshDiskUsage();
+                    } catch (err) {
+                        console.error('Error deleting scan:', err);
+                        Alert.alert('Error', 'Could not delete the scan.');
+                    }
+                },
+            },
+        ]);
+    };
+
+    const confirmClearAll = () => {
+        Alert.alert('Clear History', 'Delete every saved scan? Your medications list is not affected.', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Clear All',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await clearScans();
+                        setScans([]);
+                        setTotal(0);
+                        setHasMore(false);
+                        await cleanUpImages();
+                        refreshDiskUsage();
+                    } catch (err) {
+                        console.error('Error clearing scan history:', err);
+                        Alert.alert('Error', 'Could not clear the scan history.');
+                    }
+                },
+            },
+        ]);
+    };
+
+    const renderPendingItem = (item: PendingScan) => {
+        let status = 'Waiting for connection';
+        if (item.status === 'analyzing') status = 'Analyzing...';
+        if (item.status === 'failed') status = `Failed: ${item.lastError ?? 'Analysis failed.'}`;
+
+        return (
+            <View key={item.id} style={[styles.recentItem, styles.pendingItem]}>
+                <Image source={{ uri: getThumbnailUri(item.imageUri) }} style={styles.recentThumb} />
+                <View style={styles.recentInfo}>
+                    <Text style={styles.recentName} numberOfLines={1}>Saved for Later</Text>
+                    <Text style={[styles.recentTime, item.status === 'failed' && styles.pendingFailed]} numberOfLines={2}>
+                        {status}
+                    </Text>
+                </View>
+                {item.status === 'analyzing' ? (
+                    <ActivityIndicator size="small" color="#F59E0B" />
+                ) : (
+                    <View style={styles.pendingActions}>
+                        {item.status === 'failed' && (
+                            <TouchableOpacity onPress={() => retryPendingScan(item.id)}>
+                                <Ionicons name="refresh" size={22} color="#2563EB" />
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity onPress={() => removePendingScan(item.id)}>
+                            <Ionicons name="trash-outline" size={22} color="#EF4444" />
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </View>
+        );
     };
 
     const renderItem = ({ item }: { item: SavedScan }) => {
@@ -58,47 +214,110 @@ const RecentScansModal = ({ visible, onClose, onSelect }: RecentScansModalProps)
             ? `${meds.length} Medicines Found`
             : meds[0].medicineName;
 
+        const date = new Date(item.timestamp).toLocaleDateString();
         const subtitle = meds.length > 1
-            ? meds.map(m => m.medicineName).join(', ')
-            : new Date(item.timestamp).toLocaleDateString();
+            ? `${date} · ${meds.map(m => m.medicineName).join(', ')}`
+            : date;
+
+        const risk = RISK_FILTERS.find(f => f.id === getScanRiskLevel(item));
 
         return (
             <TouchableOpacity style={styles.recentItem} onPress={() => onSelect(item)}>
-                <Image source={{ uri: item.imageUri }} style={styles.recentThumb} />
+                <Image source={{ uri: getThumbnailUri(item.imageUri) }} style={styles.recentThumb} />
                 <View style={styles.recentInfo}>
                     <Text style={styles.recentName} numberOfLines={1}>{title}</Text>
                     <Text style={styles.recentTime} numberOfLines={1}>
                         {subtitle}
                     </Text>
+                    {risk && (
+                        <Text style={[styles.recentRisk, { color: risk.color }]}>{risk.label.toUpperCase()}</Text>
+                    )}
                 </View>
-                <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+                <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.recentDeleteBtn}>
+                    <Ionicons name="trash-outline" size={20} color="#94A3B8" />
+                </TouchableOpacity>
             </TouchableOpacity>
         );
     };
 
+    const renderChip = (label: string, active: boolean, onPress: () => void, color = '#2563EB') => (
+        <TouchableOpacity
+            key={label}
+            style={[styles.filterChip, active && { backgroundColor: color, borderColor: color }]}
+            onPress={onPress}
+        >
+            <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
     return (
         <Modal visible={visible} animationType="slide" transparent={true}>
             <View style={styles.modalOverlay}>
-                <View style={styles.bottomSheet}>
+                <View style={[styles.bottomSheet, styles.historySheet]}>
                     <View style={styles.sheetHeader}>
-                        <Text style={styles.sheetTitle}>Recent Scans</Text>
-                        <TouchableOpacity onPress={onClose} style={styles.closeIconBtn}>
-                            <Ionicons name="close-circle" size={30} color="#E5E5EA" />
-                        </TouchableOpacity>
+                        <View>
+                            <Text style={styles.sheetTitle}>Scan History</Text>
+                            {total > 0 && (
+                                <Text style={styles.historyCount}>
+                                    {total} {isFiltered ? 'matching' : 'saved'}
+                                    {diskUsage !== null && !isFiltered ? ` · ${formatBytes(diskUsage)} of photos` : ''}
+                                </Text>
+                            )}
+                        </View>
+                        <View style={styles.historyHeaderActions}>
+                            {total > 0 && !isFiltered && (
+                                <TouchableOpacity onPress={confirmClearAll}>
+                                    <Text style={styles.clearAllText}>Clear All</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity onPress={onClose} style={styles.closeIconBtn}>
+                                <Ionicons name="close-circle" size={30} color="#E5E5EA" />
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+
+                    {/* Search & Filters */}
+                    <View style={styles.historyFilters}>
+                        <View style={styles.searchBox}>
+                            <Ionicons name="search" size={18} color="#94A3B8" />
+                            <TextInput
+                                style={styles.searchInput}
+                                value={search}
+                                onChangeText={setSearch}
+                                placeholder="Medicine, ingredient, doctor, hospital"
+                                placeholderTextColor="#94A3B8"
+                                autoCorrect={false}
+                            />
+                            {search !== '' && (
+                                <TouchableOpacity onPress={() => setSearch('')}>
+                                    <Ionicons name="close-circle" size={18} color="#CBD5E1" />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                            {DATE_FILTERS.map(f => renderChip(f.label, dateFilter === f.id, () => setDateFilter(f.id)))}
+                        </ScrollView>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                            {RISK_FILTERS.map(f => renderChip(f.label, riskFilter === f.id, () => setRiskFilter(f.id), f.color))}
+                        </ScrollView>
                     </View>
 
                     {loading ? (
                         <ActivityIndicator size="large" color="#4facfe" style={{ marginTop: 40 }} />
-                    ) : scans.length === 0 ? (
+                    ) : scans.length === 0 && pending.length === 0 ? (
                         <View style={styles.emptyState}>
-                            <Ionicons name="medical-outline" size={48} color="#D1D1D6" />
-                            <Text style={styles.emptyText}>No scans yet</Text>
+                            <Ionicons name={isFiltered ? 'search-outline' : 'medical-outline'} size={48} color="#D1D1D6" />
+                            <Text style={styles.emptyText}>{isFiltered ? 'No matching scans' : 'No scans yet'}</Text>
                         </View>
                     ) : (
                         <FlatList
                             data={scans}
                             keyExtractor={(item) => item.id}
                             renderItem={renderItem}
+                            ListHeaderComponent={isFiltered ? null : <>{pending.map(renderPendingItem)}</>}
+                            ListFooterComponent={loadingMore ? <ActivityIndicator color="#4facfe" style={{ marginVertical: 16 }} /> : null}
+                            onEndReached={loadMore}
+                            onEndReachedThreshold={0.5}
                             contentContainerStyle={styles.recentList}
                             showsVerticalScrollIndicator={false}
                         />
@@ -109,15 +328,6 @@ const RecentScansModal = ({ visible, onClose, onSelect }: RecentScansModalProps)
     );
 };
 
-// Alarm tone definitions
-const ALARM_TONES = [
-    { id: 'gentle', name: 'Gentle', icon: 'musical-note', pattern: [0, 300, 200, 300], color: '#10B981' },
-    { id: 'standard', name: 'Standard', icon: 'notifications', pattern: [0, 400, 200, 400, 200, 400], color: '#0369A1' },
-    { id: 'urgent', name: 'Urgent', icon: 'alert-circle', pattern: [0, 200, 100, 200, 100, 200, 100, 200], color: '#F59E0B' },
-    { id: 'alarm', name: 'Alarm', icon: 'alarm', pattern: [0, 500, 100, 500, 100, 500, 100, 500], color: '#EF4444' },
-    { id: 'silent', name: 'Silent', icon: 'volume-mute', pattern: [0], color: '#64748B' },
-];
-
 // Custom Time Picker
 interface CustomTimePickerProps {
     visible: boolean;
@@ -281,22 +491,30 @@ const CustomTimePicker = ({ visible, onClose, onConfirm, medicineName }: CustomT
 
 export default function Scanner() {
     const router = useRouter();
+    // Opened from My Medications to read a new pack of this medication
+    const { refillFor } = useLocalSearchParams<{ refillFor?: string }>();
     const [permission, requestPermission] = useCameraPermissions();
+    const { available: aiAvailable, loading: aiLoading } = useAIAvailability();
     const [photo, setPhoto] = useState<string | null>(null);
     const [results, setResults] = useState<MedicineAnalysis[]>([]);
     const [interactionReport, setInteractionReport] = useState<InteractionReport | null>(null);
+    const [contraindications, setContraindications] = useState<Contraindication[]>([]);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isQueued, setIsQueued] = useState(false);
 
     // UI State
     const [showTimePicker, setShowTimePicker] = useState(false);
     const [selectedMedForReminder, setSelectedMedForReminder] = useState<MedicineAnalysis | null>(null);
+    const [savedImageUri, setSavedImageUri] = useState<string | null>(null); // Stored photo of the scan on screen, links results to My Medications
+    const [savedScanId, setSavedScanId] = useState<string | null>(null); // History entry of the scan on screen; re-analysis replaces it
     const [showRecentModal, setShowRecentModal] = useState(false);
     const [expandedMedIndex, setExpandedMedIndex] = useState<number | null>(0); // Default expand first
     const [showSuccessModal, setShowSuccessModal] = useState(false);
     const [successMessage, setSuccessMessage] = useState({ time: '', tone: '', isAuto: false });
 
     const cameraRef = useRef<CameraView>(null);
+    const analysisRef = useRef<AbortController | null>(null); // In-flight analysis, aborted on retake
 
     // TTS Handler
     const handleSpeak = (text: string) => {
@@ -311,55 +529,6 @@ export default function Scanner() {
         }
     };
 
-    // Setup Notification Channel for Android + Notification Listener
-    useEffect(() => {
-        if (Platform.OS === 'android') {
-            Notifications.setNotificationChannelAsync('medicine-reminders', {
-                name: 'Medicine Reminders',
-                importance: Notifications.AndroidImportance.MAX,
-                sound: 'default',
-                vibrationPattern: [0, 250, 250, 250],
-                enableVibrate: true,
-                showBadge: true,
-            });
-        }
-
-        // Listen for notifications and speak the alarm
-        const subscription = Notifications.addNotificationReceivedListener(notification => {
-            const data = notification.request.content.data;
-            const medicineName = data?.medicine || 'your medicine';
-            const toneId = data?.tone || 'standard';
-            const tone = ALARM_TONES.find(t => t.id === toneId);
-
-            if (toneId !== 'silent') {
-                // Vibrate
-                if (tone) Vibration.vibrate(tone.pattern);
-
-                // Speak the alarm
-                Speech.stop();
-                const urgency = toneId === 'alarm' || toneId === 'urgent';
-                const message = urgency
-                    ? `Attention! It is time to take ${medicineName}. Please take your medicine now!`
-                    : `Medicine reminder. It is time to take ${medicineName}.`;
-
-                Speech.speak(message, {
-                    rate: urgency ? 1.2 : 1.0,
-                    pitch: 1.0,
-                    volume: 1.0,
-                });
-
-                // Repeat for urgent/alarm tones
-                if (urgency) {
-                    setTimeout(() => {
-                        Speech.speak(`Reminder: take ${medicineName} now.`, { rate: 1.1 });
-                    }, 5000);
-                }
-            }
-        });
-
-        return () => subscription.remove();
-    }, []);
-
     if (!permission) return <View style={styles.container} />;
     if (!permission.granted) {
         return (
@@ -387,10 +556,17 @@ export default function Scanner() {
     };
 
     const retakePhoto = () => {
+        analysisRef.current?.abort();
+        analysisRef.current = null;
+        setIsAnalyzing(false);
         setPhoto(null);
         setResults([]);
         setInteractionReport(null);
+        setContraindications([]);
         setError(null);
+        setIsQueued(false);
+        setSavedImageUri(null);
+        setSavedScanId(null);
         setExpandedMedIndex(0);
     };
 
@@ -399,7 +575,29 @@ export default function Scanner() {
         return status === 'granted';
     };
 
-    const scheduleReminder = async (medicineName: string, hour: number, minute: number, isAuto: boolean = false, toneId: string = 'standard') => {
+    // The My Medications records saved from the scan on screen
+    const findSavedMedications = async (imageUri: string | null): Promise<MedicationRecord[]> => {
+        if (!imageUri) return [];
+        return (await getActiveMedications()).filter(m => m.imageUri === imageUri);
+    };
+
+    const showReminderSuccess = (times: string[], toneId: string, isAuto: boolean) => {
+        const timeString = times
+            .map(time => {
+                const [hour, minute] = time.split(':').map(Number);
+                return new Date(2000, 0, 1, hour, minute).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            })
+            .join(', ');
+        const tone = ALARM_TONES.find(t => t.id === toneId) || ALARM_TONES[1];
+        setSuccessMessage({ time: `${timeString} daily`, tone: tone.name, isAuto });
+        // Delay to ensure time picker modal closes first
+        setTimeout(() => {
+            setShowSuccessModal(true);
+            setTimeout(() => setShowSuccessModal(false), 3000);
+        }, 300);
+    };
+
+    const scheduleReminder = async (medicine: MedicineAnalysis, hour: number, minute: number, toneId: string = DEFAULT_TONE_ID) => {
         try {
             const hasPermission = await requestNotificationPermissions();
             if (!hasPermission) {
@@ -407,100 +605,227 @@ export default function Scanner() {
                 return;
             }
 
-            const now = new Date();
-            const scheduledTime = new Date();
-            scheduledTime.setHours(hour, minute, 0, 0);
-            if (scheduledTime <= now) scheduledTime.setDate(scheduledTime.getDate() + 1);
-
-            const secondsUntil = Math.floor((scheduledTime.getTime() - now.getTime()) / 1000);
-            const tone = ALARM_TONES.find(t => t.id === toneId) || ALARM_TONES[1];
-
-            await Notifications.scheduleNotificationAsync({
-                content: {
-                    title: '💊 Medicine Reminder',
-                    body: `It's time for your ${medicineName}`,
-                    sound: toneId !== 'silent',
-                    data: { medicine: medicineName, tone: toneId },
-                    priority: toneId === 'urgent' || toneId === 'alarm'
-                        ? Notifications.AndroidNotificationPriority.MAX
-                        : Notifications.AndroidNotificationPriority.HIGH,
-                    vibrate: tone.pattern,
-                },
-                trigger: {
-                    type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-                    seconds: secondsUntil,
-                    channelId: 'medicine-reminders',
-                },
-            });
+            const saved = (await findSavedMedications(savedImageUri)).find(m => m.analysis.medicineName === medicine.medicineName);
+            if (!saved) {
+                Alert.alert('Not in My Medications', 'Only medicines saved to My Medications can have reminders.');
+                return;
+            }
 
-            const timeString = scheduledTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-            const toneLabel = tone.name;
-            console.log('Setting success message:', timeString, toneLabel);
-            setSuccessMessage({ time: timeString, tone: toneLabel, isAuto });
-            // Delay to ensure time picker modal closes first
-            setTimeout(() => {
-                console.log('Showing success modal now!');
-                setShowSuccessModal(true);
-                setTimeout(() => setShowSuccessModal(false), 3000);
-            }, 300);
+            const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+            await setMedicationReminder(saved.id, time, toneId);
+            showReminderSuccess([time], toneId, false);
         } catch (err) {
-            if (!isAuto) Alert.alert('Error', 'Could not set reminder.');
+            console.error('Error setting reminder:', err);
+            Alert.alert('Error', 'Could not set reminder.');
+        }
+    };
+
+    // Refill scan: add the pack size read from the box to the medication's stock
+    const confirmRefill = async (medicationId: string, analysis: MedicineAnalysis[]) => {
+        const med = await getMedication(medicationId);
+        if (!med) return;
+
+        const name = normalizeMedicineName(med.analysis.medicineName);
+        const match = analysis.find(m => normalizeMedicineName(m.medicineName).includes(name) || name.includes(normalizeMedicineName(m.medicineName))) ??
+            analysis.find(m => normalizeIngredients(m.activeIngredients) === normalizeIngredients(med.analysis.activeIngredients));
+        const units = match?.packQuantity ?? analysis.find(m => m.packQuantity)?.packQuantity ?? med.inventory?.packSize;
+        const unit = getUnitLabel(med.regimen.doseAmount);
+
+        if (!units) {
+            Alert.alert(
+                'Pack Size Not Found',
+                `Could not read how many ${unit} this pack holds. Enter the count under Stock in My Medications.`,
+                [{ text: 'OK', onPress: () => router.back() }]
+            );
+            return;
         }
+
+        Alert.alert(
+            match ? 'Add Refill' : 'Different Medicine?',
+            match
+                ? `Add ${units} ${unit} to ${med.analysis.medicineName}?`
+                : `This box does not look like ${med.analysis.medicineName}. Add ${units} ${unit} to it anyway?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Add',
+                    onPress: async () => {
+                        try {
+                            await refillMedication(medicationId, units);
+                            Alert.alert('Refilled', `Added ${units} ${unit} to ${med.analysis.medicineName}.`, [
+                                { text: 'OK', onPress: () => router.back() },
+                            ]);
+                        } catch (err) {
+                            console.error('Error adding refill:', err);
+                            Alert.alert('Error', 'Could not add the refill.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    // Ask what to do with a scanned medicine that is already saved; null if dismissed
+    const askAboutMatch = (match: MedicationMatch) => new Promise<MatchResolution | null>(resolve => {
+        const name = match.existing.analysis.medicineName;
+        const units = getRefillUnits(match);
+        const unit = getUnitLabel(match.existing.regimen.doseAmount);
+        const scanned = match.existing.scanDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+        Alert.alert(
+            'Already in My Medications',
+            `${name} was saved on ${scanned}. Update it with this scan, ${units ? `add this box (${units} ${unit}) to its stock` : 'enter a refill under Stock'}, or keep both?`,
+            [
+                { text: 'Update', onPress: () => resolve('update') },
+                ...(units ? [{ text: 'Add Refill', onPress: () => resolve('refill' as const) }] : []),
+                { text: 'Keep Both', onPress: () => resolve('keep-both') },
+            ],
+            { cancelable: true, onDismiss: () => resolve(null) }
+        );
+    });
+
+    // Resolve each match in turn; one the user dismisses waits in My Medications
+    const handleMatches = async (matches: MedicationMatch[]) => {
+        for (const match of matches) {
+            const resolution = await askAboutMatch(match);
+            try {
+                if (resolution) {
+                    await resolveMatch(match, resolution);
+                } else {
+                    await savePendingMatches([match]);
+                }
+            } catch (err) {
+                console.error('Error resolving medication match:', err);
+                Alert.alert('Error', `Could not update ${match.existing.analysis.medicineName}.`);
+            }
+        }
+    };
+
+    const askToAddContraindicated = (medicineName: string, found: Contraindication[]) => new Promise<boolean>(resolve => {
+        Alert.alert(
+            found.some(c => c.kind === 'allergy') ? '⚠️ Allergy Warning' : '⚠️ Check With Your Doctor',
+            `${found.map(c => c.reason).join('\n\n')}\n\nAdd ${medicineName} to My Medications anyway?`,
+            [
+                { text: "Don't Add", style: 'cancel', onPress: () => resolve(false) },
+                { text: 'Add Anyway', style: 'destructive', onPress: () => resolve(true) },
+            ],
+            { cancelable: true, onDismiss: () => resolve(false) }
+        );
+    });
+
+    // Ask before adding each medicine that clashes with the Medical ID; returns the ones declined
+    const confirmContraindicated = async (analysis: MedicineAnalysis[], found: Contraindication[]) => {
+        const declined: MedicineAnalysis[] = [];
+        for (const medicine of analysis) {
+            const forMedicine = found.filter(c => c.medicineName === medicine.medicineName);
+            if (forMedicine.length && !(await askToAddContraindicated(medicine.medicineName, forMedicine))) {
+                declined.push(medicine);
+            }
+        }
+        return declined;
     };
 
-    const identifyMedicine = async () => {
+    const identifyMedicine = async (forceRefresh = false) => {
         if (!photo) return;
+        analysisRef.current?.abort();
+        const controller = new AbortController();
+        analysisRef.current = controller;
+
         setIsAnalyzing(true);
         setError(null);
         setInteractionReport(null);
+        setContraindications([]);
+        const startedAt = Date.now();
+        let identified = false;
 
         try {
-            // 1. Identification
-            const analysis = await analyzeMedicineImage(photo);
-            setResults(analysis);
-            await saveScan(analysis, photo);
-
-            // 1.5. Save to Medication Storage (for My Medications screen)
-            for (const medicine of analysis) {
-                try {
-                    await saveMedication(photo, medicine);
-                } catch (err) {
-                    console.error('Error saving to medication storage:', err);
+            // 0. No connection: keep the photo and analyze it once back online.
+            // A queued refill scan would be saved as a new medicine instead.
+            if (!(await isNetworkAvailable())) {
+                if (refillFor) {
+                    setError('Reading a refill needs a connection. You can enter the count under Stock in My Medications.');
+                    return;
                 }
+                await enqueueScan(photo);
+                setIsQueued(true);
+                return;
             }
 
+            // 1. Identification
+            const analysis = await analyzeMedicineImage(photo, { signal: controller.signal, forceRefresh });
+            if (controller.signal.aborted) return;
+            identified = true;
+            setResults(analysis);
+
             // 2. Interaction Check (if > 1 med)
-            if (analysis.length > 1) {
-                const report = await analyzeInteractions(analysis);
-                setInteractionReport(report);
+            const report = await checkScanInteractions(analysis, { signal: controller.signal, forceRefresh });
+            if (controller.signal.aborted) return;
+            setInteractionReport(report);
+
+            // 2.25. Allergies and conditions from the Medical ID, asked about before anything is added
+            const found = await checkAgainstMedicalId(analysis);
+            setContraindications(found);
+            const declined = refillFor ? [] : await confirmContraindicated(analysis, found);
+            if (controller.signal.aborted) return;
+
+            // 2.5. Save to history (with the report shown above) and Medication Storage (for My Medications screen)
+            const { scan, matches } = await completeScan(photo, analysis, report, startedAt, {
+                saveMedications: !refillFor,
+                skipMedicines: declined,
+                replaceScanId: savedScanId ?? undefined,
+            });
+            setSavedImageUri(scan.imageUri);
+            setSavedScanId(scan.id);
+
+            if (refillFor) {
+                await confirmRefill(refillFor, analysis);
+                return;
             }
 
-            // 3. Auto-Schedule Reminders (Optional - maybe too aggressive for multi-meds)
-            // Only auto-schedule if single med found for now to avoid spam
-            if (analysis.length === 1 && analysis[0].recommendedTime) {
-                const [timeStr] = analysis[0].recommendedTime.split(' ');
-                const [h, m] = timeStr.split(':').map(Number);
-                if (!isNaN(h) && !isNaN(m)) {
-                    setTimeout(() => scheduleReminder(analysis[0].medicineName, h, m, true), 800);
+            // 2.75. Medicines scanned before: update, refill or keep both instead of a silent duplicate
+            await handleMatches(matches);
+
+            // 3. Reminders repeat from each medicine's regimen and were set up when it was saved;
+            // ask for permission now so they can actually be scheduled
+            if (await requestNotificationPermissions()) {
+                const saved = await findSavedMedications(scan.imageUri);
+                await reconcileReminders(await getActiveMedications());
+                // Confirm automatic reminders only for a single medicine, to avoid spam
+                if (saved.length === 1 && saved[0].regimen.kind !== 'as-needed' && saved[0].regimen.times.length) {
+                    showReminderSuccess(saved[0].regimen.times, saved[0].reminderTone ?? DEFAULT_TONE_ID, true);
                 }
             }
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Analysis failed.');
+            // Retake already reset the screen
+            if (controller.signal.aborted) return;
+
+            // The connection dropped mid-request; queue instead of failing
+            if (!identified && !(await isNetworkAvailable())) {
+                await enqueueScan(photo);
+                setIsQueued(true);
+            } else {
+                setError(describeAIError(err));
+            }
         } finally {
-            setIsAnalyzing(false);
+            if (analysisRef.current === controller) {
+                analysisRef.current = null;
+                setIsAnalyzing(false);
+            }
         }
     };
 
     const handleRecentSelect = (scan: SavedScan) => {
         setPhoto(scan.imageUri);
+        setSavedImageUri(scan.imageUri);
+        setSavedScanId(scan.id);
         setResults(scan.analysis);
-        // We could re-run interaction check here if we saved it differently, 
-        // but for now let's re-run it live or just skip if we don't save reports.
-        // Let's quickly check if we can re-run:
-        if (scan.analysis.length > 1) {
-            analyzeInteractions(scan.analysis).then(setInteractionReport);
+        checkAgainstMedicalId(scan.analysis).then(setContraindications);
+        // Show the report exactly as it was at scan time; only scans saved
+        // before reports were stored need a (cached) live check
+        if (scan.interactionReport || scan.analysis.length < 2) {
+            setInteractionReport(scan.interactionReport);
         } else {
-            setInteractionReport(null);
+            checkInteractions(scan.analysis).then(setInteractionReport);
         }
         setShowRecentModal(false);
     };
@@ -535,6 +860,9 @@ export default function Scanner() {
                         <View style={styles.darkOverlay}>
                             <ActivityIndicator size="large" color="#FFF" />
                             <Text style={styles.loadingText}>Analyzing...</Text>
+                            <TouchableOpacity style={styles.cancelAnalysisBtn} onPress={retakePhoto}>
+                                <Text style={styles.cancelAnalysisText}>Cancel</Text>
+                            </TouchableOpacity>
                         </View>
                     )}
 
@@ -560,6 +888,23 @@ export default function Scanner() {
 
                                 <ScrollView style={styles.resultsScroll} showsVerticalScrollIndicator={false}>
 
+                                    {/* MEDICAL ID BANNER: allergies and conditions */}
+                                    {contraindications.length > 0 && (
+                                        <View style={[styles.alertBanner, contraindications[0].severity === 'high' ? styles.alertHigh : styles.alertMedium]}>
+                                            <View style={styles.alertHeader}>
+                                                <Ionicons name="medkit" size={24} color={contraindications[0].severity === 'high' ? '#991B1B' : '#854D0E'} />
+                                                <Text style={[styles.alertTitle, contraindications[0].severity !== 'high' && { color: '#854D0E' }]}>
+                                                    MEDICAL ID WARNING
+                                                </Text>
+                                            </View>
+                                            {contraindications.map((c, index) => (
+                                                <Text key={`${c.medicineName}-${c.trigger}-${index}`} style={[styles.alertDesc, c.severity !== 'high' && { color: '#A16207' }]}>
+                                                    {c.kind === 'allergy' ? 'Allergy' : 'Condition'} ({c.trigger}): {c.reason}
+                                                </Text>
+                                            ))}
+                                        </View>
+                                    )}
+
                                     {/* INTERACTION ALERT BANNER */}
                                     {interactionReport && interactionReport.hasConflict && (
                                         <View style={[
@@ -581,6 +926,49 @@ export default function Scanner() {
                                             ]}>
                                                 {interactionReport.description}
                                             </Text>
+                                            {interactionReport.checkedWith && (
+                                                <Text style={[
+                                                    styles.alertChecked,
+                                                    interactionReport.severity === 'high' ? { color: '#FEF2F2' } : { color: '#A16207' }
+                                                ]}>
+                                                    Checked with your {interactionReport.checkedWith.join(', ')}
+                                                </Text>
+                                            )}
+                                            {interactionReport.source && (
+                                                <Text style={[
+                                                    styles.alertChecked,
+                                                    interactionReport.severity === 'high' ? { color: '#FEF2F2' } : { color: '#A16207' }
+                                                ]}>
+                                                    Source: {INTERACTION_SOURCE_LABELS[interactionReport.source]}
+                                                    {interactionReport.unchecked ? ' (AI check unavailable, other interactions may be missed)' : ''}
+                                                </Text>
+                                            )}
+                                            <InteractionMatrix report={interactionReport} />
+                                        </View>
+                                    )}
+
+                                    {/* AI check failed and no offline rule applies: not a safe result */}
+                                    {interactionReport && !interactionReport.hasConflict && interactionReport.unchecked && (
+                                        <View style={[styles.alertBanner, styles.alertUnchecked]}>
+                                            <View style={styles.alertHeader}>
+                                                <Ionicons name="help-circle" size={24} color="#475569" />
+                                                <Text style={[styles.alertTitle, { color: '#334155' }]}>
+                                                    NOT FULLY CHECKED
+                                                </Text>
+                                            </View>
+                                            <Text style={[styles.alertDesc, { color: '#475569' }]}>
+                                                {interactionReport.description}
+                                            </Text>
+                                        </View>
+                                    )}
+
+                                    {/* No conflict with the user's active medications */}
+                                    {interactionReport && !interactionReport.hasConflict && !interactionReport.unchecked && interactionReport.checkedWith && (
+                                        <View style={styles.checkedNote}>
+                                            <Ionicons name="shield-checkmark" size={16} color="#059669" />
+                                            <Text style={styles.checkedNoteText}>
+                                                No known interactions with your {interactionReport.checkedWith.length} active medication{interactionReport.checkedWith.length !== 1 ? 's' : ''}
+                                            </Text>
                                         </View>
                                     )}
 
@@ -660,7 +1048,7 @@ export default function Scanner() {
                                                         </View>
                                                         <View style={styles.coreInfoBlock}>
                                                             <Text style={styles.infoLabel}>TIME</Text>
-                                                            <Text style={styles.infoVal}>{med.recommendedTime || '--'}</Text>
+                                                            <Text style={styles.infoVal}>{formatRegimenTimes(parseRegimen(med.dosage, med.recommendedTime))}</Text>
                                                         </View>
                                                     </View>
 
@@ -785,6 +1173,12 @@ export default function Scanner() {
                                         <Text style={styles.secondaryBtnText}>Scan New Items</Text>
                                     </TouchableOpacity>
 
+                                    {/* Results are cached per photo; this asks the AI again */}
+                                    <TouchableOpacity style={styles.reanalyzeBtn} onPress={() => identifyMedicine(true)}>
+                                        <Ionicons name="refresh" size={16} color="#64748B" />
+                                        <Text style={styles.reanalyzeText}>Re-analyze this photo</Text>
+                                    </TouchableOpacity>
+
                                     <View style={{ height: 40 }} />
                                 </ScrollView>
                             </View>
@@ -792,14 +1186,46 @@ export default function Scanner() {
                     )
                     }
 
+                    {/* Queued Offline */}
+                    {
+                        isQueued && !isAnalyzing && (
+                            <View style={styles.bottomSheetContainerCompact}>
+                                <View style={styles.dragHandle} />
+                                <Ionicons name="cloud-upload-outline" size={40} color="#F59E0B" style={{ alignSelf: 'center' }} />
+                                <Text style={styles.unavailableTitle}>Saved for Later</Text>
+                                <Text style={styles.errorDesc}>
+                                    You&apos;re offline. This photo will be analyzed automatically when you&apos;re back online, and we&apos;ll notify you when it&apos;s ready.
+                                </Text>
+                                <TouchableOpacity style={styles.primaryBtn} onPress={retakePhoto}>
+                                    <Text style={styles.primaryBtnText}>Scan Another</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )
+                    }
+
+                    {/* AI Unavailable */}
+                    {
+                        results.length === 0 && !error && !isAnalyzing && !isQueued && !aiLoading && !aiAvailable && (
+                            <View style={styles.bottomSheetContainerCompact}>
+                                <View style={styles.dragHandle} />
+                                <Ionicons name="cloud-offline" size={40} color="#94A3B8" style={{ alignSelf: 'center' }} />
+                                <Text style={styles.unavailableTitle}>AI Unavailable</Text>
+                                <Text style={styles.errorDesc}>Medicine identification needs a Gemini API key.</Text>
+                                <TouchableOpacity style={styles.primaryBtn} onPress={() => router.push('/ai-settings')}>
+                                    <Text style={styles.primaryBtnText}>Set Up AI</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )
+                    }
+
                     {/* Pre-Analysis Actions */}
                     {
-                        results.length === 0 && !error && !isAnalyzing && (
+                        results.length === 0 && !error && !isAnalyzing && !isQueued && aiAvailable && (
                             <View style={styles.bottomActions}>
-                                <TouchableOpacity style={styles.largeFab} onPress={identifyMedicine}>
+                                <TouchableOpacity style={styles.largeFab} onPress={() => identifyMedicine()}>
                                     <Ionicons name="scan" size={32} color="#FFF" />
                                 </TouchableOpacity>
-                                <Text style={styles.instructionText}>Tap to identify</Text>
+                                <Text style={styles.instructionText}>{refillFor ? 'Tap to read the new pack' : 'Tap to identify'}</Text>
                             </View>
                         )
                     }
@@ -845,7 +1271,7 @@ export default function Scanner() {
                 visible={showTimePicker}
                 onClose={() => setShowTimePicker(false)}
                 medicineName={selectedMedForReminder?.medicineName}
-                onConfirm={(h, m, tone) => selectedMedForReminder && scheduleReminder(selectedMedForReminder.medicineName, h, m, false, tone)}
+                onConfirm={(h, m, tone) => selectedMedForReminder && scheduleReminder(selectedMedForReminder, h, m, tone)}
             />
 
             <RecentScansModal
@@ -975,6 +1401,15 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         letterSpacing: 1
     },
+    cancelAnalysisBtn: {
+        marginTop: 28,
+        paddingVertical: 12,
+        paddingHorizontal: 32,
+        borderRadius: 24,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.4)',
+    },
+    cancelAnalysisText: { color: '#FFF', fontSize: 16, fontWeight: '600' },
 
     // Pre-Analysis / Bottom Actions
     bottomActions: {
@@ -1099,6 +1534,22 @@ const styles = StyleSheet.create({
     recentInfo: { flex: 1 },
     recentName: { fontSize: 16, fontWeight: '700', color: '#0F172A', marginBottom: 2 },
     recentTime: { fontSize: 13, color: '#64748B' },
+    recentRisk: { fontSize: 11, fontWeight: '800', letterSpacing: 0.5, marginTop: 4 },
+    recentDeleteBtn: { padding: 6 },
+    historySheet: { maxHeight: '90%' },
+    historyCount: { fontSize: 13, color: '#64748B', marginTop: 2 },
+    historyHeaderActions: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    clearAllText: { fontSize: 14, fontWeight: '700', color: '#EF4444' },
+    historyFilters: { paddingHorizontal: 20, paddingTop: 16, gap: 10 },
+    searchBox: { flexDirection: 'row', alignItems: 'center', gap: 8, backgroundColor: '#F1F5F9', borderRadius: 14, paddingHorizontal: 14, height: 44 },
+    searchInput: { flex: 1, fontSize: 15, color: '#0F172A' },
+    chipRow: { gap: 8 },
+    filterChip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 16, borderWidth: 1, borderColor: '#E2E8F0', backgroundColor: '#FFF' },
+    filterChipText: { fontSize: 13, fontWeight: '600', color: '#475569' },
+    filterChipTextActive: { color: '#FFF' },
+    pendingItem: { borderLeftColor: '#F59E0B' },
+    pendingFailed: { color: '#EF4444' },
+    pendingActions: { flexDirection: 'row', gap: 14 },
 
     // Results Layout
     bottomSheetContainer: {
@@ -1213,6 +1664,8 @@ const styles = StyleSheet.create({
     primaryBtnRow: { backgroundColor: '#2563EB', paddingVertical: 16, borderRadius: 18, alignItems: 'center', flexDirection: 'row', justifyContent: 'center', gap: 8 },
     secondaryBtnFull: { width: '100%', paddingVertical: 16, borderRadius: 18, alignItems: 'center', backgroundColor: '#F1F5F9', marginTop: 16, flexDirection: 'row', justifyContent: 'center', gap: 8 },
     secondaryBtnText: { fontSize: 15, fontWeight: '700', color: '#475569' },
+    reanalyzeBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, paddingVertical: 14 },
+    reanalyzeText: { fontSize: 14, fontWeight: '600', color: '#64748B' },
 
     shutterOuter: { width: 84, height: 84, borderRadius: 42, borderWidth: 5, borderColor: '#FFF', alignItems: 'center', justifyContent: 'center' },
 
@@ -1232,9 +1685,13 @@ const styles = StyleSheet.create({
     alertBanner: { padding: 16, borderRadius: 20, marginBottom: 16, gap: 8 },
     alertHigh: { backgroundColor: '#FEF2F2', borderWidth: 1, borderColor: '#FECACA' },
     alertMedium: { backgroundColor: '#FFFBEB', borderWidth: 1, borderColor: '#FDE68A' },
+    alertUnchecked: { backgroundColor: '#F1F5F9', borderWidth: 1, borderColor: '#CBD5E1' },
     alertHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
     alertTitle: { fontSize: 16, fontWeight: '800', color: '#991B1B' },
     alertDesc: { fontSize: 14, color: '#B91C1C', lineHeight: 20, fontWeight: '500' },
+    alertChecked: { fontSize: 12, fontWeight: '600' },
+    checkedNote: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 16 },
+    checkedNoteText: { fontSize: 13, color: '#047857', fontWeight: '600' },
 
     successIconCircle: { marginBottom: 20, alignItems: 'center' },
 
@@ -1254,6 +1711,8 @@ const styles = StyleSheet.create({
     successAlarm: { fontSize: 15, fontWeight: '600', color: '#2563EB' },
 
     errorTitle: { fontSize: 20, fontWeight: '800', color: '#EF4444', textAlign: 'center', marginTop: 20 },
+    unavailableTitle: { fontSize: 20, fontWeight: '800', color: '#0F172A', textAlign: 'center', marginTop: 12 },
+    bottomSheetContainerCompact: { position: 'absolute', bottom: 0, left: 0, right: 0, backgroundColor: '#F8FAFC', borderTopLeftRadius: 32, borderTopRightRadius: 32, paddingHorizontal: 24, paddingBottom: 40 },
     errorDesc: { fontSize: 16, color: '#64748B', textAlign: 'center', marginVertical: 16, paddingHorizontal: 20 },
 });
 
@@ -16,6 +16,8 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
+import { useAIAvailability } from '../hooks/use-ai-availability';
+import { describeAIError } from '../services/aiRequest';
 import { translateTagalogToEnglish } from '../services/translator';
 
 export default function Translator() {
@@ -24,6 +26,7 @@ export default function Translator() {
     const [englishTranslation, setEnglishTranslation] = useState('');
     const [isTranslating, setIsTranslating] = useState(false);
     const [isSpeaking, setIsSpeaking] = useState(false);
+    const { available: aiAvailable, loading: aiLoading } = useAIAvailability();
 
     // Translate function
     const handleTranslate = async () => {
@@ -47,7 +50,7 @@ export default function Translator() {
             });
         } catch (error) {
             console.error('Translation error:', error);
-            Alert.alert('Translation Failed', 'Could not translate. Please try again.');
+            Alert.alert('Translation Failed', describeAIError(error));
         } finally {
             setIsTranslating(false);
         }
@@ -96,6 +99,18 @@ export default function Translator() {
                 behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
             >
                 <ScrollView contentContainerStyle={styles.scrollContent}>
+                    {/* AI Unavailable */}
+                    {!aiLoading && !aiAvailable && (
+                        <TouchableOpacity style={styles.unavailableCard} onPress={() => router.push('/ai-settings')}>
+                            <Ionicons name="cloud-offline" size={24} color="#DC2626" />
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.unavailableTitle}>AI Unavailable</Text>
+                                <Text style={styles.unavailableText}>Tap to add a Gemini API key</Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={20} color="#DC2626" />
+                        </TouchableOpacity>
+                    )}
+
                     {/* Instructions */}
                     <View style={styles.instructionCard}>
                         <Ionicons name="information-circle" size={24} color="#43e97b" />
@@ -121,9 +136,9 @@ export default function Translator() {
 
                     {/* Big Green Translate Button */}
                     <TouchableOpacity
-                        style={[styles.translateButton, isTranslating && styles.translateButtonDisabled]}
+                        style={[styles.translateButton, (isTranslating || !aiAvailable) && styles.translateButtonDisabled]}
                         onPress={handleTranslate}
-                        disabled={isTranslating}
+                        disabled={isTranslating || !aiAvailable}
                     >
                         {isTranslating ? (
                             <>
@@ -212,6 +227,24 @@ const styles = StyleSheet.create({
         borderRadius: 12,
         gap: 12,
     },
+    unavailableCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FEF2F2',
+        padding: 16,
+        borderRadius: 12,
+        gap: 12,
+    },
+    unavailableTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#991B1B',
+    },
+    unavailableText: {
+        fontSize: 13,
+        color: '#B91C1C',
+        marginTop: 2,
+    },
     instructionText: {
         flex: 1,
         fontSize: 14,
@@ -0,0 +1,127 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { FoodRestriction } from '../services/foodRestrictions';
+import { speakText, stopSpeaking } from '../services/speechService';
+
+/**
+ * "A and B", "A, B and C"
+ */
+function joinNames(names: string[]): string {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * The whole list as it is read aloud
+ */
+function describeRestrictions(restrictions: FoodRestriction[]): string {
+    return [
+        'Foods and drinks to avoid with your medicines.',
+        ...restrictions.map(restriction => `${restriction.food}, because of ${joinNames(restriction.medicines)}.`),
+    ].join(' ');
+}
+
+export interface FoodRestrictionsProps {
+    restrictions: FoodRestriction[];
+}
+
+/**
+ * What to avoid eating or drinking across all active medicines, one row per
+ * food with the medicines that warn about it, and a button to read it all
+ * aloud. Renders nothing when no medicine has food warnings.
+ */
+export function FoodRestrictions({ restrictions }: FoodRestrictionsProps) {
+    const [isSpeaking, setIsSpeaking] = useState(false);
+
+    // Don't keep reading after the screen is left
+    useEffect(() => () => stopSpeaking(), []);
+
+    if (restrictions.length === 0) return null;
+
+    const handleReadAloud = () => {
+        stopSpeaking();
+        if (isSpeaking) {
+            setIsSpeaking(false);
+            return;
+        }
+        setIsSpeaking(true);
+        speakText(describeRestrictions(restrictions), () => setIsSpeaking(false));
+    };
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.header}>
+                <Ionicons name="restaurant" size={20} color="#9A3412" />
+                <Text style={styles.title}>WHAT TO AVOID</Text>
+                <TouchableOpacity style={styles.readButton} onPress={handleReadAloud}>
+                    <Ionicons name={isSpeaking ? 'stop' : 'volume-high'} size={16} color="#FFF" />
+                    <Text style={styles.readButtonText}>{isSpeaking ? 'Stop' : 'Read aloud'}</Text>
+                </TouchableOpacity>
+            </View>
+
+            {restrictions.map(restriction => (
+                <View key={restriction.food} style={styles.row}>
+                    <Ionicons name="close-circle" size={18} color="#DC2626" />
+                    <View style={styles.rowBody}>
+                        <Text style={styles.food}>{restriction.food}</Text>
+                        <Text style={styles.medicines}>With {restriction.medicines.join(', ')}</Text>
+                    </View>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: '#FFF7ED',
+        padding: 12,
+        marginHorizontal: 16,
+        marginTop: 16,
+        borderRadius: 8,
+        gap: 10,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    title: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '800',
+        color: '#9A3412',
+    },
+    readButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        backgroundColor: '#9A3412',
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 14,
+    },
+    readButtonText: {
+        fontSize: 12,
+        fontWeight: '700',
+        color: '#FFF',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 8,
+    },
+    rowBody: {
+        flex: 1,
+    },
+    food: {
+        fontSize: 15,
+        fontWeight: '700',
+        color: '#111827',
+    },
+    medicines: {
+        fontSize: 13,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+});
@@ -0,0 +1,222 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Speech from 'expo-speech';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { DrugInteraction, InteractionReport } from '../services/gemini';
+import { INTERACTION_SOURCE_LABELS } from '../services/interactions';
+
+const SEVERITY_DISPLAY: Record<DrugInteraction['severity'], { label: string; color: string; background: string }> = {
+    high: { label: 'HIGH', color: '#B91C1C', background: '#FEE2E2' },
+    medium: { label: 'MEDIUM', color: '#B45309', background: '#FEF3C7' },
+    low: { label: 'LOW', color: '#1D4ED8', background: '#DBEAFE' },
+};
+
+/**
+ * Text ending in exactly one full stop, for reading aloud
+ */
+function sentence(text: string): string {
+    return `${text.trim().replace(/[.!]+$/, '')}.`;
+}
+
+/**
+ * "A and B", "A, B and C"
+ */
+function joinNames(names: string[]): string {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * One pair or group as it is read aloud
+ */
+function describeInteraction(interaction: DrugInteraction): string {
+    return [
+        `${joinNames(interaction.medicines)}: ${interaction.severity} risk.`,
+        sentence(interaction.mechanism),
+        sentence(interaction.effect),
+        `What to do: ${sentence(interaction.action)}`,
+    ].join(' ');
+}
+
+function speak(text: string) {
+    try {
+        Speech.stop();
+        Speech.speak(text, { language: 'en', pitch: 1.0, rate: 0.9 });
+    } catch (e) {
+        console.warn('TTS Error:', e);
+    }
+}
+
+export interface InteractionMatrixProps {
+    report: InteractionReport;
+}
+
+/**
+ * The interacting pairs of a report, collapsed to one line until opened.
+ * Each pair opens to its mechanism, effect and what to do, and can be read
+ * aloud on its own or with all the others. Renders nothing for reports that
+ * have no pairs (no conflict, or saved before pairs were checked).
+ */
+export function InteractionMatrix({ report }: InteractionMatrixProps) {
+    const [expanded, setExpanded] = useState(false);
+    const [openIndex, setOpenIndex] = useState<number | null>(0);
+
+    const interactions = report.interactions ?? [];
+    if (interactions.length === 0) return null;
+
+    const handleReadAll = () => {
+        const intro = interactions.length === 1
+            ? 'One interaction found.'
+            : `${interactions.length} interactions found.`;
+        speak([intro, ...interactions.map(describeInteraction)].join(' '));
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.toolbar}>
+                <TouchableOpacity style={styles.toggle} onPress={() => setExpanded(!expanded)}>
+                    <Text style={styles.toggleText}>
+                        {expanded ? 'Hide details' : `See ${interactions.length} interaction${interactions.length !== 1 ? 's' : ''} one by one`}
+                    </Text>
+                    <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#374151" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.readButton} onPress={handleReadAll}>
+                    <Ionicons name="volume-high" size={16} color="#FFF" />
+                    <Text style={styles.readButtonText}>Read aloud</Text>
+                </TouchableOpacity>
+            </View>
+
+            {expanded && interactions.map((interaction, index) => {
+                const isOpen = openIndex === index;
+                const display = SEVERITY_DISPLAY[interaction.severity];
+                return (
+                    <View key={`${interaction.medicines.join('+')}-${index}`} style={[styles.pairCard, { borderLeftColor: display.color }]}>
+                        <TouchableOpacity style={styles.pairHeader} onPress={() => setOpenIndex(isOpen ? null : index)}>
+                            <Text style={styles.pairNames}>{interaction.medicines.join(' + ')}</Text>
+                            <View style={[styles.severityChip, { backgroundColor: display.background }]}>
+                                <Text style={[styles.severityText, { color: display.color }]}>{display.label}</Text>
+                            </View>
+                            <Ionicons name={isOpen ? 'chevron-up' : 'chevron-down'} size={16} color="#6B7280" />
+                        </TouchableOpacity>
+
+                        {isOpen && (
+                            <View style={styles.pairBody}>
+                                <Text style={styles.pairLabel}>HOW THEY INTERACT</Text>
+                                <Text style={styles.pairText}>{interaction.mechanism}</Text>
+                                <Text style={styles.pairLabel}>WHAT CAN HAPPEN</Text>
+                                <Text style={styles.pairText}>{interaction.effect}</Text>
+                                <Text style={styles.pairLabel}>WHAT TO DO</Text>
+                                <Text style={[styles.pairText, styles.pairAction]}>{interaction.action}</Text>
+                                {interaction.source && (
+                                    <Text style={styles.pairSource}>Source: {INTERACTION_SOURCE_LABELS[interaction.source]}</Text>
+                                )}
+                                <TouchableOpacity style={styles.pairSpeak} onPress={() => speak(describeInteraction(interaction))}>
+                                    <Ionicons name="volume-medium" size={16} color="#007AFF" />
+                                    <Text style={styles.pairSpeakText}>Read this one</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginTop: 8,
+        gap: 8,
+    },
+    toolbar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 8,
+    },
+    toggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        flexShrink: 1,
+    },
+    toggleText: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: '#374151',
+    },
+    readButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        backgroundColor: '#374151',
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 14,
+    },
+    readButtonText: {
+        fontSize: 12,
+        fontWeight: '700',
+        color: '#FFF',
+    },
+    pairCard: {
+        backgroundColor: '#FFF',
+        borderRadius: 10,
+        borderLeftWidth: 4,
+        padding: 10,
+    },
+    pairHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    pairNames: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#111827',
+    },
+    severityChip: {
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 8,
+    },
+    severityText: {
+        fontSize: 11,
+        fontWeight: '800',
+    },
+    pairBody: {
+        marginTop: 8,
+    },
+    pairLabel: {
+        fontSize: 11,
+        fontWeight: '700',
+        color: '#6B7280',
+        marginTop: 6,
+    },
+    pairText: {
+        fontSize: 13,
+        color: '#374151',
+        lineHeight: 18,
+        marginTop: 2,
+    },
+    pairAction: {
+        fontWeight: '600',
+        color: '#111827',
+    },
+    pairSource: {
+        fontSize: 11,
+        color: '#6B7280',
+        marginTop: 8,
+    },
+    pairSpeak: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 8,
+    },
+    pairSpeakText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
+});
@@ -0,0 +1,401 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { MedicationRecord } from '../services/medicationStorage';
+import {
+    describeRegimen,
+    intervalTimes,
+    isValidTime,
+    MEAL_TIMING_LABELS,
+    MealTiming,
+    parseRegimen,
+    Regimen,
+    RegimenKind,
+    sortTimes,
+    WEEKDAY_LABELS
+} from '../services/regimen';
+
+const REGIMEN_KINDS: { id: RegimenKind; label: string }[] = [
+    { id: 'scheduled', label: 'Set times' },
+    { id: 'interval', label: 'Every few hours' },
+    { id: 'as-needed', label: 'As needed' },
+];
+
+const MEAL_TIMINGS = Object.keys(MEAL_TIMING_LABELS) as MealTiming[];
+
+export interface RegimenEditorProps {
+    medication: MedicationRecord | null;
+    onClose: () => void;
+    onSave: (regimen: Regimen) => void;
+}
+
+const toCount = (value: string) => {
+    const count = parseInt(value, 10);
+    return count > 0 ? count : undefined;
+};
+
+// The editor's text fields, before validation
+interface RegimenForm {
+    kind: RegimenKind;
+    times: string[];
+    intervalHours: string;
+    mealTiming?: MealTiming;
+    doseAmount: string;
+    maxDailyDoses: string;
+    courseDays: string;
+    daysOfWeek: number[]; // Empty means every day
+}
+
+// Regimen the editor would save, or null while the input is incomplete
+function formToRegimen(form: RegimenForm): Regimen | null {
+    const hours = toCount(form.intervalHours);
+    const regimen: Regimen = {
+        kind: form.kind,
+        times: [],
+        mealTiming: form.mealTiming,
+        doseAmount: form.doseAmount.trim() || undefined,
+        courseDays: toCount(form.courseDays),
+        daysOfWeek: form.kind !== 'as-needed' && form.daysOfWeek.length ? [...form.daysOfWeek].sort() : undefined,
+    };
+
+    if (form.kind === 'scheduled') {
+        if (form.times.length === 0 || form.times.some(time => !isValidTime(time))) return null;
+        regimen.times = sortTimes(form.times);
+    } else if (form.kind === 'interval') {
+        if (!hours || hours > 24 || !isValidTime(form.times[0] ?? '')) return null;
+        regimen.intervalHours = hours;
+        regimen.times = intervalTimes(hours, sortTimes([form.times[0]])[0]);
+    } else {
+        regimen.intervalHours = hours;
+        regimen.maxDailyDoses = toCount(form.maxDailyDoses);
+    }
+    return regimen;
+}
+
+export function RegimenEditor({ medication, onClose, onSave }: RegimenEditorProps) {
+    const [kind, setKind] = useState<RegimenKind>('scheduled');
+    const [times, setTimes] = useState<string[]>([]);
+    const [intervalHours, setIntervalHours] = useState('');
+    const [mealTiming, setMealTiming] = useState<MealTiming | undefined>();
+    const [doseAmount, setDoseAmount] = useState('');
+    const [maxDailyDoses, setMaxDailyDoses] = useState('');
+    const [courseDays, setCourseDays] = useState('');
+    const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+
+    const loadRegimen = (regimen: Regimen) => {
+        setKind(regimen.kind);
+        setTimes(regimen.times.length ? regimen.times : ['08:00']);
+        setIntervalHours(regimen.intervalHours ? String(regimen.intervalHours) : '');
+        setMealTiming(regimen.mealTiming);
+        setDoseAmount(regimen.doseAmount ?? '');
+        setMaxDailyDoses(regimen.maxDailyDoses ? String(regimen.maxDailyDoses) : '');
+        setCourseDays(regimen.courseDays ? String(regimen.courseDays) : '');
+        setDaysOfWeek(regimen.daysOfWeek ?? []);
+    };
+
+    const toggleDay = (day: number) => {
+        setDaysOfWeek(current => current.includes(day) ? current.filter(d => d !== day) : [...current, day]);
+    };
+
+    useEffect(() => {
+        if (medication) loadRegimen(medication.regimen);
+    }, [medication]);
+
+    const handleSave = () => {
+        const regimen = formToRegimen({ kind, times, intervalHours, mealTiming, doseAmount, maxDailyDoses, courseDays, daysOfWeek });
+        if (regimen) {
+            onSave(regimen);
+        } else if (kind === 'interval') {
+            Alert.alert('Check the Interval', 'Enter the hours between doses (1-24) and the first dose time as HH:MM.');
+        } else {
+            Alert.alert('Check the Times', 'Enter each time as HH:MM in 24-hour format, e.g. 08:00 or 20:30.');
+        }
+    };
+
+    const updateTime = (index: number, value: string) => {
+        setTimes(current => current.map((time, i) => i === index ? value : time));
+    };
+
+    const renderChip = (label: string, active: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={label}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={onPress}
+        >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    if (!medication) return null;
+
+    const preview = formToRegimen({ kind, times, intervalHours, mealTiming, doseAmount, maxDailyDoses, courseDays, daysOfWeek });
+
+    return (
+        <Modal visible animationType="slide" transparent onRequestClose={onClose}>
+            <View style={styles.modalOverlay}>
+                <View style={styles.editorSheet}>
+                    <View style={styles.editorHeader}>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.editorTitle}>Dosing Schedule</Text>
+                            <Text style={styles.editorSubtitle}>{medication.analysis.medicineName}</Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose}>
+                            <Ionicons name="close-circle" size={30} color="#D1D5DB" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.editorBody} keyboardShouldPersistTaps="handled">
+                        <Text style={styles.bodyLabel}>On the Label</Text>
+                        <Text style={styles.bodyTextSmall}>{medication.analysis.dosage || 'No dosage text'}</Text>
+                        <TouchableOpacity
+                            onPress={() => loadRegimen(parseRegimen(medication.analysis.dosage, medication.analysis.recommendedTime))}
+                        >
+                            <Text style={styles.linkText}>Reset to label</Text>
+                        </TouchableOpacity>
+
+                        <Text style={styles.bodyLabel}>How Often</Text>
+                        <View style={styles.chipRow}>
+                            {REGIMEN_KINDS.map(k => renderChip(k.label, kind === k.id, () => setKind(k.id)))}
+                        </View>
+
+                        {kind === 'scheduled' && (
+                            <>
+                                <Text style={styles.bodyLabel}>Times (24-hour)</Text>
+                                {times.map((time, index) => (
+                                    <View key={index} style={styles.timeRow}>
+                                        <TextInput
+                                            style={[styles.input, styles.timeInput, !isValidTime(time) && styles.inputInvalid]}
+                                            value={time}
+                                            onChangeText={value => updateTime(index, value)}
+                                            placeholder="08:00"
+                                            keyboardType="numbers-and-punctuation"
+                                            maxLength={5}
+                                        />
+                                        {times.length > 1 && (
+                                            <TouchableOpacity onPress={() => setTimes(current => current.filter((_, i) => i !== index))}>
+                                                <Ionicons name="remove-circle-outline" size={24} color="#DC2626" />
+                                            </TouchableOpacity>
+                                        )}
+                                    </View>
+                                ))}
+                                <TouchableOpacity style={styles.addTimeButton} onPress={() => setTimes(current => [...current, ''])}>
+                                    <Ionicons name="add" size={18} color="#007AFF" />
+                                    <Text style={styles.linkText}>Add a time</Text>
+                                </TouchableOpacity>
+                            </>
+                        )}
+
+                        {kind === 'interval' && (
+                            <>
+                                <Text style={styles.bodyLabel}>Hours Between Doses</Text>
+                                <TextInput
+                                    style={styles.input}
+                                    value={intervalHours}
+                                    onChangeText={setIntervalHours}
+                                    placeholder="8"
+                                    keyboardType="number-pad"
+                                />
+                                <Text style={styles.bodyLabel}>First Dose (24-hour)</Text>
+                                <TextInput
+                                    style={[styles.input, styles.timeInput]}
+                                    value={times[0] ?? ''}
+                                    onChangeText={value => updateTime(0, value)}
+                                    placeholder="08:00"
+                                    keyboardType="numbers-and-punctuation"
+                                    maxLength={5}
+                                />
+                            </>
+                        )}
+
+                        {kind === 'as-needed' && (
+                            <>
+                                <Text style={styles.bodyLabel}>At Least This Many Hours Apart (optional)</Text>
+                                <TextInput
+                                    style={styles.input}
+                                    value={intervalHours}
+                                    onChangeText={setIntervalHours}
+                                    placeholder="4"
+                                    keyboardType="number-pad"
+                                />
+                                <Text style={styles.bodyLabel}>Most Doses per Day (optional)</Text>
+                                <TextInput
+                                    style={styles.input}
+                                    value={maxDailyDoses}
+                                    onChangeText={setMaxDailyDoses}
+                                    placeholder="4"
+                                    keyboardType="number-pad"
+                                />
+                            </>
+                        )}
+
+                        {kind !== 'as-needed' && (
+                            <>
+                                <Text style={styles.bodyLabel}>Days</Text>
+                                <View style={styles.chipRow}>
+                                    {renderChip('Every day', daysOfWeek.length === 0, () => setDaysOfWeek([]))}
+                                    {WEEKDAY_LABELS.map((label, day) => renderChip(label, daysOfWeek.includes(day), () => toggleDay(day)))}
+                                </View>
+                            </>
+                        )}
+
+                        <Text style={styles.bodyLabel}>Meals</Text>
+                        <View style={styles.chipRow}>
+                            {renderChip('Any time', !mealTiming, () => setMealTiming(undefined))}
+                            {MEAL_TIMINGS.map(m => renderChip(MEAL_TIMING_LABELS[m], mealTiming === m, () => setMealTiming(m)))}
+                        </View>
+
+                        <Text style={styles.bodyLabel}>Amount per Dose</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={doseAmount}
+                            onChangeText={setDoseAmount}
+                            placeholder="1 tablet"
+                        />
+
+                        <Text style={styles.bodyLabel}>Number of Days (blank if ongoing)</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={courseDays}
+                            onChangeText={setCourseDays}
+                            placeholder="7"
+                            keyboardType="number-pad"
+                        />
+
+                        {preview && <Text style={styles.regimenPreview}>{describeRegimen(preview)}</Text>}
+                    </ScrollView>
+
+                    <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                        <Text style={styles.saveButtonText}>Save Schedule</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    editorSheet: {
+        backgroundColor: '#FFF',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        maxHeight: '90%',
+        paddingBottom: 32,
+    },
+    editorHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#F3F4F6',
+    },
+    editorTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#000',
+    },
+    editorSubtitle: {
+        fontSize: 14,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+    editorBody: {
+        paddingHorizontal: 20,
+    },
+    bodyLabel: {
+        fontSize: 12,
+        fontWeight: '700',
+        color: '#6B7280',
+        marginTop: 12,
+        marginBottom: 4,
+        letterSpacing: 0.5,
+    },
+    bodyTextSmall: {
+        fontSize: 13,
+        color: '#6B7280',
+        marginTop: 2,
+    },
+    linkText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#007AFF',
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingVertical: 6,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+        backgroundColor: '#FFF',
+    },
+    chipActive: {
+        backgroundColor: '#007AFF',
+        borderColor: '#007AFF',
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#374151',
+    },
+    chipTextActive: {
+        color: '#FFF',
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 16,
+        color: '#000',
+    },
+    inputInvalid: {
+        borderColor: '#DC2626',
+    },
+    timeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        marginBottom: 8,
+    },
+    timeInput: {
+        width: 100,
+    },
+    addTimeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 4,
+    },
+    regimenPreview: {
+        fontSize: 14,
+        color: '#374151',
+        backgroundColor: '#F0F9FF',
+        padding: 12,
+        borderRadius: 8,
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    saveButton: {
+        backgroundColor: '#007AFF',
+        marginHorizontal: 20,
+        marginTop: 12,
+        padding: 14,
+        borderRadius: 10,
+        alignItems: 'center',
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#FFF',
+    },
+});
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+import { AIConfig, getAIConfig, isAIAvailable, subscribeToAIConfig } from '@/services/config';
+
+/**
+ * Tracks whether AI features can be used, so screens can show an
+ * "AI unavailable" state instead of failing on the first call.
+ */
+export function useAIAvailability() {
+  const [config, setConfig] = useState<AIConfig | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    getAIConfig().then((resolved) => {
+      if (mounted) setConfig(resolved);
+    });
+    const unsubscribe = subscribeToAIConfig(setConfig);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    loading: config === null,
+    available: config !== null && isAIAvailable(config),
+    config,
+  };
+}
@@ -0,0 +1,59 @@
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useEffect } from 'react';
+
+import { announceReminder, handleReminderResponse, REMINDER_ACTION_TASK } from '@/services/reminderActions';
+import { setupReminderCategory } from '@/services/reminders';
+
+// Show notifications while the app is in the foreground too
+try {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+      shouldShowBanner: true,
+      shouldShowList: true,
+    }),
+  });
+} catch (e) {
+  console.warn('Notification handler setup failed:', e);
+}
+
+// Taken / Snooze / Skip pressed while the app is in the background or closed
+Notifications.registerTaskAsync(REMINDER_ACTION_TASK).catch((error) =>
+  console.error('Reminder action task registration failed:', error));
+
+async function onResponse(response: Notifications.NotificationResponse) {
+  const handled = await handleReminderResponse(response);
+  // A plain tap on a reminder opens the day's schedule
+  if (!handled && response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER &&
+    response.notification.request.content.data?.medicationId) {
+    router.push('/medications');
+  }
+}
+
+/**
+ * App-wide handling of medicine reminders: speaks them when they arrive
+ * and applies Taken / Snooze / Skip presses wherever the user is in the app.
+ */
+export function useReminderNotifications() {
+  useEffect(() => {
+    setupReminderCategory().catch((error) => console.error('Reminder category setup failed:', error));
+
+    const received = Notifications.addNotificationReceivedListener(announceReminder);
+    const responses = Notifications.addNotificationResponseReceivedListener(onResponse);
+
+    // An action pressed while the app was not running
+    const last = Notifications.getLastNotificationResponse();
+    if (last) {
+      Notifications.clearLastNotificationResponse();
+      onResponse(last);
+    }
+
+    return () => {
+      received.remove();
+      responses.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the Gemini generateContent endpoint.
+ * Start it with `npm run mock-ai`, then run the app with EXPO_PUBLIC_AI_PROFILE=development
+ * (and EXPO_PUBLIC_AI_MOCK_URL=http://<your machine's LAN IP>:8787 on a physical device).
+ *
+ * Responses come from, in order:
+ *   1. a recorded fixture <fixtures dir>/<task>-<hash>.json (see services/fixtureRecorder.ts)
+ *   2. the canned fixture fixtures/ai/<task>.json
+ *
+ * Options:
+ *   --port <n>        Port to listen on (default 8787 or $MOCK_AI_PORT)
+ *   --fixtures <dir>  Directory of recorded fixtures (default fixtures/ai/recorded)
+ *   --delay <ms>      Wait before every response, to exercise loading states and timeouts
+ *   --fail <status>   Answer every request with this HTTP status (e.g. 429, 503)
+ */
+
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+
+const root = process.cwd();
+const cannedDir = path.join(root, "fixtures", "ai");
+const TASKS = ["medicine-image", "interactions", "person-info", "translation"];
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readOption("port", process.env.MOCK_AI_PORT || 8787));
+const recordedDir = path.resolve(readOption("fixtures", path.join(cannedDir, "recorded")));
+const delay = Number(readOption("delay", 0));
+const failStatus = Number(readOption("fail", 0));
+
+// FNV-1a 32-bit; must match services/hash.ts so recorded keys line up
+function hashString(value) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function readFixture(file) {
+  if (!fs.existsSync(file)) return null;
+  const fixture = JSON.parse(fs.readFileSync(file, "utf8"));
+  return typeof fixture.text === "string" ? fixture.text : JSON.stringify(fixture.response);
+}
+
+// The app sends x-medimate-task; fall back to sniffing the prompt for other clients
+function detectTask(headers, prompt, hasImage) {
+  const header = headers["x-medimate-task"];
+  if (TASKS.includes(header)) return header;
+  if (hasImage) return "medicine-image";
+  if (/drug interactions/i.test(prompt)) return "interactions";
+  if (/extract person information/i.test(prompt)) return "person-info";
+  if (/translat/i.test(prompt)) return "translation";
+  return null;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, message) {
+  sendJson(res, status, { error: { code: status, message, status: http.STATUS_CODES[status] } });
+}
+
+function handleGenerateContent(req, res, body) {
+  const parts = (body.contents || []).flatMap((content) => content.parts || []);
+  const prompt = parts.filter((part) => typeof part.text === "string").map((part) => part.text).join("");
+  const image = parts.find((part) => part.inlineData);
+
+  const task = detectTask(req.headers, prompt, !!image);
+  if (!task) {
+    sendError(res, 400, "Mock server could not tell which task this prompt is for");
+    return;
+  }
+
+  const key = `${task}-${hashString(prompt + (image ? image.inlineData.data : ""))}`;
+  const text = readFixture(path.join(recordedDir, `${key}.json`)) ?? readFixture(path.join(cannedDir, `${task}.json`));
+  if (text === null) {
+    sendError(res, 404, `No fixture for ${key}`);
+    return;
+  }
+
+  console.log(`${new Date().toISOString()} ${task} ${key}`);
+  sendJson(res, 200, {
+    candidates: [
+      {
+        content: { role: "model", parts: [{ text }] },
+        finishReason: "STOP",
+        index: 0,
+      },
+    ],
+    usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+  });
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === "GET" && req.url === "/health") {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (req.method !== "POST" || !/:generateContent(\?|$)/.test(req.url)) {
+    sendError(res, 404, `Unsupported route ${req.method} ${req.url}`);
+    return;
+  }
+
+  let raw = "";
+  req.on("data", (chunk) => {
+    raw += chunk;
+  });
+  req.on("end", () => {
+    setTimeout(() => {
+      if (failStatus) {
+        sendError(res, failStatus, "Simulated failure (--fail)");
+        return;
+      }
+      try {
+        handleGenerateContent(req, res, JSON.parse(raw || "{}"));
+      } catch (error) {
+        sendError(res, 400, `Invalid request body: ${error.message}`);
+      }
+    }, delay);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock Gemini server listening on http://localhost:${port}`);
+  console.log(`Recorded fixtures: ${recordedDir}`);
+});
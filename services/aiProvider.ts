@@ -0,0 +1,91 @@
+import { AIUnavailableError, getAIConfig, subscribeToAIConfig } from './config';
+import { createFixtureProvider } from './fixtureProvider';
+import { createRecordingProvider, createReplayProvider } from './fixtureRecorder';
+import { createGeminiProvider } from './geminiProvider';
+
+export type AITask = 'medicine-image' | 'interactions' | 'person-info' | 'translation';
+
+export interface AIImage {
+    data: string; // base64-encoded bytes
+    mimeType: string;
+}
+
+export interface AIRequest {
+    task: AITask;
+    prompt: string;
+    image?: AIImage;
+}
+
+export interface AIGenerateOptions {
+    signal?: AbortSignal; // Aborts the underlying request (timeout or user cancel)
+}
+
+/**
+ * A backend that turns a prompt (and optional image) into raw model text.
+ * Prompt building and response parsing stay in the services, so every
+ * provider is exercised through the same parsing path.
+ */
+export interface AIProvider {
+    id: string;
+    model: string;
+    generate(request: AIRequest, options?: AIGenerateOptions): Promise<string>;
+}
+
+let activeProvider: AIProvider | null = null;
+let isOverridden = false;
+
+// A new key or profile means the default provider must be rebuilt
+subscribeToAIConfig(() => {
+    if (!isOverridden) activeProvider = null;
+});
+
+/**
+ * Builds the provider named by the resolved config ("gemini" or "fixture"),
+ * wrapped for fixture recording/replay when EXPO_PUBLIC_AI_FIXTURES asks for it.
+ * Throws AIUnavailableError when Gemini has no key to call with.
+ */
+async function createDefaultProvider(): Promise<AIProvider> {
+    const config = await getAIConfig();
+
+    let base: AIProvider;
+    if (config.provider === 'fixture') {
+        base = createFixtureProvider();
+    } else if (config.apiKey) {
+        base = createGeminiProvider({ apiKey: config.apiKey, model: config.model, baseUrl: config.baseUrl });
+    } else if (config.fixtureMode === 'replay') {
+        // Unrecorded requests still get a deterministic answer offline
+        base = createFixtureProvider();
+    } else {
+        throw new AIUnavailableError();
+    }
+
+    if (config.fixtureMode === 'record') return createRecordingProvider(base);
+    if (config.fixtureMode === 'replay') return createReplayProvider(base);
+    return base;
+}
+
+/**
+ * Get the provider used by all AI calls
+ */
+export async function getAIProvider(): Promise<AIProvider> {
+    if (!activeProvider) {
+        activeProvider = await createDefaultProvider();
+    }
+    return activeProvider;
+}
+
+/**
+ * Swap the provider at runtime (e.g. fixtures for offline development)
+ */
+export function setAIProvider(provider: AIProvider): void {
+    activeProvider = provider;
+    isOverridden = true;
+}
+
+/**
+ * Drop the active provider so the next call re-creates the default one
+ */
+export function resetAIProvider(): void {
+    activeProvider = null;
+    isOverridden = false;
+}
@@ -0,0 +1,197 @@
+import { AIRequest, AITask, getAIProvider } from './aiProvider';
+import { AIUnavailableError } from './config';
+
+export type AIErrorCategory =
+    | 'network'          // No connection / request never reached the server
+    | 'timeout'          // No answer within the time limit
+    | 'rate-limit'       // Quota exhausted or HTTP 429
+    | 'server'           // 5xx from the provider
+    | 'auth'             // Key rejected
+    | 'invalid-response' // Answer arrived but could not be used
+    | 'cancelled'        // Aborted by the caller (e.g. retake photo)
+    | 'unknown';
+
+const CATEGORY_MESSAGES: Record<AIErrorCategory, string> = {
+    'network': 'No internet connection. Check your connection and try again.',
+    'timeout': 'The request took too long. Please try again.',
+    'rate-limit': 'Too many requests right now. Please wait a minute and try again.',
+    'server': 'The AI service is temporarily unavailable. Please try again shortly.',
+    'auth': 'The AI service rejected the API key. Check it in AI Settings.',
+    'invalid-response': 'The AI returned an answer that could not be read. Please try again.',
+    'cancelled': 'The request was cancelled.',
+    'unknown': 'Something went wrong. Please try again.',
+};
+
+const RETRYABLE: AIErrorCategory[] = ['network', 'timeout', 'rate-limit', 'server'];
+
+/**
+ * A failed AI call, classified. `message` is safe to show to the user;
+ * the original error is kept in `cause` for logging.
+ */
+export class AIRequestError extends Error {
+    category: AIErrorCategory;
+    status?: number;
+    retryAfterMs?: number; // Server-suggested wait for rate limits
+    cause?: unknown;
+
+    constructor(category: AIErrorCategory, options: { message?: string; status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(options.message ?? CATEGORY_MESSAGES[category]);
+        this.name = 'AIRequestError';
+        this.category = category;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+        this.cause = options.cause;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.includes(this.category);
+    }
+}
+
+export interface AIRequestOptions {
+    signal?: AbortSignal;   // Cancels the call, including any pending retries
+    timeoutMs?: number;     // Per attempt; defaults by task
+    maxRetries?: number;    // Extra attempts after the first for transient failures
+    baseDelayMs?: number;   // First backoff delay; doubles each retry
+}
+
+// Image analysis uploads a photo and thinks longer than the text tasks
+const DEFAULT_TIMEOUTS: Record<AITask, number> = {
+    'medicine-image': 45000,
+    'interactions': 20000,
+    'person-info': 15000,
+    'translation': 15000,
+};
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000; // Longer server-requested waits fail fast instead
+
+// "17s" / "1.5s" from google.rpc.RetryInfo
+function parseRetryDelay(details: unknown): number | undefined {
+    if (!Array.isArray(details)) return undefined;
+    const info = details.find(d => typeof d?.['@type'] === 'string' && d['@type'].endsWith('RetryInfo'));
+    const match = typeof info?.retryDelay === 'string' ? info.retryDelay.match(/^([\d.]+)s$/) : null;
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Map any error thrown by a provider (or by our own parsing) to an AIRequestError.
+ * Errors are duck-typed so this works for every provider, not just the Gemini SDK.
+ */
+export function classifyAIError(error: unknown): AIRequestError {
+    if (error instanceof AIRequestError) return error;
+
+    const err = error as { name?: string; message?: string; status?: number; errorDetails?: unknown } | undefined;
+    const message = err?.message ?? String(error);
+    const status = typeof err?.status === 'number' ? err.status : undefined;
+
+    if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+        return new AIRequestError('rate-limit', { status, retryAfterMs: parseRetryDelay(err?.errorDetails), cause: error });
+    }
+    if (status === 401 || status === 403 || /api key not valid|api_key_invalid|permission denied/i.test(message)) {
+        return new AIRequestError('auth', { status, cause: error });
+    }
+    if (status === 408) return new AIRequestError('timeout', { status, cause: error });
+    if (status !== undefined && status >= 500) return new AIRequestError('server', { status, cause: error });
+    if (err?.name === 'AbortError' || /aborted/i.test(message)) return new AIRequestError('cancelled', { cause: error });
+    if (/network request failed|failed to fetch|fetch failed|network error|timed out|ECONN|ENOTFOUND/i.test(message)) {
+        return new AIRequestError('network', { cause: error });
+    }
+    if (/blocked|SAFETY|candidate/i.test(message)) return new AIRequestError('invalid-response', { cause: error });
+    return new AIRequestError('unknown', { status, cause: error });
+}
+
+/**
+ * User-facing text for any error coming out of an AI call
+ */
+export function describeAIError(error: unknown): string {
+    if (error instanceof AIUnavailableError) return error.message;
+    return classifyAIError(error).message;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AIRequestError('cancelled'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AIRequestError('cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * One attempt with its own deadline. The provider gets an abort signal, but the
+ * race below still settles the call if a provider ignores it.
+ */
+async function attempt(request: AIRequest, timeoutMs: number, signal?: AbortSignal): Promise<string> {
+    const provider = await getAIProvider();
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+            reject(new AIRequestError('timeout'));
+        }, timeoutMs);
+        controller.signal.addEventListener('abort', () => {
+            if (!timedOut) reject(new AIRequestError('cancelled'));
+        }, { once: true });
+    });
+
+    try {
+        return await Promise.race([provider.generate(request, { signal: controller.signal }), deadline]);
+    } catch (error) {
+        if (timedOut) throw new AIRequestError('timeout', { cause: error });
+        if (signal?.aborted) throw new AIRequestError('cancelled', { cause: error });
+        throw classifyAIError(error);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Send a request through the active provider with a timeout, exponential
+ * backoff on transient failures (network, timeout, 429, 5xx) and cancellation.
+ * Throws AIUnavailableError when no provider is configured, AIRequestError otherwise.
+ */
+export async function requestAI(request: AIRequest, options: AIRequestOptions = {}): Promise<string> {
+    const {
+        signal,
+        timeoutMs = DEFAULT_TIMEOUTS[request.task],
+        maxRetries = DEFAULT_MAX_RETRIES,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    } = options;
+
+    for (let retry = 0; ; retry++) {
+        if (signal?.aborted) throw new AIRequestError('cancelled');
+
+        try {
+            return await attempt(request, timeoutMs, signal);
+        } catch (error) {
+            if (error instanceof AIUnavailableError) throw error;
+            const failure = classifyAIError(error);
+            if (!failure.retryable || retry >= maxRetries) throw failure;
+
+            // Exponential backoff with jitter; honour the server's wait for rate limits
+            const backoff = baseDelayMs * 2 ** retry * (0.75 + Math.random() * 0.5);
+            const delay = Math.max(backoff, failure.retryAfterMs ?? 0);
+            if (delay > MAX_DELAY_MS) throw failure;
+
+            console.warn(`AI ${request.task} request failed (${failure.category}), retrying in ${Math.round(delay)}ms`);
+            await wait(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { PROMPT_VERSION } from './gemini';
+import { getMedicineIngredients } from './ingredients';
+import { RESPONSE_SCHEMA_VERSION } from './responseSchema';
+
+export type CacheNamespace = 'medicine-image' | 'interactions';
+
+interface CacheEntry<T> {
+    value: T;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+type CacheTable<T> = Record<string, CacheEntry<T>>;
+
+interface CacheLimits {
+    ttlMs: number;
+    maxEntries: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Label reads don't go stale; interaction advice is cheap to refresh
+const LIMITS: Record<CacheNamespace, CacheLimits> = {
+    'medicine-image': { ttlMs: 30 * DAY_MS, maxEntries: 50 },
+    'interactions': { ttlMs: 7 * DAY_MS, maxEntries: 100 },
+};
+
+const storageKey = (namespace: CacheNamespace) => `analysis_cache_${namespace}`;
+
+// Prefix for every key: a new prompt (new fields) or response format makes old entries miss
+const keyVersion = () => `v${RESPONSE_SCHEMA_VERSION}.${PROMPT_VERSION}`;
+
+async function readTable<T>(namespace: CacheNamespace): Promise<CacheTable<T>> {
+    const json = await AsyncStorage.getItem(storageKey(namespace));
+    return json ? JSON.parse(json) : {};
+}
+
+async function writeTable<T>(namespace: CacheNamespace, table: CacheTable<T>): Promise<void> {
+    await AsyncStorage.setItem(storageKey(namespace), JSON.stringify(table));
+}
+
+/**
+ * Cache key for a photo: SHA-256 of the exact image bytes (base64), so only
+ * the identical file hits (the same photo picked again from history or the
+ * queue). A new photo of the same box is analyzed again; medicationMatching
+ * then recognises it as a medicine already saved. Not a perceptual hash on
+ * purpose: look-alike boxes, such as another strength of the same brand,
+ * must never share a reading.
+ */
+export async function imageCacheKey(base64Image: string): Promise<string> {
+    const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64Image);
+    return `${keyVersion()}-${digest}`;
+}
+
+/**
+ * Cache key for an interaction check: the sorted, de-duplicated set of
+ * canonical ingredients plus the medicine names, so the same medicines in any
+ * order, from different scans or with synonymous ingredients share one report.
+ * Names count because the report's pairs refer to medicines by name.
+ */
+export async function interactionCacheKey(medicines: { medicineName: string; activeIngredients: string }[]): Promise<string> {
+    const ingredients = new Set(medicines.flatMap(getMedicineIngredients));
+    const names = new Set(medicines.map(medicine => medicine.medicineName.trim().toLowerCase()));
+
+    const digest = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        `${[...ingredients].sort().join('|')}#${[...names].sort().join('|')}`,
+    );
+    return `${keyVersion()}-${digest}`;
+}
+
+/**
+ * Look up a cached result. Expired entries count as a miss.
+ */
+export async function getCachedAnalysis<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+    try {
+        const table = await readTable<T>(namespace);
+        const entry = table[key];
+        if (!entry) return null;
+
+        if (Date.now() - entry.createdAt > LIMITS[namespace].ttlMs) {
+            delete table[key];
+            await writeTable(namespace, table);
+            return null;
+        }
+
+        table[key] = { ...entry, lastUsedAt: Date.now() };
+        await writeTable(namespace, table);
+        return entry.value;
+    } catch (error) {
+        console.error('Failed to read analysis cache:', error);
+        return null;
+    }
+}
+
+/**
+ * Store a result, dropping expired entries and then the least recently used
+ * ones once the namespace is over its size limit.
+ */
+export async function setCachedAnalysis<T>(namespace: CacheNamespace, key: string, value: T): Promise<void> {
+    try {
+        const { ttlMs, maxEntries } = LIMITS[namespace];
+        const now = Date.now();
+        const table = await readTable<T>(namespace);
+        table[key] = { value, createdAt: now, lastUsedAt: now };
+
+        const kept = Object.entries(table)
+            .filter(([, entry]) => now - entry.createdAt <= ttlMs)
+            .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+            .slice(0, maxEntries);
+
+        await writeTable(namespace, Object.fromEntries(kept));
+    } catch (error) {
+        console.error('Failed to write analysis cache:', error);
+    }
+}
+
+/**
+ * Clear one namespace, or every cached analysis
+ */
+export async function clearAnalysisCache(namespace?: CacheNamespace): Promise<void> {
+    const namespaces = namespace ? [namespace] : (Object.keys(LIMITS) as CacheNamespace[]);
+    await AsyncStorage.multiRemove(namespaces.map(storageKey));
+}
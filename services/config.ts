@@ -0,0 +1,124 @@
+import * as SecureStore from 'expo-secure-store';
+
+export type AIProfile = 'production' | 'development' | 'test';
+export type AIProviderId = 'gemini' | 'fixture';
+export type APIKeySource = 'env' | 'secure-store' | 'mock' | 'none';
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface AIConfig {
+    profile: AIProfile;
+    provider: AIProviderId;
+    model: string;
+    apiKey?: string;
+    apiKeySource: APIKeySource;
+    baseUrl?: string; // Set in development/test to reach the local mock server
+    fixtureMode: FixtureMode; // Record real responses to, or replay them from, the fixture directory
+}
+
+const API_KEY_STORE_KEY = 'gemini_api_key';
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_MOCK_URL = 'http://localhost:8787';
+
+/**
+ * Thrown when an AI call is made without a usable key or provider
+ */
+export class AIUnavailableError extends Error {
+    constructor(message: string = 'AI features are unavailable. Add a Gemini API key in AI Settings.') {
+        super(message);
+        this.name = 'AIUnavailableError';
+    }
+}
+
+let cachedConfig: AIConfig | null = null;
+const listeners = new Set<(config: AIConfig) => void>();
+
+function readFixtureMode(): FixtureMode {
+    const value = process.env.EXPO_PUBLIC_AI_FIXTURES;
+    return value === 'record' || value === 'replay' ? value : 'off';
+}
+
+function readProfile(): AIProfile {
+    const value = process.env.EXPO_PUBLIC_AI_PROFILE;
+    return value === 'development' || value === 'test' ? value : 'production';
+}
+
+/**
+ * Resolve the AI configuration.
+ * Key precedence: env (EXPO_PUBLIC_GEMINI_API_KEY) > user key in secure storage.
+ * Development/test profiles talk to EXPO_PUBLIC_AI_MOCK_URL and need no key.
+ */
+export async function loadAIConfig(): Promise<AIConfig> {
+    const profile = readProfile();
+    const provider: AIProviderId = process.env.EXPO_PUBLIC_AI_PROVIDER === 'fixture' ? 'fixture' : 'gemini';
+    const model = process.env.EXPO_PUBLIC_GEMINI_MODEL || DEFAULT_MODEL;
+
+    let apiKey: string | undefined = process.env.EXPO_PUBLIC_GEMINI_API_KEY || undefined;
+    let apiKeySource: APIKeySource = apiKey ? 'env' : 'none';
+
+    if (!apiKey) {
+        try {
+            const stored = await SecureStore.getItemAsync(API_KEY_STORE_KEY);
+            if (stored) {
+                apiKey = stored;
+                apiKeySource = 'secure-store';
+            }
+        } catch (error) {
+            console.error('Failed to read API key from secure storage:', error);
+        }
+    }
+
+    let baseUrl: string | undefined;
+    if (profile !== 'production') {
+        baseUrl = process.env.EXPO_PUBLIC_AI_MOCK_URL || DEFAULT_MOCK_URL;
+        if (!apiKey) {
+            // The mock server ignores the key, but the SDK refuses to send an empty one
+            apiKey = 'mock-key';
+            apiKeySource = 'mock';
+        }
+    }
+
+    const config: AIConfig = { profile, provider, model, apiKey, apiKeySource, baseUrl, fixtureMode: readFixtureMode() };
+    cachedConfig = config;
+    listeners.forEach(listener => listener(config));
+    return config;
+}
+
+/**
+ * Get the resolved configuration, loading it on first use
+ */
+export async function getAIConfig(): Promise<AIConfig> {
+    return cachedConfig ?? loadAIConfig();
+}
+
+/**
+ * Whether AI calls can be made with this configuration
+ */
+export function isAIAvailable(config: AIConfig): boolean {
+    return config.provider === 'fixture' || config.fixtureMode === 'replay' || !!config.apiKey;
+}
+
+/**
+ * Store a user-entered API key in secure storage and re-resolve the config
+ */
+export async function saveUserApiKey(apiKey: string): Promise<AIConfig> {
+    await SecureStore.setItemAsync(API_KEY_STORE_KEY, apiKey.trim());
+    return loadAIConfig();
+}
+
+/**
+ * Remove the user-entered API key and re-resolve the config
+ */
+export async function clearUserApiKey(): Promise<AIConfig> {
+    await SecureStore.deleteItemAsync(API_KEY_STORE_KEY);
+    return loadAIConfig();
+}
+
+/**
+ * Be notified whenever the configuration is (re)loaded
+ */
+export function subscribeToAIConfig(listener: (config: AIConfig) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,174 @@
+// Offline rules for checking medicines against the Medical ID (see
+// contraindications.ts). Terms are canonical ingredients from
+// drugDictionary.ts, or "class:<id>" for a whole DRUG_CLASSES class.
+
+import type { DrugInteraction } from './gemini';
+
+// Allergy names that are neither a generic nor a class label -> what they cover
+export const ALLERGY_ALIASES: Record<string, string[]> = {
+    'sulfa': ['co-trimoxazole'],
+    'sulfa drugs': ['co-trimoxazole'],
+    'sulpha': ['co-trimoxazole'],
+    'sulfonamide': ['co-trimoxazole'],
+    'sulfonamides': ['co-trimoxazole'],
+    'anti inflammatory': ['class:nsaid'],
+    'anti inflammatories': ['class:nsaid'],
+    'quinolone': ['class:fluoroquinolone'],
+    'quinolones': ['class:fluoroquinolone'],
+};
+
+// An allergy to anything in "from" that warns about medicines in "to"
+export interface CrossReaction {
+    from: string;
+    to: string;
+    severity: DrugInteraction['severity'];
+    note: string;
+}
+
+export const CROSS_REACTIONS: CrossReaction[] = [
+    {
+        from: 'class:penicillin',
+        to: 'class:penicillin',
+        severity: 'high',
+        note: 'An allergy to one penicillin usually means an allergy to all of them.',
+    },
+    {
+        from: 'class:cephalosporin',
+        to: 'class:cephalosporin',
+        severity: 'high',
+        note: 'An allergy to one cephalosporin usually means an allergy to the others.',
+    },
+    {
+        from: 'class:fluoroquinolone',
+        to: 'class:fluoroquinolone',
+        severity: 'high',
+        note: 'An allergy to one quinolone antibiotic usually means an allergy to the others.',
+    },
+    {
+        from: 'class:macrolide',
+        to: 'class:macrolide',
+        severity: 'medium',
+        note: 'Some people allergic to one macrolide antibiotic react to the others.',
+    },
+    {
+        from: 'class:penicillin',
+        to: 'class:cephalosporin',
+        severity: 'medium',
+        note: 'A small number of people allergic to penicillins also react to cephalosporins.',
+    },
+    {
+        from: 'class:cephalosporin',
+        to: 'class:penicillin',
+        severity: 'medium',
+        note: 'A small number of people allergic to cephalosporins also react to penicillins.',
+    },
+    {
+        from: 'class:nsaid',
+        to: 'class:nsaid',
+        severity: 'medium',
+        note: 'Many people who react to one NSAID, including aspirin, react to the others too.',
+    },
+];
+
+export interface ConditionCaution {
+    terms: string[];
+    severity: DrugInteraction['severity'];
+    reason: string;
+}
+
+export interface ConditionRule {
+    keywords: string[];  // Word starts in the cleaned condition: "pregnan" matches "pregnancy", "liver" not "delivery"
+    cautions: ConditionCaution[];
+}
+
+export const CONDITION_RULES: ConditionRule[] = [
+    {
+        keywords: ['kidney', 'renal', 'ckd', 'dialysis'],
+        cautions: [
+            { terms: ['class:nsaid'], severity: 'high', reason: 'NSAIDs reduce blood flow to the kidneys and can worsen kidney disease.' },
+            { terms: ['metformin'], severity: 'medium', reason: 'Metformin can build up when the kidneys are weak. The dose may need to change.' },
+            { terms: ['spironolactone'], severity: 'medium', reason: 'Weak kidneys and spironolactone together can raise potassium too far.' },
+        ],
+    },
+    {
+        keywords: ['ulcer', 'stomach bleed', 'gastrointestinal bleed', 'gi bleed'],
+        cautions: [
+            { terms: ['class:nsaid'], severity: 'high', reason: 'NSAIDs and aspirin can make ulcers bleed.' },
+            { terms: ['class:corticosteroid', 'warfarin', 'clopidogrel'], severity: 'medium', reason: 'This medicine raises the risk of an ulcer bleeding.' },
+        ],
+    },
+    {
+        keywords: ['heart failure', 'chf'],
+        cautions: [
+            { terms: ['class:nsaid'], severity: 'high', reason: 'NSAIDs make the body hold water and can worsen heart failure.' },
+            { terms: ['diltiazem', 'verapamil'], severity: 'high', reason: 'This can weaken the heart\'s pumping in heart failure.' },
+            { terms: ['class:decongestant'], severity: 'medium', reason: 'Decongestants strain the heart.' },
+        ],
+    },
+    {
+        keywords: ['hypertension', 'high blood', 'highblood'],
+        cautions: [
+            { terms: ['class:decongestant'], severity: 'medium', reason: 'Decongestants raise blood pressure.' },
+            { terms: ['class:nsaid'], severity: 'low', reason: 'Regular use of NSAIDs can raise blood pressure.' },
+        ],
+    },
+    {
+        keywords: ['asthma', 'copd'],
+        cautions: [
+            { terms: ['propranolol', 'carvedilol'], severity: 'high', reason: 'This beta blocker can tighten the airways and trigger an attack.' },
+            { terms: ['class:nsaid'], severity: 'medium', reason: 'Aspirin and other NSAIDs trigger attacks in some people with asthma.' },
+        ],
+    },
+    {
+        keywords: ['liver', 'hepatitis', 'cirrhosis'],
+        cautions: [
+            { terms: ['paracetamol'], severity: 'medium', reason: 'Paracetamol is processed by the liver. Keep to the lowest dose and ask your doctor for a daily limit.' },
+            { terms: ['class:statin'], severity: 'medium', reason: 'Statins can strain the liver. Your doctor may want liver tests.' },
+        ],
+    },
+    {
+        keywords: ['diabetes', 'diabetic'],
+        cautions: [
+            { terms: ['class:corticosteroid'], severity: 'medium', reason: 'Steroids raise blood sugar.' },
+        ],
+    },
+    {
+        keywords: ['pregnan'],
+        cautions: [
+            { terms: ['class:ace-inhibitor', 'class:arb', 'class:statin', 'warfarin', 'doxycycline'], severity: 'high', reason: 'This medicine can harm an unborn baby.' },
+            { terms: ['class:nsaid', 'class:fluoroquinolone'], severity: 'medium', reason: 'This medicine is usually avoided in pregnancy. Ask your doctor.' },
+        ],
+    },
+    {
+        keywords: ['g6pd'],
+        cautions: [
+            { terms: ['co-trimoxazole'], severity: 'high', reason: 'Sulfa antibiotics can break down red blood cells in G6PD deficiency.' },
+            { terms: ['class:fluoroquinolone', 'aspirin'], severity: 'medium', reason: 'This medicine can break down red blood cells in some people with G6PD deficiency.' },
+        ],
+    },
+    {
+        keywords: ['prostate', 'bph', 'glaucoma'],
+        cautions: [
+            { terms: ['chlorphenamine', 'diphenhydramine', 'hydroxyzine', 'class:decongestant'], severity: 'medium', reason: 'This can make it hard to pass urine or raise eye pressure.' },
+        ],
+    },
+    {
+        keywords: ['bleeding disorder', 'hemophilia', 'haemophilia', 'low platelet'],
+        cautions: [
+            { terms: ['class:nsaid', 'class:blood-thinner'], severity: 'high', reason: 'This medicine makes bleeding more likely.' },
+        ],
+    },
+    {
+        keywords: ['epilep', 'seizure'],
+        cautions: [
+            { terms: ['tramadol'], severity: 'high', reason: 'Tramadol can cause seizures.' },
+            { terms: ['class:fluoroquinolone'], severity: 'medium', reason: 'Quinolone antibiotics can make seizures more likely.' },
+        ],
+    },
+    {
+        keywords: ['gout'],
+        cautions: [
+            { terms: ['hydrochlorothiazide', 'furosemide', 'indapamide'], severity: 'low', reason: 'Water pills raise uric acid and can trigger gout attacks.' },
+        ],
+    },
+];
@@ -0,0 +1,127 @@
+import { ALLERGY_ALIASES, CONDITION_RULES, CROSS_REACTIONS } from './contraindicationRules';
+import { DRUG_CLASSES } from './drugDictionary';
+import type { DrugInteraction, MedicineAnalysis } from './gemini';
+import { getDrugClasses, getMedicineIngredients, getMedicineTerms, parseIngredients } from './ingredients';
+import { getMedicalInfo, MedicalInfo } from './medicalId';
+
+// A medicine that clashes with the user's Medical ID
+export interface Contraindication {
+    kind: 'allergy' | 'condition';
+    medicineName: string;
+    trigger: string;                        // The allergy or condition as the user recorded it
+    severity: DrugInteraction['severity'];
+    reason: string;                         // Why, naming the medicine and what in it matters
+}
+
+const SEVERITY_RANK: Record<DrugInteraction['severity'], number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Lowercase words, anything else as single spaces
+ */
+function cleanText(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// A class by id or label, singular or plural ("penicillin", "beta blockers") -> "class:<id>"
+const CLASS_INDEX = new Map<string, string>();
+for (const [id, { label }] of Object.entries(DRUG_CLASSES)) {
+    for (const name of [cleanText(id), cleanText(label)]) {
+        const singular = name.replace(/s$/, '');
+        for (const form of [name, singular, `${singular}s`]) CLASS_INDEX.set(form, `class:${id}`);
+    }
+}
+
+/**
+ * What an allergy covers: a group ("sulfa", "NSAIDs"), or the ingredients of
+ * a generic or brand ("Amoxicillin", "Alaxan")
+ */
+function getAllergyTerms(allergy: string): string[] {
+    const name = cleanText(allergy);
+    const group = ALLERGY_ALIASES[name] ?? (CLASS_INDEX.has(name) ? [CLASS_INDEX.get(name)!] : []);
+    return [...group, ...parseIngredients(allergy)];
+}
+
+/**
+ * "Amoxil contains amoxicillin", or for a class term "Amoxil contains
+ * amoxicillin, one of the penicillin antibiotics"
+ */
+function describeTerm(term: string, medicine: MedicineAnalysis): string {
+    if (!term.startsWith('class:')) return `${medicine.medicineName} contains ${term}`;
+    const drugClass = term.slice('class:'.length);
+    const ingredient = getMedicineIngredients(medicine).find(name => getDrugClasses(name).includes(drugClass));
+    return `${medicine.medicineName} contains ${ingredient}, one of the ${DRUG_CLASSES[drugClass].label}`;
+}
+
+/**
+ * Medicines that clash with recorded allergies (the ingredient itself, its
+ * class, or a related class that can cross-react) or chronic conditions,
+ * worst first. Works offline.
+ */
+export function findContraindications(
+    medicines: MedicineAnalysis[],
+    { allergies, conditions }: Pick<MedicalInfo, 'allergies' | 'conditions'>,
+): Contraindication[] {
+    const found: Contraindication[] = [];
+
+    for (const medicine of medicines) {
+        const terms = getMedicineTerms(medicine);
+
+        for (const allergy of allergies) {
+            const allergyTerms = getAllergyTerms(allergy);
+            const direct = allergyTerms.find(term => terms.has(term));
+            if (direct) {
+                found.push({
+                    kind: 'allergy',
+                    medicineName: medicine.medicineName,
+                    trigger: allergy,
+                    severity: 'high',
+                    reason: `${describeTerm(direct, medicine)}, and you are allergic to ${allergy}.`,
+                });
+                continue;
+            }
+
+            // The allergy's own classes count for cross-reactions: amoxicillin -> other penicillins
+            const related = new Set([
+                ...allergyTerms,
+                ...allergyTerms.flatMap(getDrugClasses).map(drugClass => `class:${drugClass}`),
+            ]);
+            const cross = CROSS_REACTIONS.find(rule => related.has(rule.from) && terms.has(rule.to));
+            if (cross) {
+                found.push({
+                    kind: 'allergy',
+                    medicineName: medicine.medicineName,
+                    trigger: allergy,
+                    severity: cross.severity,
+                    reason: `${describeTerm(cross.to, medicine)}. You are allergic to ${allergy}. ${cross.note}`,
+                });
+            }
+        }
+
+        for (const condition of conditions) {
+            const name = cleanText(condition);
+            for (const rule of CONDITION_RULES) {
+                // Cleaned text is only letters, digits and spaces, so keywords need no escaping
+                if (!new RegExp(`\\b(${rule.keywords.join('|')})`).test(name)) continue;
+                for (const caution of rule.cautions) {
+                    const term = caution.terms.find(candidate => terms.has(candidate));
+                    if (!term) continue;
+                    found.push({
+                        kind: 'condition',
+                        medicineName: medicine.medicineName,
+                        trigger: condition,
+                        severity: caution.severity,
+                        reason: `${describeTerm(term, medicine)}. ${caution.reason}`,
+                    });
+                }
+            }
+        }
+    }
+    return found.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+/**
+ * findContraindications against the saved Medical ID
+ */
+export async function checkAgainstMedicalId(medicines: MedicineAnalysis[]): Promise<Contraindication[]> {
+    return findContraindications(medicines, await getMedicalInfo());
+}
@@ -0,0 +1,261 @@
+import * as SQLite from 'expo-sqlite';
+
+const DATABASE_NAME = 'medimate.db';
+
+/**
+ * Schema migrations, applied in order. PRAGMA user_version records how many
+ * have run, so each one executes exactly once per install. Never edit a
+ * shipped migration; append a new one.
+ */
+const MIGRATIONS: string[] = [
+    // 1: initial schema
+    `
+    CREATE TABLE medications (
+        id TEXT PRIMARY KEY NOT NULL,
+        scan_date INTEGER NOT NULL,
+        image_uri TEXT NOT NULL,
+        analysis TEXT NOT NULL,
+        medicine_name TEXT NOT NULL,
+        active_ingredients TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'active',
+        start_date INTEGER NOT NULL,
+        end_date INTEGER,
+        refill_date INTEGER,
+        notes TEXT,
+        last_taken INTEGER
+    );
+    CREATE INDEX idx_medications_status ON medications (status);
+    CREATE INDEX idx_medications_ingredients ON medications (active_ingredients);
+
+    CREATE TABLE scans (
+        id TEXT PRIMARY KEY NOT NULL,
+        timestamp INTEGER NOT NULL,
+        image_uri TEXT NOT NULL,
+        analysis TEXT NOT NULL,
+        interaction_report TEXT,
+        model TEXT,
+        prompt_version INTEGER,
+        schema_version INTEGER,
+        duration_ms INTEGER,
+        search_text TEXT NOT NULL DEFAULT '',
+        risk_level TEXT NOT NULL DEFAULT 'none'
+    );
+    CREATE INDEX idx_scans_timestamp ON scans (timestamp DESC);
+    CREATE INDEX idx_scans_risk ON scans (risk_level, timestamp DESC);
+
+    CREATE TABLE schedules (
+        id TEXT PRIMARY KEY NOT NULL,
+        medication_id TEXT NOT NULL REFERENCES medications (id) ON DELETE CASCADE,
+        time TEXT NOT NULL
+    );
+    CREATE INDEX idx_schedules_medication ON schedules (medication_id);
+
+    CREATE TABLE dose_events (
+        id TEXT PRIMARY KEY NOT NULL,
+        medication_id TEXT NOT NULL REFERENCES medications (id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        scheduled_for INTEGER,
+        recorded_at INTEGER NOT NULL
+    );
+    CREATE INDEX idx_dose_events_medication ON dose_events (medication_id, recorded_at DESC);
+    CREATE INDEX idx_dose_events_recorded ON dose_events (recorded_at DESC);
+
+    CREATE TABLE meta (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT
+    );
+    `,
+
+    // 2: dose log. Events are append-only; undo sets voided_at instead of deleting.
+    // medications.last_taken is superseded by the log and seeded into it here.
+    `
+    ALTER TABLE dose_events ADD COLUMN taken_at INTEGER;
+    ALTER TABLE dose_events ADD COLUMN note TEXT;
+    ALTER TABLE dose_events ADD COLUMN voided_at INTEGER;
+    UPDATE dose_events SET taken_at = recorded_at WHERE status = 'taken';
+    INSERT INTO dose_events (id, medication_id, status, recorded_at, taken_at)
+        SELECT id || '-last-taken', id, 'taken', last_taken, last_taken FROM medications m
+        WHERE last_taken IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM dose_events d WHERE d.medication_id = m.id);
+    CREATE INDEX idx_dose_events_scheduled ON dose_events (medication_id, scheduled_for);
+    `,
+
+    // 3: structured regimens. NULL regimen means "not parsed yet" (see medicationStorage);
+    // course_end mirrors regimen.courseDays so schedule queries can filter on it.
+    `
+    ALTER TABLE medications ADD COLUMN regimen TEXT;
+    ALTER TABLE medications ADD COLUMN course_end INTEGER;
+    `,
+
+    // 4: repeating reminders. One row per scheduled notification, so they can be
+    // cancelled and reconciled; weekday is NULL for daily reminders. No foreign key:
+    // a row has to outlive its medication until the notification is cancelled.
+    `
+    ALTER TABLE medications ADD COLUMN reminder_tone TEXT;
+    CREATE TABLE reminders (
+        notification_id TEXT PRIMARY KEY NOT NULL,
+        medication_id TEXT NOT NULL,
+        time TEXT NOT NULL,
+        weekday INTEGER,
+        tone TEXT NOT NULL
+    );
+    CREATE INDEX idx_reminders_medication ON reminders (medication_id);
+    `,
+
+    // 5: missed-dose escalations. One row per one-off notification still to fire or
+    // to act on (see escalation.ts); no foreign key, for the same reason as reminders.
+    `
+    CREATE TABLE escalations (
+        notification_id TEXT PRIMARY KEY NOT NULL,
+        medication_id TEXT NOT NULL,
+        scheduled_for INTEGER NOT NULL,
+        stage TEXT NOT NULL,
+        fire_at INTEGER NOT NULL
+    );
+    CREATE INDEX idx_escalations_fire_at ON escalations (fire_at);
+    `,
+
+    // 6: pill inventory. NULL quantity_on_hand means stock is not tracked; the dose log
+    // decrements it. refill_date now holds the projected run-out day (see inventory.ts).
+    `
+    ALTER TABLE medications ADD COLUMN quantity_on_hand REAL;
+    ALTER TABLE medications ADD COLUMN units_per_dose REAL;
+    ALTER TABLE medications ADD COLUMN pack_size REAL;
+    ALTER TABLE medications ADD COLUMN refill_lead_days INTEGER;
+    ALTER TABLE medications ADD COLUMN refill_notification_id TEXT;
+    `,
+
+    // 7: user corrections. ai_analysis keeps the analysis as the scan read it while
+    // analysis takes the user's edits; medication_edits is the audit trail of each change.
+    `
+    ALTER TABLE medications ADD COLUMN ai_analysis TEXT;
+    UPDATE medications SET ai_analysis = analysis;
+    CREATE TABLE medication_edits (
+        id TEXT PRIMARY KEY NOT NULL,
+        medication_id TEXT NOT NULL REFERENCES medications (id) ON DELETE CASCADE,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        edited_at INTEGER NOT NULL
+    );
+    CREATE INDEX idx_medication_edits_medication ON medication_edits (medication_id, edited_at DESC);
+    `,
+
+    // 8: reminders of a course with an end are one-off notifications for the days ahead
+    // (see reminders.ts); fire_at is when one fires, NULL for repeating reminders.
+    `
+    ALTER TABLE reminders ADD COLUMN fire_at INTEGER;
+    `,
+];
+
+// How long a statement waits for another connection's write to finish
+const BUSY_TIMEOUT_MS = 10000;
+
+interface Connections {
+    db: SQLite.SQLiteDatabase;      // Shared by reads and single-statement writes
+    writer: SQLite.SQLiteDatabase;  // Only ever used by withTransaction, one transaction at a time
+}
+
+let connections: Promise<Connections> | null = null;
+
+// The tail of the transaction queue; settles when the last queued transaction has
+let lastTransaction: Promise<unknown> = Promise.resolve();
+
+/**
+ * Unique row id. Date.now() alone collides when several medicines from one
+ * photo are saved in the same millisecond.
+ */
+export function createId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * BEGIN IMMEDIATE takes the write lock up front, so a transaction never
+ * reads a snapshot that another connection's write has already made stale
+ */
+async function runTransaction<T>(writer: SQLite.SQLiteDatabase, task: (txn: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+    await writer.execAsync('BEGIN IMMEDIATE');
+    try {
+        const result = await task(writer);
+        await writer.execAsync('COMMIT');
+        return result;
+    } catch (error) {
+        await writer.execAsync('ROLLBACK');
+        throw error;
+    }
+}
+
+async function applyMigrations(writer: SQLite.SQLiteDatabase): Promise<void> {
+    const row = await writer.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    let version = row?.user_version ?? 0;
+
+    while (version < MIGRATIONS.length) {
+        const migration = MIGRATIONS[version];
+        version++;
+        await runTransaction(writer, async txn => {
+            await txn.execAsync(migration);
+            await txn.execAsync(`PRAGMA user_version = ${version}`);
+        });
+    }
+}
+
+async function openConnection(useNewConnection: boolean): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME, { useNewConnection });
+    await db.execAsync(`PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON; PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS};`);
+    return db;
+}
+
+async function openConnections(): Promise<Connections> {
+    const db = await openConnection(false);
+    const writer = await openConnection(true);
+    await applyMigrations(writer);
+    return { db, writer };
+}
+
+function getConnections(): Promise<Connections> {
+    if (!connections) {
+        connections = openConnections().catch(error => {
+            // Let the next call try again instead of caching the failure
+            connections = null;
+            throw error;
+        });
+    }
+    return connections;
+}
+
+/**
+ * Shared database connection, opened and migrated on first use. Use
+ * withTransaction, not withTransactionAsync, for anything that must apply as
+ * a whole: BEGIN on this connection would take in whatever other flows run
+ * on it meanwhile, and fails outright if one of them is already in a transaction.
+ */
+export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    return (await getConnections()).db;
+}
+
+/**
+ * Run `task` as one transaction on a connection of its own, queued behind
+ * any transaction already running, and return what it returns. Every
+ * statement of the task must go through `txn`, and the task must not start
+ * another transaction.
+ */
+export function withTransaction<T>(task: (txn: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+    const run = lastTransaction.then(async () => runTransaction((await getConnections()).writer, task));
+    lastTransaction = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Run a one-off data task (e.g. importing legacy AsyncStorage data) inside a
+ * transaction, recording `key` in the meta table so it never runs again.
+ * Returns false if it had already run.
+ */
+export async function runOnce(key: string, task: (txn: SQLite.SQLiteDatabase) => Promise<void>): Promise<boolean> {
+    return withTransaction(async txn => {
+        const done = await txn.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', key);
+        if (done) return false;
+        await task(txn);
+        await txn.runAsync('INSERT INTO meta (key, value) VALUES (?, ?)', key, new Date().toISOString());
+        return true;
+    });
+}
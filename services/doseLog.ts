@@ -0,0 +1,328 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createId, getDatabase, withTransaction } from './database';
+import { isDoseDay, Regimen } from './regimen';
+
+// realerted / escalated record missed-dose escalations (see escalation.ts), not the dose itself
+export type DoseStatus = 'taken' | 'skipped' | 'missed' | 'late' | 'realerted' | 'escalated';
+
+export interface DoseEvent {
+    id: string;
+    medicationId: string;
+    status: DoseStatus;
+    scheduledFor?: Date;  // The slot this dose belongs to; unset for as-needed doses
+    takenAt?: Date;       // When it was actually taken (taken/late only)
+    recordedAt: Date;     // When the event was logged
+    note?: string;
+    voidedAt?: Date;      // Set by undoDose; voided events are ignored everywhere
+}
+
+export interface DoseEventQuery {
+    medicationId?: string;
+    from?: Date;          // On scheduledFor (or recordedAt when unscheduled)
+    to?: Date;
+    includeVoided?: boolean;
+    limit?: number;
+}
+
+export interface AdherenceSummary {
+    taken: number;
+    late: number;
+    skipped: number;
+    missed: number;
+    total: number;
+    rate: number | null;  // (taken + late) / total; null with nothing to measure
+}
+
+interface DoseEventRow {
+    id: string;
+    medication_id: string;
+    status: DoseStatus;
+    scheduled_for: number | null;
+    taken_at: number | null;
+    recorded_at: number;
+    note: string | null;
+    voided_at: number | null;
+}
+
+// Taken more than this after the slot counts as late
+export const LATE_AFTER_MS = 60 * 60 * 1000;
+// An unlogged slot becomes missed this long after its time
+export const MISSED_AFTER_MS = 3 * 60 * 60 * 1000;
+// How far back each missed-dose sweep looks; after a longer break the older slots stay unrecorded
+const SWEEP_LOOKBACK_DAYS = 7;
+// Meta key holding when the sweep first ran. Slots before it were never tracked, so they aren't missed.
+const SWEEP_STARTED_KEY = 'missed_dose_sweep_started';
+
+const listeners = new Set<(medicationId: string) => void>();
+
+const toDate = (value: number | null) => value !== null ? new Date(value) : undefined;
+
+function fromRow(row: DoseEventRow): DoseEvent {
+    return {
+        id: row.id,
+        medicationId: row.medication_id,
+        status: row.status,
+        scheduledFor: toDate(row.scheduled_for),
+        takenAt: toDate(row.taken_at),
+        recordedAt: new Date(row.recorded_at),
+        note: row.note ?? undefined,
+        voidedAt: toDate(row.voided_at),
+    };
+}
+
+/**
+ * Whether the status says what happened to the dose, as opposed to an
+ * escalation logged against its slot
+ */
+export function isDoseOutcome(status: DoseStatus): boolean {
+    return status === 'taken' || status === 'late' || status === 'skipped' || status === 'missed';
+}
+
+/**
+ * Add or remove one dose's worth of units from a medication's stock
+ */
+async function adjustStock(db: SQLiteDatabase, medicationId: string, doses: number): Promise<void> {
+    await db.runAsync(
+        'UPDATE medications SET quantity_on_hand = MAX(quantity_on_hand + ? * units_per_dose, 0) WHERE id = ? AND quantity_on_hand IS NOT NULL',
+        doses, medicationId,
+    );
+}
+
+/**
+ * Slot timestamp for an "HH:MM" schedule time on the given day
+ */
+export function slotTime(day: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const slot = new Date(day);
+    slot.setHours(hours, minutes, 0, 0);
+    return slot;
+}
+
+/**
+ * Append a dose event. A "taken" dose logged more than LATE_AFTER_MS after
+ * its slot is stored as "late", and replaces a "missed" already logged for it.
+ * A taken dose also comes off the medication's stock, when that is tracked.
+ * A slot already logged as taken (or late), or skipped, is not logged the same
+ * way twice: the earlier event is returned instead, e.g. when both the
+ * reminder's Taken button and the app mark the same dose.
+ */
+export async function recordDose(dose: {
+    medicationId: string;
+    status: DoseStatus;
+    scheduledFor?: Date;
+    takenAt?: Date;
+    note?: string;
+}): Promise<DoseEvent> {
+    try {
+        const now = new Date();
+        const isTaken = dose.status === 'taken' || dose.status === 'late';
+        const takenAt = isTaken ? dose.takenAt ?? now : undefined;
+
+        let status = dose.status;
+        if (status === 'taken' && dose.scheduledFor && takenAt &&
+            takenAt.getTime() - dose.scheduledFor.getTime() > LATE_AFTER_MS) {
+            status = 'late';
+        }
+
+        const event: DoseEvent = {
+            id: createId(),
+            medicationId: dose.medicationId,
+            status,
+            scheduledFor: dose.scheduledFor,
+            takenAt,
+            recordedAt: now,
+            note: dose.note,
+        };
+
+        const logged = await withTransaction(async txn => {
+            if (event.scheduledFor && (isTaken || event.status === 'skipped')) {
+                const statuses = isTaken ? ['taken', 'late'] : [event.status];
+                const existing = await txn.getFirstAsync<DoseEventRow>(
+                    `SELECT * FROM dose_events WHERE medication_id = ? AND scheduled_for = ? AND voided_at IS NULL
+                     AND status IN (${statuses.map(() => '?').join(', ')}) ORDER BY recorded_at LIMIT 1`,
+                    event.medicationId, event.scheduledFor.getTime(), ...statuses,
+                );
+                if (existing) return fromRow(existing);
+            }
+            if (event.scheduledFor && isDoseOutcome(event.status)) {
+                // Logging a slot by hand supersedes the sweep's "missed"
+                await txn.runAsync(
+                    "UPDATE dose_events SET voided_at = ? WHERE medication_id = ? AND scheduled_for = ? AND status = 'missed' AND voided_at IS NULL",
+                    now.getTime(), event.medicationId, event.scheduledFor.getTime(),
+                );
+            }
+            await txn.runAsync(
+                `INSERT INTO dose_events (id, medication_id, status, scheduled_for, taken_at, recorded_at, note)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                event.id,
+                event.medicationId,
+                event.status,
+                event.scheduledFor?.getTime() ?? null,
+                event.takenAt?.getTime() ?? null,
+                event.recordedAt.getTime(),
+                event.note ?? null,
+            );
+            if (isTaken) await adjustStock(txn, event.medicationId, -1);
+            return event;
+        });
+        if (logged === event) listeners.forEach(listener => listener(event.medicationId));
+        return logged;
+    } catch (error) {
+        console.error('Error recording dose:', error);
+        throw error;
+    }
+}
+
+/**
+ * Undo an event (e.g. an accidental "taken" tap). The event is kept but voided,
+ * so the slot reads as unlogged again, and a taken dose goes back into stock.
+ */
+export async function undoDose(eventId: string): Promise<void> {
+    try {
+        const medicationId = await withTransaction(async txn => {
+            const row = await txn.getFirstAsync<DoseEventRow>('SELECT * FROM dose_events WHERE id = ? AND voided_at IS NULL', eventId);
+            if (!row) return null;
+            await txn.runAsync('UPDATE dose_events SET voided_at = ? WHERE id = ?', Date.now(), eventId);
+            if (row.status === 'taken' || row.status === 'late') await adjustStock(txn, row.medication_id, 1);
+            return row.medication_id;
+        });
+        if (medicationId) listeners.forEach(listener => listener(medicationId));
+    } catch (error) {
+        console.error('Error undoing dose:', error);
+        throw error;
+    }
+}
+
+/**
+ * Dose events, newest first
+ */
+export async function getDoseEvents(query: DoseEventQuery = {}): Promise<DoseEvent[]> {
+    try {
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.medicationId) {
+            conditions.push('medication_id = ?');
+            params.push(query.medicationId);
+        }
+        if (query.from) {
+            conditions.push('COALESCE(scheduled_for, recorded_at) >= ?');
+            params.push(query.from.getTime());
+        }
+        if (query.to) {
+            conditions.push('COALESCE(scheduled_for, recorded_at) <= ?');
+            params.push(query.to.getTime());
+        }
+        if (!query.includeVoided) {
+            conditions.push('voided_at IS NULL');
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+        const limit = query.limit ? `LIMIT ${Math.floor(query.limit)}` : '';
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<DoseEventRow>(
+            `SELECT * FROM dose_events ${where} ORDER BY COALESCE(scheduled_for, recorded_at) DESC, recorded_at DESC ${limit}`,
+            params,
+        );
+        return rows.map(fromRow);
+    } catch (error) {
+        console.error('Error getting dose events:', error);
+        return [];
+    }
+}
+
+/**
+ * Adherence over a period, from the events in it. Run recordMissedDoses
+ * first so unlogged slots are counted.
+ */
+export async function getAdherence(from: Date, to: Date = new Date(), medicationId?: string): Promise<AdherenceSummary> {
+    const events = await getDoseEvents({ from, to, medicationId });
+    const count = (status: DoseStatus) => events.filter(e => e.status === status).length;
+
+    const summary = { taken: count('taken'), late: count('late'), skipped: count('skipped'), missed: count('missed') };
+    const total = summary.taken + summary.late + summary.skipped + summary.missed;
+    return { ...summary, total, rate: total > 0 ? (summary.taken + summary.late) / total : null };
+}
+
+async function sweepMissedDoses(db: SQLiteDatabase, now: Date): Promise<number> {
+    const lookback = new Date(now);
+    lookback.setDate(lookback.getDate() - SWEEP_LOOKBACK_DAYS);
+    lookback.setHours(0, 0, 0, 0);
+
+    const started = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', SWEEP_STARTED_KEY);
+    if (!started) {
+        await db.runAsync('INSERT INTO meta (key, value) VALUES (?, ?)', SWEEP_STARTED_KEY, now.toISOString());
+    }
+    const trackedFrom = started ? Date.parse(started.value) : now.getTime();
+
+    const slots = await db.getAllAsync<{ medication_id: string; time: string; start_date: number; course_end: number | null; regimen: string | null }>(
+        `SELECT s.medication_id, s.time, m.start_date, m.course_end, m.regimen FROM schedules s
+         JOIN medications m ON m.id = s.medication_id
+         WHERE m.status = 'active'`,
+    );
+    const logged = await db.getAllAsync<{ medication_id: string; scheduled_for: number | null; recorded_at: number }>(
+        `SELECT medication_id, scheduled_for, recorded_at FROM dose_events
+         WHERE COALESCE(scheduled_for, recorded_at) >= ? AND voided_at IS NULL AND status IN ('taken', 'late', 'skipped', 'missed')`,
+        lookback.getTime(),
+    );
+    const loggedKeys = new Set(logged.filter(row => row.scheduled_for !== null).map(row => `${row.medication_id}@${row.scheduled_for}`));
+
+    // Doses logged without a slot (older versions) cover one slot on their day
+    const unscheduled = new Map<string, number>();
+    for (const row of logged.filter(r => r.scheduled_for === null)) {
+        const key = `${row.medication_id}@${new Date(row.recorded_at).toDateString()}`;
+        unscheduled.set(key, (unscheduled.get(key) ?? 0) + 1);
+    }
+
+    const regimens = new Map(slots.map(slot => [slot.medication_id, JSON.parse(slot.regimen ?? '{}') as Regimen]));
+
+    let inserted = 0;
+    for (const day = new Date(lookback); day <= now; day.setDate(day.getDate() + 1)) {
+        for (const slot of slots) {
+            const scheduledFor = slotTime(day, slot.time);
+            if (scheduledFor.getTime() < Math.max(slot.start_date, trackedFrom)) continue;
+            if (slot.course_end !== null && scheduledFor.getTime() >= slot.course_end) continue;
+            if (!isDoseDay(regimens.get(slot.medication_id)!, day)) continue;
+            if (now.getTime() - scheduledFor.getTime() < MISSED_AFTER_MS) continue;
+            if (loggedKeys.has(`${slot.medication_id}@${scheduledFor.getTime()}`)) continue;
+
+            const dayKey = `${slot.medication_id}@${day.toDateString()}`;
+            const uncovered = unscheduled.get(dayKey) ?? 0;
+            if (uncovered > 0) {
+                unscheduled.set(dayKey, uncovered - 1);
+                continue;
+            }
+
+            await db.runAsync(
+                "INSERT INTO dose_events (id, medication_id, status, scheduled_for, recorded_at) VALUES (?, ?, 'missed', ?, ?)",
+                createId(), slot.medication_id, scheduledFor.getTime(), now.getTime(),
+            );
+            inserted++;
+        }
+    }
+    return inserted;
+}
+
+/**
+ * Log a "missed" event for every past slot of an active medication that
+ * nobody logged within MISSED_AFTER_MS, counting from its start date or the
+ * first sweep, whichever is later. Safe to call repeatedly.
+ */
+export async function recordMissedDoses(now: Date = new Date()): Promise<number> {
+    try {
+        return await withTransaction(txn => sweepMissedDoses(txn, now));
+    } catch (error) {
+        console.error('Error recording missed doses:', error);
+        return 0;
+    }
+}
+
+/**
+ * Be notified, with the medication's id, whenever a dose is recorded or undone
+ */
+export function subscribeToDoseLog(listener: (medicationId: string) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
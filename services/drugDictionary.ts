@@ -0,0 +1,369 @@
+// Offline reference for ingredient normalization (see ingredients.ts): generic
+// names as used in the Philippines, their other names, the drug classes they
+// belong to, and what common local brands contain. Lowercase throughout.
+
+export interface DrugClass {
+    label: string;    // Plural, for "Two NSAIDs"
+    overlap: string;  // Why taking two from the class together is a problem
+}
+
+export interface DrugEntry {
+    synonyms?: string[];  // Other generic names and spellings
+    classes?: string[];   // DRUG_CLASSES ids
+    overdose?: string;    // What too much of it does, for doubled-up doses
+}
+
+export const DRUG_CLASSES: Record<string, DrugClass> = {
+    'nsaid': {
+        label: 'NSAIDs',
+        overlap: 'Both are anti-inflammatory pain relievers that work the same way. Together they do not relieve pain better, but they raise the risk of stomach bleeding, ulcers and kidney damage.',
+    },
+    'blood-thinner': {
+        label: 'blood thinners',
+        overlap: 'Both slow blood clotting. Together they raise the risk of serious bleeding, including in the stomach and brain.',
+    },
+    'ace-inhibitor': {
+        label: 'ACE inhibitors',
+        overlap: 'Both lower blood pressure the same way. Together they can drop blood pressure too far and raise potassium to dangerous levels.',
+    },
+    'arb': {
+        label: 'ARBs',
+        overlap: 'Both lower blood pressure by blocking the same hormone. Together they can drop blood pressure too far and strain the kidneys.',
+    },
+    'beta-blocker': {
+        label: 'beta blockers',
+        overlap: 'Both slow the heart and lower blood pressure the same way. Together they can make the heartbeat dangerously slow.',
+    },
+    'calcium-channel-blocker': {
+        label: 'calcium channel blockers',
+        overlap: 'Both relax blood vessels the same way. Together they can cause low blood pressure, dizziness and swollen ankles.',
+    },
+    'diuretic': {
+        label: 'water pills',
+        overlap: 'Both make the body lose water and salts. Together they can cause dehydration and low potassium or sodium.',
+    },
+    'statin': {
+        label: 'statins',
+        overlap: 'Both lower cholesterol the same way. Doubling up raises the risk of muscle pain and muscle damage without more benefit.',
+    },
+    'sulfonylurea': {
+        label: 'sulfonylureas',
+        overlap: 'Both make the pancreas release more insulin. Together they can cause dangerously low blood sugar.',
+    },
+    'dpp4-inhibitor': {
+        label: 'DPP-4 inhibitors',
+        overlap: 'Both lower blood sugar the same way; a second one adds side effects, not control.',
+    },
+    'ppi': {
+        label: 'acid reducers (PPIs)',
+        overlap: 'Both block stomach acid the same way. One is enough; two add side effects without more relief.',
+    },
+    'h2-blocker': {
+        label: 'acid reducers (H2 blockers)',
+        overlap: 'Both reduce stomach acid the same way. One is enough; two add side effects without more relief.',
+    },
+    'antihistamine': {
+        label: 'antihistamines',
+        overlap: 'Both block histamine for allergy or cold symptoms. Together they add up drowsiness, dry mouth and confusion, especially in older adults.',
+    },
+    'decongestant': {
+        label: 'decongestants',
+        overlap: 'Both narrow blood vessels to clear the nose. Together they can raise blood pressure and heart rate.',
+    },
+    'mucolytic': {
+        label: 'mucolytics',
+        overlap: 'Both loosen phlegm. One is enough; two only add stomach upset.',
+    },
+    'cough-suppressant': {
+        label: 'cough suppressants',
+        overlap: 'Both calm the cough reflex. Together they can cause drowsiness and, at high doses, slowed breathing.',
+    },
+    'benzodiazepine': {
+        label: 'sedatives (benzodiazepines)',
+        overlap: 'Both calm the brain the same way. Together they can cause heavy sedation, falls and slowed breathing.',
+    },
+    'ssri': {
+        label: 'SSRI antidepressants',
+        overlap: 'Both raise serotonin. Together they can cause serotonin syndrome: agitation, fever, fast heartbeat and muscle twitching.',
+    },
+    'corticosteroid': {
+        label: 'steroids',
+        overlap: 'Both are corticosteroids. Together they add up side effects such as high blood sugar, stomach ulcers and weakened immunity.',
+    },
+    'penicillin': {
+        label: 'penicillin antibiotics',
+        overlap: 'Both are penicillin antibiotics for the same kinds of infection. Two together are rarely intended; check with your doctor.',
+    },
+    'cephalosporin': {
+        label: 'cephalosporin antibiotics',
+        overlap: 'Both are cephalosporin antibiotics for the same kinds of infection. Two together are rarely intended; check with your doctor.',
+    },
+    'macrolide': {
+        label: 'macrolide antibiotics',
+        overlap: 'Both are macrolide antibiotics. Together they add stomach upset and can affect heart rhythm.',
+    },
+    'fluoroquinolone': {
+        label: 'quinolone antibiotics',
+        overlap: 'Both are quinolone antibiotics. Together they raise the risk of tendon damage and heart rhythm problems.',
+    },
+    'opioid': {
+        label: 'opioid pain relievers',
+        overlap: 'Both are opioids. Together they can cause heavy drowsiness and dangerously slowed breathing.',
+    },
+};
+
+export const DRUGS: Record<string, DrugEntry> = {
+    // Pain, fever and inflammation
+    'paracetamol': {
+        synonyms: ['acetaminophen', 'apap', 'paracetamole'],
+        overdose: 'Too much paracetamol can cause serious liver damage, often without early symptoms.',
+    },
+    'ibuprofen': { classes: ['nsaid'], overdose: 'Too much ibuprofen can cause stomach bleeding and kidney damage.' },
+    'mefenamic acid': { synonyms: ['mefenamic'], classes: ['nsaid'] },
+    'naproxen': { classes: ['nsaid'] },
+    'diclofenac': { classes: ['nsaid'] },
+    'celecoxib': { classes: ['nsaid'] },
+    'etoricoxib': { classes: ['nsaid'] },
+    'meloxicam': { classes: ['nsaid'] },
+    'ketorolac': { classes: ['nsaid'] },
+    'aspirin': {
+        synonyms: ['acetylsalicylic acid', 'asa'],
+        classes: ['nsaid', 'blood-thinner'],
+        overdose: 'Too much aspirin can cause bleeding, ringing in the ears and, at high doses, poisoning.',
+    },
+    'tramadol': { classes: ['opioid'] },
+    'codeine': { classes: ['opioid', 'cough-suppressant'] },
+
+    // Blood thinners
+    'clopidogrel': { classes: ['blood-thinner'] },
+    'warfarin': { classes: ['blood-thinner'] },
+    'cilostazol': { classes: ['blood-thinner'] },
+
+    // Blood pressure and heart
+    'captopril': { classes: ['ace-inhibitor'] },
+    'enalapril': { classes: ['ace-inhibitor'] },
+    'lisinopril': { classes: ['ace-inhibitor'] },
+    'perindopril': { classes: ['ace-inhibitor'] },
+    'losartan': { classes: ['arb'] },
+    'valsartan': { classes: ['arb'] },
+    'telmisartan': { classes: ['arb'] },
+    'irbesartan': { classes: ['arb'] },
+    'olmesartan': { classes: ['arb'] },
+    'candesartan': { classes: ['arb'] },
+    'metoprolol': { classes: ['beta-blocker'] },
+    'atenolol': { classes: ['beta-blocker'] },
+    'bisoprolol': { classes: ['beta-blocker'] },
+    'carvedilol': { classes: ['beta-blocker'] },
+    'propranolol': { classes: ['beta-blocker'] },
+    'amlodipine': { classes: ['calcium-channel-blocker'] },
+    'felodipine': { classes: ['calcium-channel-blocker'] },
+    'nifedipine': { classes: ['calcium-channel-blocker'] },
+    'diltiazem': { classes: ['calcium-channel-blocker'] },
+    'verapamil': { classes: ['calcium-channel-blocker'] },
+    'hydrochlorothiazide': { synonyms: ['hctz'], classes: ['diuretic'] },
+    'indapamide': { classes: ['diuretic'] },
+    'furosemide': { synonyms: ['frusemide'], classes: ['diuretic'] },
+    'spironolactone': { classes: ['diuretic'] },
+
+    // Cholesterol
+    'atorvastatin': { classes: ['statin'] },
+    'simvastatin': { classes: ['statin'] },
+    'rosuvastatin': { classes: ['statin'] },
+    'pravastatin': { classes: ['statin'] },
+
+    // Diabetes
+    'metformin': {},
+    'gliclazide': { classes: ['sulfonylurea'] },
+    'glimepiride': { classes: ['sulfonylurea'] },
+    'glibenclamide': { synonyms: ['glyburide'], classes: ['sulfonylurea'] },
+    'glipizide': { classes: ['sulfonylurea'] },
+    'sitagliptin': { classes: ['dpp4-inhibitor'] },
+    'vildagliptin': { classes: ['dpp4-inhibitor'] },
+    'linagliptin': { classes: ['dpp4-inhibitor'] },
+
+    // Stomach
+    'omeprazole': { classes: ['ppi'] },
+    'esomeprazole': { classes: ['ppi'] },
+    'pantoprazole': { classes: ['ppi'] },
+    'lansoprazole': { classes: ['ppi'] },
+    'rabeprazole': { classes: ['ppi'] },
+    'famotidine': { classes: ['h2-blocker'] },
+    'ranitidine': { classes: ['h2-blocker'] },
+    'cimetidine': { classes: ['h2-blocker'] },
+    'aluminum hydroxide': { synonyms: ['aluminium hydroxide'] },
+    'magnesium hydroxide': {},
+    'simeticone': { synonyms: ['simethicone'] },
+    'loperamide': {},
+    'hyoscine butylbromide': { synonyms: ['butylscopolamine', 'hyoscine n-butylbromide', 'hyoscine'] },
+
+    // Colds, cough and allergies
+    'phenylephrine': { classes: ['decongestant'], overdose: 'Too much phenylephrine can raise blood pressure and cause a pounding heartbeat.' },
+    'pseudoephedrine': { classes: ['decongestant'] },
+    'chlorphenamine': {
+        synonyms: ['chlorpheniramine'],
+        classes: ['antihistamine'],
+        overdose: 'Too much chlorphenamine causes heavy drowsiness, confusion and a fast heartbeat.',
+    },
+    'diphenhydramine': { classes: ['antihistamine'] },
+    'cetirizine': { classes: ['antihistamine'] },
+    'levocetirizine': { classes: ['antihistamine'] },
+    'loratadine': { classes: ['antihistamine'] },
+    'desloratadine': { classes: ['antihistamine'] },
+    'fexofenadine': { classes: ['antihistamine'] },
+    'hydroxyzine': { classes: ['antihistamine'] },
+    'carbocisteine': { synonyms: ['carbocysteine'], classes: ['mucolytic'] },
+    'ambroxol': { classes: ['mucolytic'] },
+    'bromhexine': { classes: ['mucolytic'] },
+    'acetylcysteine': { synonyms: ['n-acetylcysteine', 'nac'], classes: ['mucolytic'] },
+    'guaifenesin': { synonyms: ['guaiphenesin'] },
+    'dextromethorphan': { synonyms: ['dxm'], classes: ['cough-suppressant'] },
+    'butamirate': { classes: ['cough-suppressant'] },
+    'lagundi': { synonyms: ['vitex negundo'] },
+    'salbutamol': { synonyms: ['albuterol'] },
+    'montelukast': {},
+
+    // Antibiotics
+    'amoxicillin': { synonyms: ['amoxycillin'], classes: ['penicillin'] },
+    'ampicillin': { classes: ['penicillin'] },
+    'cloxacillin': { classes: ['penicillin'] },
+    'clavulanic acid': { synonyms: ['clavulanate'] },
+    'cefalexin': { synonyms: ['cephalexin'], classes: ['cephalosporin'] },
+    'cefuroxime': { classes: ['cephalosporin'] },
+    'cefixime': { classes: ['cephalosporin'] },
+    'cefaclor': { classes: ['cephalosporin'] },
+    'azithromycin': { classes: ['macrolide'] },
+    'clarithromycin': { classes: ['macrolide'] },
+    'erythromycin': { classes: ['macrolide'] },
+    'ciprofloxacin': { classes: ['fluoroquinolone'] },
+    'levofloxacin': { classes: ['fluoroquinolone'] },
+    'ofloxacin': { classes: ['fluoroquinolone'] },
+    'co-trimoxazole': { synonyms: ['cotrimoxazole', 'sulfamethoxazole trimethoprim'] },
+    'metronidazole': {},
+    'doxycycline': {},
+
+    // Mind and sleep
+    'alprazolam': { classes: ['benzodiazepine'] },
+    'diazepam': { classes: ['benzodiazepine'] },
+    'clonazepam': { classes: ['benzodiazepine'] },
+    'lorazepam': { classes: ['benzodiazepine'] },
+    'midazolam': { classes: ['benzodiazepine'] },
+    'fluoxetine': { classes: ['ssri'] },
+    'sertraline': { classes: ['ssri'] },
+    'escitalopram': { classes: ['ssri'] },
+    'citalopram': { classes: ['ssri'] },
+    'paroxetine': { classes: ['ssri'] },
+
+    // Steroids
+    'prednisone': { classes: ['corticosteroid'] },
+    'prednisolone': { classes: ['corticosteroid'] },
+    'methylprednisolone': { classes: ['corticosteroid'] },
+    'dexamethasone': { classes: ['corticosteroid'] },
+    'hydrocortisone': { classes: ['corticosteroid'] },
+    'betamethasone': { classes: ['corticosteroid'] },
+
+    // Others often found in a PH medicine cabinet
+    'levothyroxine': {},
+    'allopurinol': {},
+    'colchicine': {},
+    'ascorbic acid': { synonyms: ['vitamin c', 'sodium ascorbate'] },
+    'ferrous sulfate': { synonyms: ['ferrous sulphate'] },
+    'folic acid': {},
+    'calcium carbonate': {},
+    'zinc': {},
+};
+
+// Brand name -> generic ingredients, for labels that only show the brand
+export const BRANDS: Record<string, string[]> = {
+    'biogesic': ['paracetamol'],
+    'tempra': ['paracetamol'],
+    'calpol': ['paracetamol'],
+    'panadol': ['paracetamol'],
+    'tylenol': ['paracetamol'],
+    'medicol': ['ibuprofen'],
+    'advil': ['ibuprofen'],
+    'dolan': ['ibuprofen'],
+    'alaxan': ['ibuprofen', 'paracetamol'],
+    'restime': ['ibuprofen', 'paracetamol'],
+    'dolfenal': ['mefenamic acid'],
+    'ponstan': ['mefenamic acid'],
+    'gardan': ['mefenamic acid'],
+    'flanax': ['naproxen'],
+    'skelan': ['naproxen'],
+    'cataflam': ['diclofenac'],
+    'voltaren': ['diclofenac'],
+    'celebrex': ['celecoxib'],
+    'arcoxia': ['etoricoxib'],
+    'aspilets': ['aspirin'],
+    'cortal': ['aspirin'],
+    'plavix': ['clopidogrel'],
+    'neozep': ['phenylephrine', 'chlorphenamine', 'paracetamol'],
+    'bioflu': ['phenylephrine', 'chlorphenamine', 'paracetamol'],
+    'decolgen': ['phenylephrine', 'chlorphenamine', 'paracetamol'],
+    'solmux': ['carbocisteine'],
+    'fluimucil': ['acetylcysteine'],
+    'mucosolvan': ['ambroxol'],
+    'robitussin': ['guaifenesin'],
+    'sinecod': ['butamirate'],
+    'ascof': ['lagundi'],
+    'allerkid': ['cetirizine'],
+    'virlix': ['cetirizine'],
+    'zyrtec': ['cetirizine'],
+    'claritin': ['loratadine'],
+    'allerta': ['loratadine'],
+    'benadryl': ['diphenhydramine'],
+    'iterax': ['hydroxyzine'],
+    'ventolin': ['salbutamol'],
+    'singulair': ['montelukast'],
+    'kremil-s': ['aluminum hydroxide', 'magnesium hydroxide', 'simeticone'],
+    'maalox': ['aluminum hydroxide', 'magnesium hydroxide'],
+    'buscopan': ['hyoscine butylbromide'],
+    'diatabs': ['loperamide'],
+    'imodium': ['loperamide'],
+    'losec': ['omeprazole'],
+    'nexium': ['esomeprazole'],
+    'pariet': ['rabeprazole'],
+    'amoxil': ['amoxicillin'],
+    'himox': ['amoxicillin'],
+    'augmentin': ['amoxicillin', 'clavulanic acid'],
+    'co-amoxiclav': ['amoxicillin', 'clavulanic acid'],
+    'zithromax': ['azithromycin'],
+    'klaricid': ['clarithromycin'],
+    'ciprobay': ['ciprofloxacin'],
+    'norvasc': ['amlodipine'],
+    'cozaar': ['losartan'],
+    'hyzaar': ['losartan', 'hydrochlorothiazide'],
+    'diovan': ['valsartan'],
+    'micardis': ['telmisartan'],
+    'exforge': ['amlodipine', 'valsartan'],
+    'concor': ['bisoprolol'],
+    'lipitor': ['atorvastatin'],
+    'crestor': ['rosuvastatin'],
+    'zocor': ['simvastatin'],
+    'glucophage': ['metformin'],
+    'diamicron': ['gliclazide'],
+    'amaryl': ['glimepiride'],
+    'januvia': ['sitagliptin'],
+    'janumet': ['sitagliptin', 'metformin'],
+    'galvus': ['vildagliptin'],
+    'xanax': ['alprazolam'],
+    'valium': ['diazepam'],
+    'rivotril': ['clonazepam'],
+    'ceelin': ['ascorbic acid'],
+    'poten-cee': ['ascorbic acid'],
+    'fern-c': ['ascorbic acid'],
+};
+
+// Salt and hydrate words dropped from an ingredient ("losartan potassium" -> "losartan")
+export const SALT_WORDS = [
+    'hydrochloride', 'hcl', 'dihydrochloride', 'hydrobromide', 'sodium', 'potassium', 'magnesium', 'calcium',
+    'maleate', 'besylate', 'besilate', 'mesylate', 'mesilate', 'succinate', 'tartrate', 'citrate',
+    'sulfate', 'sulphate', 'phosphate', 'fumarate', 'acetate', 'hyclate', 'trihydrate', 'dihydrate',
+    'monohydrate', 'anhydrous', 'bromide', 'dipropionate', 'propionate', 'valerate', 'pamoate', 'disodium',
+];
+
+// Dosage-form words dropped from an ingredient ("amoxicillin capsule" -> "amoxicillin")
+export const FORM_WORDS = [
+    'tablet', 'tablets', 'tab', 'tabs', 'capsule', 'capsules', 'cap', 'caps', 'syrup', 'suspension',
+    'drops', 'solution', 'injection', 'cream', 'ointment', 'film', 'coated', 'extended', 'sustained',
+    'modified', 'release', 'sr', 'er', 'xr', 'mr', 'od', 'forte', 'granules', 'sachet', 'powder',
+];
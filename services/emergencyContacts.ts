@@ -0,0 +1,50 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SMS from 'expo-sms';
+
+const CONTACTS_KEY = 'emergency_contacts';
+
+export interface EmergencyContact {
+    id: string;
+    name: string;
+    phone: string;
+}
+
+/**
+ * Emergency contacts, in the order they were added
+ */
+export async function getEmergencyContacts(): Promise<EmergencyContact[]> {
+    try {
+        const data = await AsyncStorage.getItem(CONTACTS_KEY);
+        return data ? JSON.parse(data) : [];
+    } catch (error) {
+        console.error('Error loading emergency contacts:', error);
+        return [];
+    }
+}
+
+/**
+ * Replace the stored emergency contacts
+ */
+export async function saveEmergencyContacts(contacts: EmergencyContact[]): Promise<void> {
+    try {
+        await AsyncStorage.setItem(CONTACTS_KEY, JSON.stringify(contacts));
+    } catch (error) {
+        console.error('Error saving emergency contacts:', error);
+    }
+}
+
+/**
+ * Open the SMS composer with a message to the given numbers. Nothing is sent
+ * without the user pressing send. Returns the composer's result, or null
+ * when SMS is not available.
+ */
+export async function prepareSms(phones: string[], message: string): Promise<SMS.SMSResponse['result'] | null> {
+    try {
+        if (!(await SMS.isAvailableAsync())) return null;
+        const { result } = await SMS.sendSMSAsync(phones, message);
+        return result;
+    } catch (error) {
+        console.error('Error preparing SMS:', error);
+        return null;
+    }
+}
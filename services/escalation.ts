@@ -0,0 +1,292 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { AppState } from 'react-native';
+import { getDatabase } from './database';
+import { getDoseEvents, recordDose, subscribeToDoseLog } from './doseLog';
+import { getEmergencyContacts, prepareSms } from './emergencyContacts';
+import { DailySchedule, getActiveMedications, getScheduleForDay } from './medicationStorage';
+import {
+    ALARM_TONES,
+    DEFAULT_TONE_ID,
+    REALERT_REMINDER_KIND,
+    REMINDER_CATEGORY_ID,
+    REMINDER_CHANNEL_ID,
+    ReminderData
+} from './reminders';
+
+const ESCALATION_POLICY_KEY = 'missed_dose_escalation';
+
+// Data kind of the "let your contacts know" notification
+export const CONTACTS_ESCALATION_KIND = 'missed-dose-contacts';
+
+// Only the next day's escalations are scheduled; each run plans ahead again
+const PLAN_AHEAD_MS = 24 * 60 * 60 * 1000;
+// A contact alert the user only sees after this long is dropped, not sent
+const CONTACT_ALERT_STALE_MS = 12 * 60 * 60 * 1000;
+
+export interface EscalationPolicy {
+    enabled: boolean;
+    realertAfterMinutes: number;  // Remind the user again if the dose is still unconfirmed
+    contactsAfterMinutes: number; // Then prepare an SMS to the chosen contacts
+    contactIds: string[];         // EmergencyContact ids; none means re-alerts only
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+    enabled: false,
+    realertAfterMinutes: 15,
+    contactsAfterMinutes: 60,
+    contactIds: [],
+};
+
+type EscalationStage = 'realert' | 'contacts';
+
+interface EscalationRow {
+    notification_id: string;
+    medication_id: string;
+    scheduled_for: number;
+    stage: EscalationStage;
+    fire_at: number;
+}
+
+let planning: Promise<void> | null = null;
+let planAgain = false;
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * The saved escalation policy, or the (disabled) default
+ */
+export async function getEscalationPolicy(): Promise<EscalationPolicy> {
+    try {
+        const data = await AsyncStorage.getItem(ESCALATION_POLICY_KEY);
+        return data ? { ...DEFAULT_ESCALATION_POLICY, ...JSON.parse(data) } : DEFAULT_ESCALATION_POLICY;
+    } catch (error) {
+        console.error('Error loading escalation policy:', error);
+        return DEFAULT_ESCALATION_POLICY;
+    }
+}
+
+/**
+ * Save the policy and reschedule pending escalations to match it
+ */
+export async function saveEscalationPolicy(policy: EscalationPolicy): Promise<void> {
+    try {
+        await AsyncStorage.setItem(ESCALATION_POLICY_KEY, JSON.stringify(policy));
+    } catch (error) {
+        console.error('Error saving escalation policy:', error);
+        throw error;
+    }
+    await planEscalations();
+}
+
+/**
+ * Whether a slot was confirmed (taken or skipped) before the given time
+ */
+async function wasConfirmedBefore(row: EscalationRow, time: number): Promise<boolean> {
+    const slot = new Date(row.scheduled_for);
+    const events = await getDoseEvents({ medicationId: row.medication_id, from: slot, to: slot });
+    return events.some(event =>
+        (event.status === 'taken' || event.status === 'late' || event.status === 'skipped') &&
+        event.recordedAt.getTime() < time);
+}
+
+/**
+ * Log the re-alerts that have fired since the last run
+ */
+async function recordFiredRealerts(rows: EscalationRow[], now: number): Promise<void> {
+    const db = await getDatabase();
+    for (const row of rows.filter(r => r.stage === 'realert' && r.fire_at <= now)) {
+        if (!(await wasConfirmedBefore(row, row.fire_at))) {
+            await recordDose({
+                medicationId: row.medication_id,
+                status: 'realerted',
+                scheduledFor: new Date(row.scheduled_for),
+                note: `Re-alerted at ${formatTime(new Date(row.fire_at))}`,
+            });
+        }
+        await db.runAsync('DELETE FROM escalations WHERE notification_id = ?', row.notification_id);
+    }
+}
+
+/**
+ * Open one SMS to the chosen contacts for every slot that reached the second
+ * threshold unconfirmed, and log it against each slot. Needs the app in the
+ * foreground, so due rows wait until the user opens it.
+ */
+async function sendDueContactAlerts(rows: EscalationRow[], policy: EscalationPolicy, now: number): Promise<void> {
+    const due = rows.filter(r => r.stage === 'contacts' && r.fire_at <= now);
+    if (due.length === 0 || AppState.currentState !== 'active') return;
+
+    const db = await getDatabase();
+    // Forget them first: a second run must not open the composer again
+    for (const row of due) {
+        await db.runAsync('DELETE FROM escalations WHERE notification_id = ?', row.notification_id);
+    }
+    if (!policy.enabled) return;
+
+    const missed: { row: EscalationRow; medicine: string }[] = [];
+    const medications = await getActiveMedications();
+    for (const row of due) {
+        const med = medications.find(m => m.id === row.medication_id);
+        if (!med || now - row.fire_at > CONTACT_ALERT_STALE_MS) continue;
+        if (!(await wasConfirmedBefore(row, now))) missed.push({ row, medicine: med.analysis.medicineName });
+    }
+    if (missed.length === 0) return;
+
+    const contacts = (await getEmergencyContacts()).filter(c => policy.contactIds.includes(c.id));
+    const doses = missed.map(({ row, medicine }) => {
+        const slot = new Date(row.scheduled_for);
+        const day = slot.toDateString() === new Date(now).toDateString() ? '' : `${slot.toDateString()} `;
+        return `${medicine} (due ${day}at ${formatTime(slot)})`;
+    });
+    const message = `MediMate alert: I have not confirmed taking ${doses.join(', ')}. Please check on me.`;
+
+    const result = contacts.length ? await prepareSms(contacts.map(c => c.phone), message) : null;
+    const note = result
+        ? `SMS ${result} to ${contacts.map(c => c.name).join(', ')}`
+        : contacts.length ? 'SMS unavailable on this device' : 'No emergency contacts to notify';
+
+    for (const { row } of missed) {
+        await recordDose({
+            medicationId: row.medication_id,
+            status: 'escalated',
+            scheduledFor: new Date(row.scheduled_for),
+            note,
+        });
+    }
+}
+
+async function scheduleEscalation(
+    item: DailySchedule,
+    stage: EscalationStage,
+    fireAt: number,
+    tone: string,
+): Promise<string> {
+    const time = formatTime(item.scheduledFor);
+    if (stage === 'realert') {
+        const data: ReminderData = {
+            kind: REALERT_REMINDER_KIND,
+            medicationId: item.medicationId,
+            medicine: item.medicationName,
+            tone,
+            time: item.time,
+            scheduledFor: item.scheduledFor.getTime(),
+        };
+        return Notifications.scheduleNotificationAsync({
+            content: {
+                title: '⏰ Dose Not Confirmed',
+                body: `Did you take your ${item.medicationName}? It was due at ${time}.`,
+                sound: tone !== 'silent',
+                data: { ...data },
+                categoryIdentifier: REMINDER_CATEGORY_ID,
+                priority: Notifications.AndroidNotificationPriority.MAX,
+                vibrate: (ALARM_TONES.find(t => t.id === tone) || ALARM_TONES[1]).pattern,
+            },
+            trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: fireAt, channelId: REMINDER_CHANNEL_ID },
+        });
+    }
+
+    return Notifications.scheduleNotificationAsync({
+        content: {
+            title: '⚠️ Missed Dose',
+            body: `${item.medicationName} (due ${time}) is still not confirmed. Open MediMate to let your emergency contacts know.`,
+            sound: true,
+            data: { kind: CONTACTS_ESCALATION_KIND },
+            priority: Notifications.AndroidNotificationPriority.MAX,
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: fireAt, channelId: REMINDER_CHANNEL_ID },
+    });
+}
+
+/**
+ * Replace the pending escalations with ones for every unconfirmed slot whose
+ * thresholds fall within the next day
+ */
+async function scheduleUpcoming(rows: EscalationRow[], policy: EscalationPolicy, now: number): Promise<void> {
+    const db = await getDatabase();
+    for (const row of rows.filter(r => r.fire_at > now)) {
+        await Notifications.cancelScheduledNotificationAsync(row.notification_id);
+        await db.runAsync('DELETE FROM escalations WHERE notification_id = ?', row.notification_id);
+    }
+    if (!policy.enabled) return;
+
+    const { granted } = await Notifications.getPermissionsAsync();
+    if (!granted) return;
+
+    const contacts = (await getEmergencyContacts()).filter(c => policy.contactIds.includes(c.id));
+    const stages: [EscalationStage, number][] = [['realert', policy.realertAfterMinutes]];
+    if (contacts.length) stages.push(['contacts', policy.contactsAfterMinutes]);
+
+    const tones = new Map((await getActiveMedications()).map(med => [med.id, med.reminderTone ?? DEFAULT_TONE_ID]));
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const slots = [...await getScheduleForDay(new Date(now)), ...await getScheduleForDay(tomorrow)]
+        .filter(item => !item.status || item.status === 'missed');
+
+    for (const item of slots) {
+        for (const [stage, minutes] of stages) {
+            const fireAt = item.scheduledFor.getTime() + minutes * 60 * 1000;
+            if (fireAt <= now || fireAt > now + PLAN_AHEAD_MS) continue;
+
+            const notificationId = await scheduleEscalation(item, stage, fireAt, tones.get(item.medicationId) ?? DEFAULT_TONE_ID);
+            await db.runAsync(
+                'INSERT INTO escalations (notification_id, medication_id, scheduled_for, stage, fire_at) VALUES (?, ?, ?, ?, ?)',
+                notificationId, item.medicationId, item.scheduledFor.getTime(), stage, fireAt,
+            );
+        }
+    }
+}
+
+async function runEscalations(): Promise<void> {
+    try {
+        const now = Date.now();
+        const policy = await getEscalationPolicy();
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<EscalationRow>('SELECT * FROM escalations');
+
+        await recordFiredRealerts(rows, now);
+        await sendDueContactAlerts(rows, policy, now);
+        await scheduleUpcoming(rows, policy, now);
+    } catch (error) {
+        console.error('Error planning escalations:', error);
+    }
+}
+
+/**
+ * Log escalations that have fired, prepare any SMS that is due, and schedule
+ * the next day's re-alerts and contact alerts. Runs one at a time; a call
+ * made while running schedules one more run.
+ */
+export function planEscalations(): Promise<void> {
+    if (planning) {
+        planAgain = true;
+        return planning;
+    }
+    planning = (async () => {
+        do {
+            planAgain = false;
+            await runEscalations();
+        } while (planAgain);
+    })().finally(() => {
+        planning = null;
+    });
+    return planning;
+}
+
+/**
+ * Keep escalations in step with the dose log, and act on due ones whenever
+ * the app comes to the foreground. Returns an unsubscribe function; call
+ * once from the app root.
+ */
+export function startEscalations(): () => void {
+    planEscalations();
+
+    const unsubscribe = subscribeToDoseLog(() => planEscalations());
+    const appState = AppState.addEventListener('change', state => {
+        if (state === 'active') planEscalations();
+    });
+    return () => {
+        unsubscribe();
+        appState.remove();
+    };
+}
@@ -0,0 +1,50 @@
+import interactionsFixture from '../fixtures/ai/interactions.json';
+import medicineImageFixture from '../fixtures/ai/medicine-image.json';
+import personInfoFixture from '../fixtures/ai/person-info.json';
+import translationFixture from '../fixtures/ai/translation.json';
+import type { AIProvider, AIRequest, AITask } from './aiProvider';
+
+/**
+ * On-disk fixture format, shared with scripts/mock-ai-server.js.
+ * `text` is the raw model output; `response` is a JSON value that is
+ * stringified on read, which keeps hand-written fixtures readable.
+ */
+export interface AIFixture {
+    task: AITask;
+    key?: string;         // task-hash of the request, set on recorded fixtures
+    model?: string;
+    recordedAt?: string;
+    text?: string;
+    response?: unknown;
+}
+
+/**
+ * Raw model text stored in a fixture
+ */
+export function fixtureText(fixture: AIFixture): string {
+    return typeof fixture.text === 'string' ? fixture.text : JSON.stringify(fixture.response);
+}
+
+// Canned model output, shaped exactly like what the prompts ask Gemini for
+const DEFAULT_FIXTURES: Record<AITask, string> = {
+    'medicine-image': fixtureText(medicineImageFixture as AIFixture),
+    interactions: fixtureText(interactionsFixture as AIFixture),
+    'person-info': fixtureText(personInfoFixture as AIFixture),
+    translation: fixtureText(translationFixture as AIFixture),
+};
+
+/**
+ * Deterministic offline provider: every task always returns the same text.
+ * Pass overrides to script specific responses (e.g. a conflicting interaction).
+ */
+export function createFixtureProvider(overrides: Partial<Record<AITask, string>> = {}): AIProvider {
+    const fixtures = { ...DEFAULT_FIXTURES, ...overrides };
+
+    return {
+        id: 'fixture',
+        model: 'fixture',
+        async generate(request: AIRequest): Promise<string> {
+            return fixtures[request.task];
+        },
+    };
+}
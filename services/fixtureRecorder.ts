@@ -0,0 +1,71 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import type { AIGenerateOptions, AIProvider, AIRequest } from './aiProvider';
+import { AIFixture, fixtureText } from './fixtureProvider';
+import { hashString } from './hash';
+
+export const FIXTURE_DIRECTORY = `${FileSystem.documentDirectory}ai-fixtures/`;
+
+/**
+ * Stable key for a request: "<task>-<hash of prompt + image bytes>".
+ * scripts/mock-ai-server.js derives the same key from the HTTP body.
+ */
+export function fixtureKey(request: AIRequest): string {
+    return `${request.task}-${hashString(request.prompt + (request.image?.data ?? ''))}`;
+}
+
+const fixturePath = (directory: string, key: string) => `${directory}${key}.json`;
+
+/**
+ * Wraps a provider and writes every response to <directory>/<key>.json.
+ * Recording failures are logged and never fail the AI call itself.
+ */
+export function createRecordingProvider(inner: AIProvider, directory: string = FIXTURE_DIRECTORY): AIProvider {
+    return {
+        id: `${inner.id}+record`,
+        model: inner.model,
+        async generate(request: AIRequest, options?: AIGenerateOptions): Promise<string> {
+            const text = await inner.generate(request, options);
+            const key = fixtureKey(request);
+
+            try {
+                await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+                const fixture: AIFixture = {
+                    task: request.task,
+                    key,
+                    model: inner.model,
+                    recordedAt: new Date().toISOString(),
+                    text,
+                };
+                await FileSystem.writeAsStringAsync(fixturePath(directory, key), JSON.stringify(fixture, null, 2));
+            } catch (error) {
+                console.error('Failed to record AI fixture:', error);
+            }
+
+            return text;
+        },
+    };
+}
+
+/**
+ * Serves recorded responses by request key.
+ * Requests with no recording go to `fallback`, or fail if there is none.
+ */
+export function createReplayProvider(fallback?: AIProvider, directory: string = FIXTURE_DIRECTORY): AIProvider {
+    return {
+        id: 'replay',
+        model: fallback?.model ?? 'replay',
+        async generate(request: AIRequest, options?: AIGenerateOptions): Promise<string> {
+            const key = fixtureKey(request);
+            const path = fixturePath(directory, key);
+
+            const info = await FileSystem.getInfoAsync(path);
+            if (info.exists) {
+                const fixture: AIFixture = JSON.parse(await FileSystem.readAsStringAsync(path));
+                return fixtureText(fixture);
+            }
+
+            if (fallback) return fallback.generate(request, options);
+            throw new Error(`No recorded AI fixture for ${key}`);
+        },
+    };
+}
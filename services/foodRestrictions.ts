@@ -0,0 +1,78 @@
+import type { MedicineAnalysis } from './gemini';
+
+// One food or drink to avoid, with every medicine that warns about it
+export interface FoodRestriction {
+    food: string;           // Group label, or the warning as first written
+    medicines: string[];    // Medicine names, in the order given
+}
+
+interface FoodGroup {
+    label: string;
+    keywords: string[];     // Whole words in the cleaned warning: "wine" matches "red wines", not "swine"
+}
+
+// Warnings that name the same thing in different words. A warning joins every
+// group it names; words a group matched are not offered to later groups, so
+// narrower groups come first ("salt substitute" is not also "salt").
+const FOOD_GROUPS: FoodGroup[] = [
+    { label: 'Grapefruit and grapefruit juice', keywords: ['grapefruit', 'pomelo', 'suha'] },
+    { label: 'Alcohol', keywords: ['alcohol', 'wine', 'beer', 'liquor', 'spirits', 'tuba', 'lambanog'] },
+    { label: 'Vitamin K-rich foods (leafy greens)', keywords: ['vitamin k', 'leafy green', 'spinach', 'kale', 'malunggay', 'kangkong'] },
+    { label: 'Salt substitutes and potassium-rich foods', keywords: ['potassium', 'salt substitute', 'banana'] },
+    { label: 'Salty foods', keywords: ['salt', 'sodium', 'salty', 'patis', 'bagoong'] },
+    { label: 'Aged, fermented and cured foods (tyramine)', keywords: ['tyramine', 'aged cheese', 'fermented', 'cured meat'] },
+    { label: 'Milk, dairy and calcium', keywords: ['dairy', 'milk', 'cheese', 'yogurt', 'calcium'] },
+    { label: 'Coffee, tea and other caffeine', keywords: ['caffeine', 'coffee', 'tea', 'energy drink', 'cola'] },
+    { label: 'High-fat meals', keywords: ['fatty', 'high fat', 'fried', 'greasy'] },
+    { label: 'Iron supplements and iron-rich foods', keywords: ['iron'] },
+    { label: 'Antacids', keywords: ['antacid'] },
+    { label: 'Licorice', keywords: ['licorice', 'liquorice'] },
+];
+
+/**
+ * Lowercase words, anything else as single spaces
+ */
+function cleanText(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * The groups a warning belongs to, as grouping keys and display labels:
+ * "Avoid alcohol and grapefruit juice" is both Alcohol and Grapefruit.
+ * Warnings outside FOOD_GROUPS group by their wording, ignoring case,
+ * punctuation and anything in brackets.
+ */
+function groupsFor(warning: string): { key: string; label: string }[] {
+    let text = cleanText(warning);
+    const groups: { key: string; label: string }[] = [];
+    for (const group of FOOD_GROUPS) {
+        // Cleaned text is only letters, digits and spaces, so keywords need no escaping
+        const pattern = new RegExp(`\\b(${group.keywords.join('|')})(s|es)?\\b`, 'g');
+        if (!pattern.test(text)) continue;
+        groups.push({ key: group.label, label: group.label });
+        text = text.replace(pattern, ' ');
+    }
+    if (groups.length) return groups;
+    return [{ key: cleanText(warning.replace(/\(.*?\)/g, '')), label: warning.trim() }];
+}
+
+/**
+ * Every food and drink warning across the medicines, one entry per food,
+ * naming the medicines behind it. Foods that more medicines warn about
+ * come first.
+ */
+export function groupFoodWarnings(medicines: MedicineAnalysis[]): FoodRestriction[] {
+    const groups = new Map<string, FoodRestriction>();
+
+    for (const medicine of medicines) {
+        for (const warning of medicine.foodWarnings ?? []) {
+            if (!warning.trim()) continue;
+            for (const { key, label } of groupsFor(warning)) {
+                const restriction = groups.get(key) ?? { food: label, medicines: [] };
+                if (!restriction.medicines.includes(medicine.medicineName)) restriction.medicines.push(medicine.medicineName);
+                groups.set(key, restriction);
+            }
+        }
+    }
+    return [...groups.values()].sort((a, b) => b.medicines.length - a.medicines.length || a.food.localeCompare(b.food));
+}
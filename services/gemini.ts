@@ -1,5 +1,8 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as FileSystem from 'expo-file-system/legacy';
+import { AIRequestError, AIRequestOptions, classifyAIError, requestAI } from './aiRequest';
+import { getCachedAnalysis, imageCacheKey, interactionCacheKey, setCachedAnalysis } from './analysisCache';
+import { AIUnavailableError } from './config';
+import { parseInteractionReport, parseMedicineList, ParseResult } from './responseSchema';
 
 // ========== FRAUD DETECTION UTILITIES ==========
 function validatePRCLicense(licenseNumber?: string): boolean {
@@ -86,14 +89,6 @@ function calculateAuthenticityScore(medicine: MedicineAnalysis): FraudDetection
 }
 // ========== END FRAUD DETECTION ==========
 
-// Initialize Gemini API
-const API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
-
-if (!API_KEY) {
-    throw new Error('Missing EXPO_PUBLIC_GEMINI_API_KEY in environment variables');
-}
-const genAI = new GoogleGenerativeAI(API_KEY);
-
 export interface MedicineAnalysis {
     medicineName: string;
     activeIngredients: string;
@@ -102,6 +97,7 @@ export interface MedicineAnalysis {
     warnings: string;
     recommendedTime?: string; // Format: "HH:MM" 24-hour
     foodWarnings: string[]; // Foods/drinks to avoid
+    packQuantity?: number; // Units in the pack (e.g. 30 tablets) if printed on it
     affordability?: AffordabilityInfo; // Philippines-specific affordability info
     prescribedBy?: string; // Doctor's name if visible on prescription
     hospital?: string; // Hospital/clinic name if visible
@@ -130,68 +126,119 @@ export interface AffordabilityInfo {
     governmentPrograms: string[];       // ["PCSO", "DSWD AICS", "Malasakit"]
 }
 
+// One interacting pair, or a group whose risk needs all of its members
+export interface DrugInteraction {
+    medicines: string[];                    // Medicine names as they were checked
+    severity: 'high' | 'medium' | 'low';
+    mechanism: string;                      // How they interact: "Both thin the blood"
+    effect: string;                         // What can happen: "Higher risk of bleeding"
+    action: string;                         // What to do: "Ask your doctor before taking both"
+    source?: InteractionSource;             // Missing on AI-only reports
+}
+
+// Where an interaction finding came from: the bundled rules, the AI, or both agreeing
+export type InteractionSource = 'local' | 'ai' | 'both';
+
 export interface InteractionReport {
     hasConflict: boolean;
-    severity: 'high' | 'medium' | 'low' | 'none';
-    description: string;
+    severity: 'high' | 'medium' | 'low' | 'none'; // The worst interaction
+    description: string;                          // One-line summary
+    interactions?: DrugInteraction[];             // Worst first; reports saved before pairs were checked have none
+    source?: InteractionSource;                   // Checks that ran: 'local' when the AI could not, missing on old AI-only reports
+    unchecked?: boolean;                          // The AI check failed or is unavailable; only the bundled rules were applied
+    checkedWith?: string[]; // Scans: the active medications checked along with the scanned ones
+}
+
+// Bump when the medicine or interaction prompts change meaningfully; stored with each scan
+export const PROMPT_VERSION = 3;
+
+export interface AnalysisOptions extends AIRequestOptions {
+    forceRefresh?: boolean; // Skip the result cache and ask the model again
 }
 
 /**
- * Checks for contraindications between multiple medicines
+ * Asks the AI about contraindications between multiple medicines. Use
+ * checkInteractions (interactions.ts), which applies the bundled rules first.
+ * @throws AIRequestError with a user-readable message, or AIUnavailableError
  */
-export async function analyzeInteractions(medicines: MedicineAnalysis[]): Promise<InteractionReport> {
+export async function analyzeInteractions(medicines: MedicineAnalysis[], options: AnalysisOptions = {}): Promise<InteractionReport> {
     if (medicines.length < 2) {
         return { hasConflict: false, severity: 'none', description: 'No interactions checked (single medicine).' };
     }
 
     try {
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+        // Same medicines, same answer
+        const cacheKey = await interactionCacheKey(medicines);
+        if (!options.forceRefresh) {
+            const cached = await getCachedAnalysis<InteractionReport>('interactions', cacheKey);
+            if (cached) return cached;
+        }
 
         const medNames = medicines.map(m => `${m.medicineName} (${m.activeIngredients})`).join(', ');
 
         const prompt = `Analyze these medicines for harmful drug interactions (contraindications):
 ${medNames}
 
-Return ONLY a valid JSON object:
+Check every pair. Return ONLY a valid JSON object:
 {
   "hasConflict": boolean,
-  "severity": "high" | "medium" | "low" | "none", 
-  "description": "Short, urgent warning explaining the risk (e.g., 'Aspirin and Warfarin increase bleeding risk'). If no risk, say 'Safe combination'."
+  "severity": "high" | "medium" | "low" | "none",
+  "description": "Short, urgent warning summarizing the worst risk (e.g., 'Aspirin and Warfarin increase bleeding risk'). If no risk, say 'Safe combination'.",
+  "interactions": [
+    {
+      "medicines": ["Aspirin", "Warfarin"],
+      "severity": "high" | "medium" | "low",
+      "mechanism": "How they interact, in plain words",
+      "effect": "What the patient may experience",
+      "action": "What the patient should do"
+    }
+  ]
 }
 
-Start with "⚠️ WARNING:" in description if high risk.`;
+List one entry per interacting pair, or one for a group of 3+ only when the risk needs all of them. Name medicines exactly as given above, without the ingredients. Use an empty list when there is no risk.
+"severity" is the worst entry's severity. Start with "⚠️ WARNING:" in description if high risk.`;
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        const parsed = JSON.parse(cleanText);
+        const text = await requestAI({ task: 'interactions', prompt }, options);
+        const parsed = parseInteractionReport(text);
+        if (!parsed.ok) {
+            throw new AIRequestError('invalid-response', {
+                message: `Invalid interaction report: ${parsed.errors.map(e => e.message).join('; ')}`,
+            });
+        }
 
-        return {
-            hasConflict: parsed.hasConflict || false,
-            severity: parsed.severity || 'none',
-            description: parsed.description || 'Analysis complete.',
-        };
+        await setCachedAnalysis('interactions', cacheKey, parsed.value);
+        return parsed.value;
 
     } catch (error) {
-        console.error('Interaction check failed:', error);
-        return { hasConflict: false, severity: 'none', description: 'Could not check interactions.' };
+        if (error instanceof AIUnavailableError) throw error;
+        const failure = classifyAIError(error);
+        if (failure.category !== 'cancelled') {
+            console.error('Interaction check failed:', failure.category, failure.cause ?? failure);
+        }
+        throw failure;
     }
 }
 
 /**
- * Analyzes an image of medicine using Google Gemini Vision API
+ * Analyzes an image of medicine using the active AI provider (Gemini by default)
  * @param imageUri - Local file URI of the captured image
+ * @param options - Cancellation signal, timeout/retry overrides and forceRefresh to bypass the cache
  * @returns Array of structured information about the identified medicines
+ * @throws AIRequestError with a user-readable message, or AIUnavailableError
  */
-export async function analyzeMedicineImage(imageUri: string): Promise<MedicineAnalysis[]> {
+export async function analyzeMedicineImage(imageUri: string, options: AnalysisOptions = {}): Promise<MedicineAnalysis[]> {
     try {
         // Read the image file as base64
         const base64Image = await FileSystem.readAsStringAsync(imageUri, {
             encoding: 'base64',
         });
 
-        // Initialize the Gemini model (using Gemini 2.0 Flash)
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+        // The same photo (e.g. reopened from history) never costs a second call
+        const cacheKey = await imageCacheKey(base64Image);
+        if (!options.forceRefresh) {
+            const cached = await getCachedAnalysis<MedicineAnalysis[]>('medicine-image', cacheKey);
+            if (cached) return cached;
+        }
 
         // Create the prompt for medicine identification
         const prompt = `You are a medical assistant AI specialized in helping Filipino seniors. Analyze this image of medicine/medication.
@@ -204,6 +251,7 @@ Return ONLY a valid JSON ARRAY of objects. Each object should have these exact k
 - dosage: (Typical dosage information if visible on the packaging)
 - warnings: (Important warnings or precautions)
 - recommendedTime: (If a specific time is mentioned like "8 AM" or "bedtime", return it in "HH:MM" 24-hour format. E.g., "08:00" or "22:00". If no specific time is mentioned, return null)
+- packQuantity: (Number of tablets, capsules or ml in the pack if printed on it, e.g. 30 for "Box of 30 tablets" or 60 for "60 mL". If not visible, set to null)
 - foodWarnings: (Array of foods/drinks to avoid with this medication. Examples: ["Grapefruit", "Alcohol", "Dairy products", "High-Vitamin K foods (spinach, kale)"]. If no specific food interactions, return empty array [])
 - prescribedBy: (Doctor's name if visible on prescription label or packaging. Format: "Dr. [Name]". If not visible, set to null)
 - hospital: (Hospital or clinic name if visible on prescription label. If not visible, set to null)
@@ -231,98 +279,58 @@ IMPORTANT:
 If you cannot clearly identify the medicine, state that in the fields or provide partial info.
 Do NOT use Markdown code blocks. Just return the raw JSON ARRAY string.`;
 
-        // Send the image and prompt to Gemini
-        const result = await model.generateContent([
+        // Send the image and prompt to the provider
+        const text = await requestAI({
+            task: 'medicine-image',
             prompt,
-            {
-                inlineData: {
-                    data: base64Image,
-                    mimeType: 'image/jpeg',
-                },
+            image: {
+                data: base64Image,
+                mimeType: 'image/jpeg',
             },
-        ]);
-
-        const response = await result.response;
-        const text = response.text();
+        }, options);
 
         // Parse the response into structured format
-        return parseMedicineResponse(text);
-    } catch (error: any) {
-        console.error('Error analyzing medicine image:', error);
-        // Show the actual error message for debugging
-        const errorMessage = error?.message || error?.toString() || 'Unknown error';
-        console.error('Detailed error:', errorMessage);
-        throw new Error(`Failed to analyze: ${errorMessage}`);
+        const parsed = parseMedicineResponse(text);
+        if (!parsed.ok) {
+            throw new AIRequestError('invalid-response', {
+                message: 'The medicine label could not be read. Please retake the photo.',
+            });
+        }
+
+        await setCachedAnalysis('medicine-image', cacheKey, parsed.value);
+        return parsed.value;
+    } catch (error) {
+        if (error instanceof AIUnavailableError) throw error;
+        const failure = classifyAIError(error);
+        if (failure.category !== 'cancelled') {
+            console.error('Error analyzing medicine image:', failure.category, failure.cause ?? failure);
+        }
+        throw failure;
     }
 }
 
 /**
- * Parses the AI response into a structured format
+ * Parses the AI response into validated medicines with fraud detection applied.
+ * Never fabricates a medicine: a response that fails validation returns ok: false.
  */
-function parseMedicineResponse(text: string): MedicineAnalysis[] {
-    try {
-        // Clean the text to ensure it's valid JSON
-        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        const parsed = JSON.parse(cleanText);
-
-        const results: MedicineAnalysis[] = [];
-
-        // Handle if AI returns a single object instead of an array
-        const items = Array.isArray(parsed) ? parsed : [parsed];
-
-        for (const item of items) {
-            const medicine: MedicineAnalysis = {
-                medicineName: item.medicineName || 'Unknown Medicine',
-                activeIngredients: item.activeIngredients || 'Not identified',
-                commonUses: item.commonUses || 'Not available',
-                dosage: item.dosage || 'Not visible',
-                warnings: item.warnings || 'Consult a doctor',
-                recommendedTime: item.recommendedTime || undefined,
-                foodWarnings: Array.isArray(item.foodWarnings) ? item.foodWarnings : [],
-                prescribedBy: item.prescribedBy || undefined,
-                hospital: item.hospital || undefined,
-                signatureVerified: item.signatureVerified || undefined,
-                licenseNumber: item.licenseNumber || undefined,
-                patientName: item.patientName || undefined,
-                patientAge: item.patientAge || undefined,
-                patientSex: item.patientSex || undefined,
-                affordability: item.affordability ? {
-                    genericAlternative: item.affordability.genericAlternative || null,
-                    estimatedSavings: item.affordability.estimatedSavings || null,
-                    seniorDiscountEligible: item.affordability.seniorDiscountEligible !== false, // default true
-                    philHealthCoverage: item.affordability.philHealthCoverage || null,
-                    governmentPrograms: Array.isArray(item.affordability.governmentPrograms) ? item.affordability.governmentPrograms : [],
-                } : {
-                    genericAlternative: null,
-                    estimatedSavings: null,
-                    seniorDiscountEligible: true,
-                    philHealthCoverage: null,
-                    governmentPrograms: [],
-                },
-                fraudDetection: undefined, // Will be calculated next
-            };
-
-            // Calculate fraud detection if prescription data exists
-            if (medicine.prescribedBy || medicine.hospital || medicine.licenseNumber || medicine.signatureVerified) {
-                medicine.fraudDetection = calculateAuthenticityScore(medicine);
-            }
+export function parseMedicineResponse(text: string): ParseResult<MedicineAnalysis[]> {
+    const result = parseMedicineList(text);
+    if (!result.ok) {
+        console.error('Failed to parse AI medicine response:', result.errors, text);
+        return result;
+    }
+    if (result.warnings.length > 0) {
+        console.warn('AI medicine response needed corrections:', result.warnings);
+    }
 
-            results.push(medicine);
+    for (const medicine of result.value) {
+        // Calculate fraud detection if prescription data exists
+        if (medicine.prescribedBy || medicine.hospital || medicine.licenseNumber || medicine.signatureVerified) {
+            medicine.fraudDetection = calculateAuthenticityScore(medicine);
         }
-
-        return results;
-    } catch (e) {
-        console.error('Failed to parse Gemini JSON response:', text);
-        // Fallback to simple text extraction if JSON parsing fails
-        return [{
-            medicineName: 'Error parsing results',
-            activeIngredients: 'Could not structure the data',
-            commonUses: 'Please try again',
-            dosage: '',
-            warnings: text.substring(0, 100) + '...', // Show raw text snippet
-            foodWarnings: [],
-        }];
     }
+
+    return result;
 }
 
 export interface PersonInfo {
@@ -332,14 +340,12 @@ export interface PersonInfo {
 }
 
 /**
- * Extract person information from a voice transcript using Gemini AI
+ * Extract person information from a voice transcript using the active AI provider
  * @param transcript - The transcribed voice note about a person
  * @returns Extracted name, relationship, and key details
  */
 export async function extractPersonInfo(transcript: string): Promise<PersonInfo> {
     try {
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
         const prompt = `Extract person information from this voice note. Return ONLY a JSON object with these fields:
 - name: The person's name (first name, or full name if given)
 - relationship: How they relate to the speaker (e.g., "neighbor", "nurse's son", "grandchild")
@@ -350,9 +356,8 @@ Voice note: "${transcript}"
 Respond with ONLY valid JSON, no markdown, no explanation. Example:
 {"name": "Mark", "relationship": "nurse's son", "details": "likes basketball"}`;
 
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text().trim();
+        const response = await requestAI({ task: 'person-info', prompt });
+        const text = response.trim();
 
         // Clean up response - remove markdown code blocks if present
         const cleanJson = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
@@ -0,0 +1,41 @@
+import { GoogleGenerativeAI, Part } from '@google/generative-ai';
+import type { AIGenerateOptions, AIProvider, AIRequest } from './aiProvider';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model: string;
+    baseUrl?: string; // Overrides https://generativelanguage.googleapis.com (mock server)
+}
+
+/**
+ * Google Gemini implementation of AIProvider
+ */
+export function createGeminiProvider({ apiKey, model, baseUrl }: GeminiProviderOptions): AIProvider {
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    return {
+        id: 'gemini',
+        model,
+        async generate(request: AIRequest, options?: AIGenerateOptions): Promise<string> {
+            // The task header lets the local mock server pick a canned response
+            const generativeModel = genAI.getGenerativeModel(
+                { model },
+                baseUrl ? { baseUrl, customHeaders: { 'x-medimate-task': request.task } } : undefined,
+            );
+
+            const parts: (string | Part)[] = [request.prompt];
+            if (request.image) {
+                parts.push({
+                    inlineData: {
+                        data: request.image.data,
+                        mimeType: request.image.mimeType,
+                    },
+                });
+            }
+
+            const result = await generativeModel.generateContent(parts, { signal: options?.signal });
+            const response = await result.response;
+            return response.text();
+        },
+    };
+}
@@ -0,0 +1,13 @@
+/**
+ * FNV-1a 32-bit hash of a string, as 8 hex characters.
+ * Not cryptographic; used to key fixtures and caches.
+ * Keep in sync with hashString in scripts/mock-ai-server.js.
+ */
+export function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
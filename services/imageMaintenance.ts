@@ -0,0 +1,75 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { collectUnusedImages, formatBytes, isStoredImage, persistImage } from './imageStore';
+import { readPendingMatches } from './medicationMatching';
+import { getAllMedications, updateMedication } from './medicationStorage';
+import { readPendingScans } from './scanQueue';
+import { getAllScans, updateScan } from './storage';
+
+/**
+ * Every image URI a scan, medication, queued scan or match waiting for the
+ * user still points at. Throws if any of them can't be read, so nothing is
+ * deleted on a partial list.
+ */
+async function getReferencedImageUris(): Promise<string[]> {
+    const [scans, medications, pending, matches] = await Promise.all([
+        getAllScans(), getAllMedications(), readPendingScans(), readPendingMatches(),
+    ]);
+    return [...scans, ...medications, ...pending, ...matches].map(item => item.imageUri);
+}
+
+/**
+ * Move images still referenced by their original cache URI (records saved
+ * before the image store existed) into the store, if the file is still there.
+ */
+export async function adoptExternalImages(): Promise<number> {
+    const persisted = new Map<string, string>();
+
+    const adopt = async (uri: string): Promise<string | null> => {
+        if (isStoredImage(uri)) return null;
+        if (persisted.has(uri)) return persisted.get(uri)!;
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists) return null;
+        const storedUri = await persistImage(uri);
+        persisted.set(uri, storedUri);
+        return storedUri;
+    };
+
+    for (const scan of await getAllScans()) {
+        const storedUri = await adopt(scan.imageUri);
+        if (storedUri) await updateScan(scan.id, { imageUri: storedUri });
+    }
+    for (const medication of await getAllMedications()) {
+        const storedUri = await adopt(medication.imageUri);
+        if (storedUri) await updateMedication(medication.id, { imageUri: storedUri });
+    }
+
+    return persisted.size;
+}
+
+/**
+ * Delete stored images nothing references any more; returns bytes freed.
+ * Deletes nothing when the records can't all be read.
+ */
+export async function cleanUpImages(): Promise<number> {
+    try {
+        return await collectUnusedImages(await getReferencedImageUris());
+    } catch (error) {
+        console.error('Failed to clean up images:', error);
+        return 0;
+    }
+}
+
+/**
+ * Startup housekeeping: adopt old cache images, then drop unreferenced ones
+ */
+export async function runImageMaintenance(): Promise<void> {
+    try {
+        const adopted = await adoptExternalImages();
+        const freed = await cleanUpImages();
+        if (adopted || freed) {
+            console.log(`Image store: adopted ${adopted} image(s), freed ${formatBytes(freed)}`);
+        }
+    } catch (error) {
+        console.error('Image maintenance failed:', error);
+    }
+}
@@ -0,0 +1,134 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+export const IMAGE_DIRECTORY = `${FileSystem.documentDirectory}images/`;
+const THUMBNAIL_DIRECTORY = `${IMAGE_DIRECTORY}thumbnails/`;
+const THUMBNAIL_WIDTH = 240;
+// Unreferenced images younger than this are kept: persistImage runs before
+// the scan or medication pointing at the image is saved
+const UNUSED_IMAGE_GRACE_MS = 10 * 60 * 1000;
+
+export interface ImageStorageUsage {
+    imageCount: number;
+    imageBytes: number;
+    thumbnailBytes: number;
+    totalBytes: number;
+}
+
+const fileName = (uri: string) => uri.substring(uri.lastIndexOf('/') + 1);
+
+/**
+ * Whether a URI already lives in the app-owned image directory
+ */
+export function isStoredImage(uri: string): boolean {
+    return uri.startsWith(IMAGE_DIRECTORY);
+}
+
+/**
+ * Thumbnail for a stored image. Images outside the store (older records,
+ * or a photo not saved yet) are their own thumbnail.
+ */
+export function getThumbnailUri(imageUri: string): string {
+    return isStoredImage(imageUri) ? `${THUMBNAIL_DIRECTORY}${fileName(imageUri)}` : imageUri;
+}
+
+async function ensureDirectories(): Promise<void> {
+    await FileSystem.makeDirectoryAsync(THUMBNAIL_DIRECTORY, { intermediates: true });
+}
+
+async function createThumbnail(sourceUri: string, thumbnailUri: string): Promise<void> {
+    try {
+        const context = ImageManipulator.manipulate(sourceUri);
+        context.resize({ width: THUMBNAIL_WIDTH });
+        const image = await context.renderAsync();
+        const result = await image.saveAsync({ compress: 0.7, format: SaveFormat.JPEG });
+        await FileSystem.moveAsync({ from: result.uri, to: thumbnailUri });
+    } catch (error) {
+        // A full-size copy still beats a broken thumbnail
+        console.error('Failed to create thumbnail:', error);
+        await FileSystem.copyAsync({ from: sourceUri, to: thumbnailUri });
+    }
+}
+
+/**
+ * Copy a captured photo (usually a cache URI the OS may purge) into the
+ * document directory and generate its thumbnail. Returns the stored URI;
+ * already-stored images are returned unchanged.
+ */
+export async function persistImage(uri: string): Promise<string> {
+    if (isStoredImage(uri)) return uri;
+
+    await ensureDirectories();
+    const storedUri = `${IMAGE_DIRECTORY}${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`;
+    await FileSystem.copyAsync({ from: uri, to: storedUri });
+    await createThumbnail(storedUri, getThumbnailUri(storedUri));
+    return storedUri;
+}
+
+/**
+ * Delete stored images (and thumbnails) whose URI is not in `referencedUris`,
+ * unless they were written in the last UNUSED_IMAGE_GRACE_MS.
+ * Returns the number of bytes freed.
+ */
+export async function collectUnusedImages(referencedUris: string[]): Promise<number> {
+    const info = await FileSystem.getInfoAsync(IMAGE_DIRECTORY);
+    if (!info.exists) return 0;
+
+    const referenced = new Set(referencedUris.filter(isStoredImage).map(fileName));
+
+    let freed = 0;
+    const files = await FileSystem.readDirectoryAsync(IMAGE_DIRECTORY);
+    for (const name of files) {
+        if (referenced.has(name)) continue;
+
+        const imageUri = `${IMAGE_DIRECTORY}${name}`;
+        const file = await FileSystem.getInfoAsync(imageUri);
+        if (!file.exists || file.isDirectory) continue;
+        if (Date.now() - file.modificationTime * 1000 < UNUSED_IMAGE_GRACE_MS) continue;
+
+        const thumbnail = await FileSystem.getInfoAsync(getThumbnailUri(imageUri));
+        freed += file.size + (thumbnail.exists ? thumbnail.size : 0);
+        await FileSystem.deleteAsync(imageUri, { idempotent: true });
+        await FileSystem.deleteAsync(getThumbnailUri(imageUri), { idempotent: true });
+    }
+
+    return freed;
+}
+
+async function directorySize(directory: string): Promise<{ count: number; bytes: number }> {
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) return { count: 0, bytes: 0 };
+
+    let count = 0;
+    let bytes = 0;
+    for (const name of await FileSystem.readDirectoryAsync(directory)) {
+        const file = await FileSystem.getInfoAsync(`${directory}${name}`);
+        if (file.exists && !file.isDirectory) {
+            count++;
+            bytes += file.size;
+        }
+    }
+    return { count, bytes };
+}
+
+/**
+ * Disk space used by stored images and their thumbnails
+ */
+export async function getImageStorageUsage(): Promise<ImageStorageUsage> {
+    const [images, thumbnails] = await Promise.all([directorySize(IMAGE_DIRECTORY), directorySize(THUMBNAIL_DIRECTORY)]);
+    return {
+        imageCount: images.count,
+        imageBytes: images.bytes,
+        thumbnailBytes: thumbnails.bytes,
+        totalBytes: images.bytes + thumbnails.bytes,
+    };
+}
+
+/**
+ * Human-readable size, e.g. "4.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,179 @@
+import { BRANDS, DRUG_CLASSES, DRUGS, FORM_WORDS, SALT_WORDS } from './drugDictionary';
+import type { MedicineAnalysis } from './gemini';
+import type { MedicationRecord } from './medicationStorage';
+
+export interface TherapeuticDuplicate {
+    kind: 'ingredient' | 'class';       // Same ingredient twice, or two drugs from one class
+    key: string;                        // Canonical ingredient or DRUG_CLASSES id
+    label: string;                      // e.g. "paracetamol", "NSAIDs"
+    medications: MedicationRecord[];
+    explanation: string;                // Why they overlap, for the user
+}
+
+// Strengths, with an optional per-volume part: "500mg", "5 mg/5 ml", "0.1%"
+const STRENGTH_PATTERN = /\d+(?:[.,]\d+)?\s*(?:(?:mg|mcg|µg|ug|g|ml|iu|units?)(?![a-z])|%)?(?:\s*\/\s*(?:\d+(?:[.,]\d+)?\s*)?(?:ml|l|tab(?:let)?|cap(?:sule)?|dose)(?![a-z]))?/gi;
+// Between the ingredients of a combination product
+const SEPARATOR_PATTERN = /[,;+&/]|\band\b|\bwith\b|\bplus\b/i;
+
+const FORMS = new Set(FORM_WORDS);
+const SALTS = new Set(SALT_WORDS);
+// What a label that gave no ingredients reads as (cleaned), e.g. the schema's "Not identified"
+const PLACEHOLDERS = new Set(['not identified', 'not available', 'not visible', 'not specified', 'unknown', 'none', 'n a', 'na']);
+
+/**
+ * Lowercase words only, dosage-form words dropped
+ */
+function cleanName(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !FORMS.has(word))
+        .join(' ');
+}
+
+/**
+ * The name without salt and hydrate words, unless that leaves nothing
+ */
+function stripSalts(name: string): string {
+    const words = name.split(' ').filter(word => !SALTS.has(word));
+    return words.length ? words.join(' ') : name;
+}
+
+// Cleaned generic name or synonym -> canonical generic name
+const GENERIC_INDEX = new Map<string, string>();
+for (const [name, entry] of Object.entries(DRUGS)) {
+    for (const alias of [name, ...entry.synonyms ?? []]) {
+        GENERIC_INDEX.set(cleanName(alias), name);
+    }
+}
+
+// Cleaned brand name -> canonical ingredients
+const BRAND_INDEX = new Map(Object.entries(BRANDS).map(([brand, generics]) => [cleanName(brand), generics]));
+
+/**
+ * Canonical ingredients for one cleaned name, trying it as is and then
+ * without its salt; null when the dictionary does not know it
+ */
+function lookUp(name: string): string[] | null {
+    for (const candidate of [name, stripSalts(name)]) {
+        const generic = GENERIC_INDEX.get(candidate);
+        if (generic) return [generic];
+        const brand = BRAND_INDEX.get(candidate);
+        if (brand) return brand;
+    }
+    return null;
+}
+
+/**
+ * Canonical ingredients in one part of a list, e.g. "Paracetamol (Acetaminophen)"
+ * or "Losartan Potassium". A part the dictionary does not know is kept as its
+ * cleaned name without salts, so it still matches itself.
+ */
+function resolvePart(part: string): string[] {
+    const outside = cleanName(part.replace(/\([^)]*\)/g, ' '));
+    const inside = [...part.matchAll(/\(([^)]*)\)/g)].map(match => cleanName(match[1]));
+
+    for (const candidate of [outside, ...inside]) {
+        const found = candidate && lookUp(candidate);
+        if (found) return found;
+    }
+    const fallback = stripSalts(outside || inside[0] || '');
+    return fallback && !PLACEHOLDERS.has(fallback) ? [fallback] : [];
+}
+
+/**
+ * Canonical generic names in an ingredient list, sorted and without repeats.
+ * Handles synonyms (acetaminophen -> paracetamol), salts, strengths, dosage
+ * forms, combinations ("Amoxicillin + Clavulanic acid") and brand names.
+ * Placeholders such as "Not identified" or "N/A" give no ingredients.
+ */
+export function parseIngredients(text?: string): string[] {
+    if (PLACEHOLDERS.has(cleanName(text ?? ''))) return [];
+    const parts = (text ?? '').replace(STRENGTH_PATTERN, ' ').split(SEPARATOR_PATTERN);
+    return [...new Set(parts.flatMap(resolvePart))].sort();
+}
+
+/**
+ * Canonical ingredients of a scanned medicine, falling back to its name
+ * (a brand or a generic) when the label gave no ingredients
+ */
+export function getMedicineIngredients(medicine: Pick<MedicineAnalysis, 'medicineName' | 'activeIngredients'>): string[] {
+    const ingredients = parseIngredients(medicine.activeIngredients);
+    return ingredients.length ? ingredients : parseIngredients(medicine.medicineName);
+}
+
+/**
+ * DRUG_CLASSES ids of a canonical ingredient; none when it is unknown
+ */
+export function getDrugClasses(ingredient: string): string[] {
+    return DRUGS[ingredient]?.classes ?? [];
+}
+
+/**
+ * A medicine's canonical ingredients plus "class:<id>" for each of their
+ * classes, the terms interaction and Medical ID rules are written in
+ */
+export function getMedicineTerms(medicine: Pick<MedicineAnalysis, 'medicineName' | 'activeIngredients'>): Set<string> {
+    const ingredients = getMedicineIngredients(medicine);
+    return new Set([...ingredients, ...ingredients.flatMap(getDrugClasses).map(drugClass => `class:${drugClass}`)]);
+}
+
+/**
+ * "A", "A and B", "A, B and C"
+ */
+function listNames(names: string[]): string {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * Medications that double up: the same ingredient in more than one of them
+ * (including inside combination products), or different drugs from one class
+ * such as two NSAIDs
+ */
+export function findTherapeuticDuplicates(medications: MedicationRecord[]): TherapeuticDuplicate[] {
+    const byIngredient = new Map<string, MedicationRecord[]>();
+    const byClass = new Map<string, { med: MedicationRecord; ingredient: string }[]>();
+
+    for (const med of medications) {
+        for (const ingredient of getMedicineIngredients(med.analysis)) {
+            byIngredient.set(ingredient, [...byIngredient.get(ingredient) ?? [], med]);
+            for (const drugClass of getDrugClasses(ingredient)) {
+                byClass.set(drugClass, [...byClass.get(drugClass) ?? [], { med, ingredient }]);
+            }
+        }
+    }
+
+    const duplicates: TherapeuticDuplicate[] = [];
+    for (const [ingredient, meds] of byIngredient) {
+        if (meds.length < 2) continue;
+        const names = listNames(meds.map(med => med.analysis.medicineName));
+        duplicates.push({
+            kind: 'ingredient',
+            key: ingredient,
+            label: ingredient,
+            medications: meds,
+            explanation: [
+                `${names} ${meds.length > 2 ? 'all' : 'both'} contain ${ingredient}, so taking them together adds up to more than any one label intends.`,
+                DRUGS[ingredient]?.overdose,
+            ].filter(Boolean).join(' '),
+        });
+    }
+
+    for (const [drugClass, members] of byClass) {
+        // The same ingredient twice is reported above
+        const meds = [...new Set(members.map(member => member.med))];
+        if (meds.length < 2 || new Set(members.map(member => member.ingredient)).size < 2) continue;
+
+        const { label, overlap } = DRUG_CLASSES[drugClass];
+        const names = listNames(members.map(({ med, ingredient }) => `${med.analysis.medicineName} (${ingredient})`));
+        duplicates.push({
+            kind: 'class',
+            key: drugClass,
+            label,
+            medications: meds,
+            explanation: `${names} are ${label}. ${overlap}`,
+        });
+    }
+    return duplicates;
+}
@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { InteractionReport } from './gemini';
+import { getMedicineIngredients } from './ingredients';
+import { checkInteractions } from './interactions';
+import { getActiveMedications, subscribeToMedications } from './medicationStorage';
+
+const REVIEW_KEY = 'medication_interaction_review';
+
+// The standing interaction check of everything in My Medications
+export interface InteractionReview {
+    report: InteractionReport | null; // null with fewer than two active medications
+    medicationNames: string[];        // The active medications that were checked
+    reviewedAt: number;
+    listKey: string;                  // Names and ingredients checked; an unchanged list is not checked again. Empty when unchecked.
+}
+
+const listeners = new Set<(review: InteractionReview) => void>();
+
+let reviewing: Promise<void> | null = null;
+let reviewAgain = false;
+let forceNext = false;
+
+/**
+ * The last review, or null if the list has never been reviewed
+ */
+export async function getInteractionReview(): Promise<InteractionReview | null> {
+    try {
+        const data = await AsyncStorage.getItem(REVIEW_KEY);
+        return data ? JSON.parse(data) : null;
+    } catch (error) {
+        console.error('Error loading interaction review:', error);
+        return null;
+    }
+}
+
+async function runReview(force: boolean): Promise<void> {
+    try {
+        const active = await getActiveMedications();
+        const listKey = active
+            .map(med => `${med.analysis.medicineName}:${getMedicineIngredients(med.analysis).join('+')}`)
+            .sort()
+            .join('|');
+
+        const previous = await getInteractionReview();
+        if (!force && previous?.listKey === listKey) return;
+
+        const report = active.length > 1 ? await checkInteractions(active.map(med => med.analysis), { forceRefresh: force }) : null;
+        const review: InteractionReview = {
+            report,
+            medicationNames: active.map(med => med.analysis.medicineName),
+            reviewedAt: Date.now(),
+            listKey: report?.unchecked ? '' : listKey, // Try the AI again next time
+        };
+        await AsyncStorage.setItem(REVIEW_KEY, JSON.stringify(review));
+        listeners.forEach(listener => listener(review));
+    } catch (error) {
+        console.error('Error reviewing medications:', error);
+    }
+}
+
+/**
+ * Check the whole active list for interactions if it changed since the last
+ * review (or always, with force). Runs one at a time; a call made while
+ * running reviews once more afterwards.
+ */
+export function reviewActiveMedications(force = false): Promise<void> {
+    forceNext = forceNext || force;
+    if (reviewing) {
+        reviewAgain = true;
+        return reviewing;
+    }
+    reviewing = (async () => {
+        do {
+            reviewAgain = false;
+            const runForced = forceNext;
+            forceNext = false;
+            await runReview(runForced);
+        } while (reviewAgain);
+    })().finally(() => {
+        reviewing = null;
+    });
+    return reviewing;
+}
+
+/**
+ * Re-review My Medications whenever a medication is added, changed or
+ * removed. Returns an unsubscribe function; call once from the app root.
+ */
+export function startInteractionReview(): () => void {
+    reviewActiveMedications();
+    return subscribeToMedications(() => reviewActiveMedications());
+}
+
+/**
+ * Be notified with each new review
+ */
+export function subscribeToInteractionReview(listener: (review: InteractionReview) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
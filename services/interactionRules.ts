@@ -0,0 +1,255 @@
+// Offline drug-interaction rules for medicines common in the Philippines (see
+// interactions.ts). Each side lists canonical ingredients from
+// drugDictionary.ts, or "class:<id>" for a whole DRUG_CLASSES class. A rule
+// applies when one medicine matches one side and a different medicine the
+// other. Doubled-up ingredients and same-class pairs are found separately by
+// findTherapeuticDuplicates.
+
+import type { DrugInteraction } from './gemini';
+
+export interface InteractionRule {
+    between: [string[], string[]];
+    severity: DrugInteraction['severity'];
+    mechanism: string;
+    effect: string;
+    action: string;
+}
+
+// NSAIDs taken for pain; low-dose aspirin is a blood thinner and has its own rules
+const PAIN_NSAIDS = ['ibuprofen', 'mefenamic acid', 'naproxen', 'diclofenac', 'celecoxib', 'etoricoxib', 'meloxicam', 'ketorolac'];
+const ANTACIDS_AND_MINERALS = ['aluminum hydroxide', 'magnesium hydroxide', 'calcium carbonate', 'ferrous sulfate', 'zinc'];
+const SEDATING_ANTIHISTAMINES = ['chlorphenamine', 'diphenhydramine', 'hydroxyzine'];
+const BLOOD_PRESSURE_CLASSES = ['class:ace-inhibitor', 'class:arb', 'class:beta-blocker', 'class:calcium-channel-blocker', 'class:diuretic'];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+    // Bleeding
+    {
+        between: [['warfarin', 'clopidogrel', 'cilostazol'], PAIN_NSAIDS],
+        severity: 'high',
+        mechanism: 'The blood thinner slows clotting, and the pain reliever irritates the stomach lining and weakens platelets.',
+        effect: 'Much higher risk of serious bleeding, especially in the stomach.',
+        action: 'Avoid taking these together. Use paracetamol for pain instead and ask your doctor.',
+    },
+    {
+        between: [['warfarin'], ['aspirin']],
+        severity: 'high',
+        mechanism: 'Both slow blood clotting in different ways.',
+        effect: 'Much higher risk of serious bleeding.',
+        action: 'Only take both if your doctor prescribed them together, and watch for bleeding.',
+    },
+    {
+        between: [['clopidogrel', 'cilostazol'], ['aspirin']],
+        severity: 'medium',
+        mechanism: 'Both stop platelets from sticking together. Doctors often prescribe them together on purpose.',
+        effect: 'Bruising and bleeding happen more easily.',
+        action: 'Keep taking both as prescribed, but report black stools or unusual bleeding. Do not add other pain relievers.',
+    },
+    {
+        between: [['aspirin'], PAIN_NSAIDS],
+        severity: 'medium',
+        mechanism: 'The pain reliever can block low-dose aspirin from protecting the heart, and both irritate the stomach.',
+        effect: 'Less heart protection and a higher risk of stomach bleeding.',
+        action: 'Use paracetamol for pain if you can. Otherwise take aspirin at least 30 minutes before the pain reliever.',
+    },
+    {
+        between: [['warfarin'], ['co-trimoxazole', 'metronidazole']],
+        severity: 'high',
+        mechanism: 'The antibiotic slows how the body clears warfarin, so warfarin builds up.',
+        effect: 'Blood becomes too thin; unusual bruising or bleeding can follow within days.',
+        action: 'Tell your doctor before starting the antibiotic. Your INR may need checking.',
+    },
+    {
+        between: [['warfarin'], ['class:fluoroquinolone', 'class:macrolide', 'allopurinol']],
+        severity: 'medium',
+        mechanism: 'This medicine can raise warfarin levels in the blood.',
+        effect: 'Higher risk of bruising and bleeding.',
+        action: 'Ask your doctor whether your INR should be checked while taking both.',
+    },
+    {
+        between: [['class:blood-thinner'], ['class:ssri']],
+        severity: 'medium',
+        mechanism: 'Antidepressants of this type also make platelets less sticky.',
+        effect: 'Higher risk of bleeding, including nosebleeds and stomach bleeding.',
+        action: 'Watch for unusual bleeding or black stools and tell your doctor.',
+    },
+    {
+        between: [['class:ssri'], ['class:nsaid']],
+        severity: 'medium',
+        mechanism: 'Both affect platelets, and the pain reliever irritates the stomach.',
+        effect: 'Higher risk of stomach bleeding.',
+        action: 'Prefer paracetamol for pain. Ask your doctor if you need an NSAID often.',
+    },
+    {
+        between: [['class:corticosteroid'], ['class:nsaid']],
+        severity: 'medium',
+        mechanism: 'Both weaken the stomach lining.',
+        effect: 'Higher risk of stomach ulcers and bleeding.',
+        action: 'Take with food and ask your doctor about stomach protection.',
+    },
+    {
+        between: [['clopidogrel'], ['omeprazole', 'esomeprazole']],
+        severity: 'medium',
+        mechanism: 'These stomach medicines block the enzyme that turns clopidogrel into its active form.',
+        effect: 'Clopidogrel may not protect against clots as well as it should.',
+        action: 'Ask your doctor about switching to pantoprazole or another stomach medicine.',
+    },
+
+    // Blood pressure, kidneys and potassium
+    {
+        between: [['class:ace-inhibitor'], ['class:arb']],
+        severity: 'high',
+        mechanism: 'Both block the same blood-pressure hormone system.',
+        effect: 'Blood pressure can drop too far, potassium can rise dangerously and the kidneys can be harmed.',
+        action: 'Do not take both unless your doctor has specifically prescribed them together.',
+    },
+    {
+        between: [['class:ace-inhibitor', 'class:arb'], ['spironolactone']],
+        severity: 'high',
+        mechanism: 'Both make the body hold on to potassium.',
+        effect: 'Potassium can rise to levels that disturb the heartbeat.',
+        action: 'Ask your doctor about regular potassium blood tests.',
+    },
+    {
+        between: [PAIN_NSAIDS, ['class:ace-inhibitor', 'class:arb', 'class:diuretic']],
+        severity: 'medium',
+        mechanism: 'The pain reliever makes the body hold salt and water and reduces blood flow to the kidneys.',
+        effect: 'The blood pressure medicine works less well, and the kidneys can be strained.',
+        action: 'Avoid regular use of the pain reliever. Use paracetamol if you can.',
+    },
+    {
+        between: [['diltiazem', 'verapamil'], ['class:beta-blocker']],
+        severity: 'high',
+        mechanism: 'Both slow the heart\'s electrical signals.',
+        effect: 'The heartbeat can become dangerously slow, with dizziness or fainting.',
+        action: 'Only take both if your doctor prescribed them together, and report dizziness right away.',
+    },
+    {
+        between: [['class:decongestant'], BLOOD_PRESSURE_CLASSES],
+        severity: 'medium',
+        mechanism: 'Decongestants narrow blood vessels and raise blood pressure.',
+        effect: 'Blood pressure can go up, undoing the blood pressure medicine.',
+        action: 'Choose a cold medicine without phenylephrine or pseudoephedrine. Ask your pharmacist.',
+    },
+    {
+        between: [['class:corticosteroid'], ['furosemide', 'hydrochlorothiazide', 'indapamide']],
+        severity: 'low',
+        mechanism: 'Both make the body lose potassium.',
+        effect: 'Low potassium can cause muscle cramps, weakness and an uneven heartbeat.',
+        action: 'Ask your doctor whether your potassium should be checked.',
+    },
+
+    // Muscles and cholesterol medicines
+    {
+        between: [['simvastatin', 'atorvastatin'], ['clarithromycin', 'erythromycin']],
+        severity: 'high',
+        mechanism: 'The antibiotic stops the body from breaking down the cholesterol medicine.',
+        effect: 'Statin levels rise and can cause severe muscle damage.',
+        action: 'Ask your doctor about pausing the statin while you take the antibiotic.',
+    },
+    {
+        between: [['simvastatin'], ['diltiazem', 'verapamil', 'amlodipine']],
+        severity: 'medium',
+        mechanism: 'This blood pressure medicine slows how the body clears simvastatin.',
+        effect: 'Higher risk of muscle pain and weakness.',
+        action: 'Simvastatin usually needs a lower dose with it. Ask your doctor.',
+    },
+    {
+        between: [['colchicine'], ['clarithromycin', 'erythromycin']],
+        severity: 'high',
+        mechanism: 'The antibiotic stops the body from clearing colchicine.',
+        effect: 'Colchicine can build up to toxic levels, causing severe diarrhea and muscle and nerve damage.',
+        action: 'Do not take both. Ask your doctor for another antibiotic.',
+    },
+    {
+        between: [['colchicine'], ['diltiazem', 'verapamil', 'class:statin']],
+        severity: 'medium',
+        mechanism: 'Both can affect muscles, and some slow how colchicine is cleared.',
+        effect: 'Higher risk of muscle pain and weakness.',
+        action: 'Tell your doctor about any muscle pain while taking both.',
+    },
+    {
+        between: [['clarithromycin', 'erythromycin'], ['amlodipine', 'felodipine', 'nifedipine']],
+        severity: 'medium',
+        mechanism: 'The antibiotic slows how the body clears the blood pressure medicine.',
+        effect: 'Blood pressure can drop, with dizziness and swollen ankles.',
+        action: 'Stand up slowly and tell your doctor if you feel faint.',
+    },
+
+    // Absorption
+    {
+        between: [['class:fluoroquinolone', 'doxycycline'], ANTACIDS_AND_MINERALS],
+        severity: 'medium',
+        mechanism: 'Minerals in antacids and supplements bind the antibiotic in the stomach.',
+        effect: 'The antibiotic is poorly absorbed and may not clear the infection.',
+        action: 'Take the antibiotic 2 hours before or 6 hours after the antacid or supplement.',
+    },
+    {
+        between: [['levothyroxine'], [...ANTACIDS_AND_MINERALS, 'class:ppi']],
+        severity: 'low',
+        mechanism: 'These reduce how much thyroid hormone the body absorbs.',
+        effect: 'Thyroid levels can drop, with tiredness and weight gain.',
+        action: 'Take levothyroxine alone on an empty stomach, at least 4 hours apart from these.',
+    },
+
+    // Drowsiness and breathing
+    {
+        between: [['class:opioid'], ['class:benzodiazepine']],
+        severity: 'high',
+        mechanism: 'Both slow the brain and breathing.',
+        effect: 'Severe drowsiness, slowed breathing and, rarely, death.',
+        action: 'Do not take both unless your doctor prescribed them together. Never add alcohol.',
+    },
+    {
+        between: [['class:opioid', 'class:benzodiazepine'], SEDATING_ANTIHISTAMINES],
+        severity: 'medium',
+        mechanism: 'Both cause drowsiness, and the effects add up.',
+        effect: 'Heavy drowsiness, confusion and a higher risk of falls.',
+        action: 'Avoid driving. Ask your pharmacist for a non-drowsy antihistamine.',
+    },
+    {
+        between: [['tramadol'], ['class:ssri']],
+        severity: 'high',
+        mechanism: 'Both raise serotonin levels in the brain.',
+        effect: 'Risk of serotonin syndrome (agitation, fever, shaking) and seizures.',
+        action: 'Ask your doctor before taking both. Get help for fever, stiffness or confusion.',
+    },
+
+    // Blood sugar
+    {
+        between: [['class:sulfonylurea'], ['co-trimoxazole', 'class:fluoroquinolone', 'clarithromycin']],
+        severity: 'medium',
+        mechanism: 'The antibiotic strengthens the effect of the diabetes medicine.',
+        effect: 'Blood sugar can drop too low, with shaking, sweating and confusion.',
+        action: 'Check your blood sugar more often and keep a sweet snack nearby.',
+    },
+    {
+        between: [['class:sulfonylurea', 'metformin'], ['class:corticosteroid']],
+        severity: 'low',
+        mechanism: 'Steroids raise blood sugar.',
+        effect: 'Blood sugar can run higher than usual.',
+        action: 'Check your blood sugar more often while taking the steroid.',
+    },
+    {
+        between: [['class:sulfonylurea'], ['propranolol', 'atenolol', 'metoprolol']],
+        severity: 'low',
+        mechanism: 'Beta blockers can hide the warning signs of low blood sugar.',
+        effect: 'A low blood sugar may not cause the usual shaking or fast heartbeat.',
+        action: 'Check your blood sugar if you feel unwell or sweaty.',
+    },
+
+    // Other
+    {
+        between: [['class:fluoroquinolone'], ['class:corticosteroid']],
+        severity: 'medium',
+        mechanism: 'Both can weaken tendons.',
+        effect: 'Higher risk of tendon pain or rupture, especially in older adults.',
+        action: 'Stop and call your doctor if you get heel or ankle pain.',
+    },
+    {
+        between: [['allopurinol'], ['amoxicillin', 'ampicillin']],
+        severity: 'low',
+        mechanism: 'Together they make skin reactions more likely.',
+        effect: 'A skin rash is more common.',
+        action: 'Tell your doctor if a rash appears.',
+    },
+];
@@ -0,0 +1,130 @@
+import { AnalysisOptions, analyzeInteractions, DrugInteraction, InteractionReport, InteractionSource, MedicineAnalysis } from './gemini';
+import { getMedicineTerms } from './ingredients';
+import { INTERACTION_RULES } from './interactionRules';
+
+export const INTERACTION_SOURCE_LABELS: Record<InteractionSource, string> = {
+    local: 'Offline rules',
+    ai: 'AI',
+    both: 'Offline rules + AI',
+};
+
+const SEVERITY_RANK: Record<InteractionReport['severity'], number> = { high: 3, medium: 2, low: 1, none: 0 };
+
+// Shown when the AI could not run and none of the bundled rules apply
+const UNCHECKED_DESCRIPTION = 'Not fully checked: the AI check could not run. None of the offline interaction rules apply, but ask your pharmacist before taking these together.';
+// Shown when narrowReport leaves no pairs
+const NARROWED_CLEAR_DESCRIPTION = 'No known interactions with the other medicines checked.';
+
+const bySeverity = (a: DrugInteraction, b: DrugInteraction) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+
+const nameKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Medicine names in any order and spelling, for telling whether two
+ * findings are about the same medicines
+ */
+function namesKey(names: string[]): string {
+    return names.map(nameKey).sort().join('|');
+}
+
+/**
+ * A report's summary line taken from its worst pair
+ */
+function describeWorst(worst: DrugInteraction): string {
+    return `${worst.severity === 'high' ? '⚠️ WARNING: ' : ''}${worst.medicines.join(' and ')}: ${worst.effect}`;
+}
+
+/**
+ * Pairs among the medicines that the bundled interaction rules know about,
+ * worst first. Works offline.
+ */
+export function checkLocalInteractions(medicines: MedicineAnalysis[]): DrugInteraction[] {
+    const terms = medicines.map(getMedicineTerms);
+    const found: DrugInteraction[] = [];
+
+    for (const { between: [sideA, sideB], ...finding } of INTERACTION_RULES) {
+        const applies = (a: number, b: number) =>
+            sideA.some(term => terms[a].has(term)) && sideB.some(term => terms[b].has(term));
+
+        for (let i = 0; i < medicines.length; i++) {
+            for (let j = i + 1; j < medicines.length; j++) {
+                if (applies(i, j) || applies(j, i)) {
+                    found.push({ medicines: [medicines[i].medicineName, medicines[j].medicineName], ...finding, source: 'local' });
+                }
+            }
+        }
+    }
+    return found.sort(bySeverity);
+}
+
+/**
+ * Interaction check: the bundled rules always, then the AI to add what they
+ * miss. A pair both found keeps the rule's wording and the worse severity.
+ * When the AI fails or is unavailable the report is marked unchecked rather
+ * than looking safe.
+ */
+export async function checkInteractions(medicines: MedicineAnalysis[], options: AnalysisOptions = {}): Promise<InteractionReport> {
+    const local = checkLocalInteractions(medicines);
+
+    let ai: InteractionReport | null = null;
+    try {
+        ai = await analyzeInteractions(medicines, options);
+    } catch {
+        // Logged by analyzeInteractions; the report below says it is unchecked
+    }
+
+    const aiOnly: DrugInteraction[] = [];
+    for (const interaction of ai?.interactions ?? []) {
+        const key = namesKey(interaction.medicines);
+        const shared = local.filter(finding => namesKey(finding.medicines) === key);
+        for (const finding of shared) {
+            finding.source = 'both';
+            if (SEVERITY_RANK[interaction.severity] > SEVERITY_RANK[finding.severity]) finding.severity = interaction.severity;
+        }
+        if (shared.length === 0) aiOnly.push({ ...interaction, source: 'ai' });
+    }
+
+    const interactions = [...local, ...aiOnly].sort(bySeverity);
+    const worst = interactions[0];
+    const aiSeverity = ai?.severity ?? 'none';
+    const severity = worst && SEVERITY_RANK[worst.severity] > SEVERITY_RANK[aiSeverity] ? worst.severity : aiSeverity;
+
+    let description = UNCHECKED_DESCRIPTION;
+    if (ai && SEVERITY_RANK[aiSeverity] >= SEVERITY_RANK[severity]) {
+        description = ai.description;
+    } else if (worst) {
+        description = describeWorst(worst);
+    }
+
+    return {
+        hasConflict: interactions.length > 0 || !!ai?.hasConflict,
+        severity,
+        description,
+        interactions,
+        source: ai ? 'both' : 'local',
+        unchecked: !ai,
+    };
+}
+
+/**
+ * The report narrowed to pairs involving at least one of `medicines`, with
+ * severity and summary from what is left. Reports without pairs (saved
+ * before pairs were checked) are returned as they are.
+ */
+export function narrowReport(report: InteractionReport, medicines: MedicineAnalysis[]): InteractionReport {
+    if (!report.interactions) return report;
+
+    const names = new Set(medicines.map(medicine => nameKey(medicine.medicineName)));
+    const interactions = report.interactions.filter(interaction =>
+        interaction.medicines.some(name => names.has(nameKey(name))));
+    if (interactions.length === report.interactions.length) return report;
+
+    const worst = interactions[0];
+    return {
+        ...report,
+        interactions,
+        hasConflict: interactions.length > 0,
+        severity: worst?.severity ?? 'none',
+        description: worst ? describeWorst(worst) : report.unchecked ? UNCHECKED_DESCRIPTION : NARROWED_CLEAR_DESCRIPTION,
+    };
+}
@@ -0,0 +1,168 @@
+import * as Notifications from 'expo-notifications';
+import { getDatabase } from './database';
+import { getDoseEvents } from './doseLog';
+import type { MedicationRecord } from './medicationStorage';
+import { getCourseEnd } from './regimen';
+import { REMINDER_CHANNEL_ID } from './reminders';
+
+export interface MedicationInventory {
+    onHand: number;          // Units (tablets, ml, ...) left
+    perDose: number;         // Units taken per dose
+    packSize?: number;       // Units in a new pack, for one-tap refills
+    refillLeadDays: number;  // Remind this many days before running out
+}
+
+export const DEFAULT_REFILL_LEAD_DAYS = 5;
+
+// Marks refill reminders in their data; a tap opens My Medications
+export const REFILL_REMINDER_KIND = 'medication-refill';
+
+// Refill reminders go off at this hour, never in the middle of the night
+const REFILL_REMINDER_HOUR = 9;
+// As-needed medicines are projected from how often they were taken lately
+const USAGE_LOOKBACK_DAYS = 14;
+
+const USAGE_LOOKBACK_MS = USAGE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+
+const UNIT_WORDS: Record<string, number> = { '½': 0.5, half: 0.5, one: 1, two: 2, three: 3 };
+
+/**
+ * Units per dose from a regimen's dose amount, e.g. "2 tablets" -> 2, "½ tab" -> 0.5.
+ * Defaults to 1 when the amount is missing or unreadable.
+ */
+export function parseDoseUnits(doseAmount?: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?|(?:½|half|one|two|three)(?![a-z]))/i.exec(doseAmount ?? '');
+    if (!match) return 1;
+    return UNIT_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+}
+
+/**
+ * Unit name for display, from the dose amount ("1 tablet" -> "tablets"), or "units"
+ */
+export function getUnitLabel(doseAmount?: string): string {
+    const unit = /[a-z]+s?$/i.exec(doseAmount?.trim() ?? '')?.[0].toLowerCase();
+    if (!unit || unit in UNIT_WORDS) return 'units';
+    return unit === 'ml' || unit.endsWith('s') ? unit : `${unit}s`;
+}
+
+/**
+ * Units the medication uses per day on average, or null when there is no
+ * way to tell (an as-needed medicine with no recent doses)
+ */
+export async function getDailyUsage(med: MedicationRecord): Promise<number | null> {
+    if (!med.inventory) return null;
+
+    if (med.regimen.kind === 'as-needed') {
+        const from = new Date(Date.now() - USAGE_LOOKBACK_MS);
+        const doses = (await getDoseEvents({ medicationId: med.id, from }))
+            .filter(event => event.status === 'taken' || event.status === 'late');
+        return doses.length ? (doses.length / USAGE_LOOKBACK_DAYS) * med.inventory.perDose : null;
+    }
+
+    const daysPerWeek = med.regimen.daysOfWeek?.length || 7;
+    const perDay = med.regimen.times.length * (daysPerWeek / 7) * med.inventory.perDose;
+    return perDay > 0 ? perDay : null;
+}
+
+/**
+ * Day the stock runs out at the current rate of use. Undefined when stock
+ * is not tracked, usage is unknown, or the course ends first.
+ */
+export async function projectRunOut(med: MedicationRecord): Promise<Date | undefined> {
+    const usage = await getDailyUsage(med);
+    if (!med.inventory || !usage) return undefined;
+
+    const runOut = new Date();
+    runOut.setHours(0, 0, 0, 0);
+    runOut.setDate(runOut.getDate() + Math.floor(med.inventory.onHand / usage));
+
+    const courseEnd = getCourseEnd(med.regimen, med.startDate);
+    if (courseEnd && courseEnd <= runOut) return undefined;
+    return runOut;
+}
+
+/**
+ * Whether it is time to refill: out of stock, or the run-out day is within the lead time
+ */
+export function isLowOnStock(med: MedicationRecord): boolean {
+    if (!med.inventory) return false;
+    if (med.inventory.onHand <= 0) return true;
+    if (!med.refillDate) return false;
+
+    const remindFrom = new Date(med.refillDate);
+    remindFrom.setDate(remindFrom.getDate() - med.inventory.refillLeadDays);
+    return remindFrom.getTime() <= Date.now();
+}
+
+/**
+ * When to remind: refillLeadDays before the run-out day, or at the next
+ * reminder hour once that day has passed
+ */
+function getRefillReminderTime(runOut: Date, leadDays: number): Date {
+    const remindAt = new Date(runOut);
+    remindAt.setDate(remindAt.getDate() - leadDays);
+    remindAt.setHours(REFILL_REMINDER_HOUR, 0, 0, 0);
+    if (remindAt.getTime() > Date.now()) return remindAt;
+
+    const next = new Date();
+    next.setHours(REFILL_REMINDER_HOUR, 0, 0, 0);
+    if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+    return next;
+}
+
+/**
+ * Cancel a medication's refill reminder and forget its id
+ */
+export async function cancelRefillReminder(medicationId: string): Promise<void> {
+    try {
+        const db = await getDatabase();
+        const row = await db.getFirstAsync<{ refill_notification_id: string | null }>(
+            'SELECT refill_notification_id FROM medications WHERE id = ?', medicationId,
+        );
+        if (row?.refill_notification_id) {
+            await Notifications.cancelScheduledNotificationAsync(row.refill_notification_id);
+        }
+        await db.runAsync('UPDATE medications SET refill_notification_id = NULL WHERE id = ?', medicationId);
+    } catch (error) {
+        console.error('Error cancelling refill reminder:', error);
+    }
+}
+
+/**
+ * Store the medication's projected run-out day as its refillDate and replace
+ * its refill reminder to match. Like reminders, schedules nothing without
+ * notification permission.
+ */
+export async function syncRefillReminder(med: MedicationRecord): Promise<void> {
+    await cancelRefillReminder(med.id);
+
+    try {
+        const runOut = med.status === 'active' ? await projectRunOut(med) : undefined;
+        const db = await getDatabase();
+        await db.runAsync('UPDATE medications SET refill_date = ? WHERE id = ?', runOut?.getTime() ?? null, med.id);
+        if (!runOut || !med.inventory) return;
+
+        const { granted } = await Notifications.getPermissionsAsync();
+        if (!granted) return;
+
+        const name = med.analysis.medicineName;
+        const notificationId = await Notifications.scheduleNotificationAsync({
+            content: {
+                title: '💊 Time to Refill',
+                body: med.inventory.onHand > 0
+                    ? `${name} runs out around ${runOut.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}. Buy a new pack soon.`
+                    : `You are out of ${name}. Buy a new pack soon.`,
+                sound: true,
+                data: { kind: REFILL_REMINDER_KIND, medicationId: med.id },
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: getRefillReminderTime(runOut, med.inventory.refillLeadDays),
+                channelId: REMINDER_CHANNEL_ID,
+            },
+        });
+        await db.runAsync('UPDATE medications SET refill_notification_id = ? WHERE id = ?', notificationId, med.id);
+    } catch (error) {
+        console.error('Error scheduling refill reminder:', error);
+    }
+}
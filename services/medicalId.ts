@@ -0,0 +1,56 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const MEDICAL_ID_KEY = 'medical_id';
+
+export interface MedicalInfo {
+    name: string;
+    bloodType: string;
+    allergies: string[];   // As the user wrote them: "Penicillin", "Sulfa", "Shrimp"
+    conditions: string[];  // Chronic conditions: "Kidney disease", "Hypertension"
+    medications: string;   // Free-text notes
+}
+
+export const EMPTY_MEDICAL_INFO: MedicalInfo = {
+    name: '', bloodType: '', allergies: [], conditions: [], medications: ''
+};
+
+/**
+ * Entries of a free-text list ("Penicillin, sulfa; shrimp"), trimmed and
+ * without blanks or repeats
+ */
+export function splitMedicalList(text: string): string[] {
+    const entries = text.split(/[,;\n]/).map(entry => entry.trim()).filter(Boolean);
+    return entries.filter((entry, index) =>
+        entries.findIndex(other => other.toLowerCase() === entry.toLowerCase()) === index);
+}
+
+/**
+ * The saved Medical ID. Allergies and conditions saved as free text by
+ * earlier versions are split into lists and saved back.
+ */
+export async function getMedicalInfo(): Promise<MedicalInfo> {
+    try {
+        const data = await AsyncStorage.getItem(MEDICAL_ID_KEY);
+        if (!data) return EMPTY_MEDICAL_INFO;
+
+        const stored = JSON.parse(data);
+        const info: MedicalInfo = { ...EMPTY_MEDICAL_INFO, ...stored };
+        if (typeof stored.allergies === 'string' || typeof stored.conditions === 'string') {
+            if (typeof stored.allergies === 'string') info.allergies = splitMedicalList(stored.allergies);
+            if (typeof stored.conditions === 'string') info.conditions = splitMedicalList(stored.conditions);
+            await saveMedicalInfo(info);
+        }
+        return info;
+    } catch (error) {
+        console.error('Error loading medical ID:', error);
+        return EMPTY_MEDICAL_INFO;
+    }
+}
+
+/**
+ * Replace the stored Medical ID. Throws if it can't be saved: scans are
+ * checked against it, so the user has to know.
+ */
+export async function saveMedicalInfo(info: MedicalInfo): Promise<void> {
+    await AsyncStorage.setItem(MEDICAL_ID_KEY, JSON.stringify(info));
+}
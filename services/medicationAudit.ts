@@ -0,0 +1,134 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createId, getDatabase } from './database';
+import type { MedicationRecord } from './medicationStorage';
+import { describeRegimen, parseRegimen } from './regimen';
+
+export type EditableField = 'name' | 'ingredients' | 'dosage' | 'regimen' | 'prescriber' | 'notes' | 'startDate' | 'endDate';
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+    name: 'Name',
+    ingredients: 'Active ingredients',
+    dosage: 'Dosage',
+    regimen: 'Schedule',
+    prescriber: 'Prescribed by',
+    notes: 'Notes',
+    startDate: 'Start date',
+    endDate: 'End date',
+};
+
+export interface MedicationEdit {
+    id: string;
+    medicationId: string;
+    field: EditableField;
+    oldValue?: string;  // As displayed at the time; unset when the field was empty
+    newValue?: string;
+    editedAt: Date;
+}
+
+// A field whose current value differs from what the scan read
+export interface Correction {
+    field: EditableField;
+    aiValue?: string;
+    value?: string;
+}
+
+interface MedicationEditRow {
+    id: string;
+    medication_id: string;
+    field: EditableField;
+    old_value: string | null;
+    new_value: string | null;
+    edited_at: number;
+}
+
+type AuditedFields = Pick<MedicationRecord, 'analysis' | 'regimen' | 'notes' | 'startDate' | 'endDate'>;
+
+// Fields the scan reads; notes and dates are the user's own
+const AI_FIELDS: EditableField[] = ['name', 'ingredients', 'dosage', 'regimen', 'prescriber'];
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export function formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Each audited field as display text; empty fields are undefined
+ */
+function getFieldValues(med: AuditedFields): Record<EditableField, string | undefined> {
+    const values: Record<EditableField, string | undefined> = {
+        name: med.analysis.medicineName,
+        ingredients: med.analysis.activeIngredients,
+        dosage: med.analysis.dosage,
+        regimen: describeRegimen(med.regimen),
+        prescriber: med.analysis.prescribedBy,
+        notes: med.notes,
+        startDate: formatDay(med.startDate),
+        endDate: med.endDate && formatDay(med.endDate),
+    };
+    for (const field of Object.keys(values) as EditableField[]) {
+        values[field] = values[field]?.trim() || undefined;
+    }
+    return values;
+}
+
+/**
+ * Log every audited field that differs between two versions of a medication.
+ * Call inside the transaction that writes the change.
+ */
+export async function recordEdits(db: SQLiteDatabase, before: MedicationRecord, after: MedicationRecord): Promise<void> {
+    const oldValues = getFieldValues(before);
+    const newValues = getFieldValues(after);
+    const editedAt = Date.now();
+
+    for (const field of Object.keys(newValues) as EditableField[]) {
+        if (oldValues[field] === newValues[field]) continue;
+        await db.runAsync(
+            'INSERT INTO medication_edits (id, medication_id, field, old_value, new_value, edited_at) VALUES (?, ?, ?, ?, ?, ?)',
+            createId(), after.id, field, oldValues[field] ?? null, newValues[field] ?? null, editedAt,
+        );
+    }
+}
+
+/**
+ * A medication's edit history, newest first
+ */
+export async function getMedicationEdits(medicationId: string): Promise<MedicationEdit[]> {
+    try {
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<MedicationEditRow>(
+            'SELECT * FROM medication_edits WHERE medication_id = ? ORDER BY edited_at DESC, rowid DESC',
+            medicationId,
+        );
+        return rows.map(row => ({
+            id: row.id,
+            medicationId: row.medication_id,
+            field: row.field,
+            oldValue: row.old_value ?? undefined,
+            newValue: row.new_value ?? undefined,
+            editedAt: new Date(row.edited_at),
+        }));
+    } catch (error) {
+        console.error('Error loading medication edits:', error);
+        return [];
+    }
+}
+
+/**
+ * Scanned fields the user has since changed, with what the scan read. The
+ * scanned schedule is the one parsed from the scanned dosage text.
+ */
+export function getCorrections(med: MedicationRecord): Correction[] {
+    const ai = getFieldValues({
+        ...med,
+        analysis: med.aiAnalysis,
+        regimen: parseRegimen(med.aiAnalysis.dosage, med.aiAnalysis.recommendedTime),
+    });
+    const current = getFieldValues(med);
+
+    return AI_FIELDS
+        .filter(field => ai[field] !== current[field])
+        .map(field => ({ field, aiValue: ai[field], value: current[field] }));
+}
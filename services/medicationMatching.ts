@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { checkAgainstMedicalId, Contraindication } from './contraindications';
+import { createId } from './database';
+import { MedicineAnalysis } from './gemini';
+import { parseIngredients } from './ingredients';
+import {
+    getActiveMedications,
+    getMedication,
+    MedicationRecord,
+    refillMedication,
+    rescanMedication,
+    saveMedication
+} from './medicationStorage';
+
+// Matches found by the offline queue, waiting for the user in My Medications
+const PENDING_MATCHES_KEY = 'pending_medication_matches';
+
+// What to do with a scanned medicine that is already in My Medications
+export type MatchResolution = 'update' | 'refill' | 'keep-both';
+
+interface StoredMatch {
+    id: string;
+    imageUri: string;           // The new scan's photo
+    medicine: MedicineAnalysis; // What the new scan read
+    medicationId: string;       // The active record it matches
+    scannedAt: number;
+}
+
+export interface MedicationMatch extends StoredMatch {
+    existing: MedicationRecord;
+}
+
+/**
+ * Medicine name for comparison: lowercase letters and digits only
+ */
+export function normalizeMedicineName(text?: string): string {
+    return (text ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Ingredient list for comparison, independent of order, strengths, salts and
+ * synonyms ("Acetaminophen 500 mg + Caffeine" equals "caffeine, paracetamol")
+ */
+export function normalizeIngredients(text?: string): string {
+    return parseIngredients(text).join(',');
+}
+
+/**
+ * Whether two readings are the same medicine: same name, and the same
+ * ingredients unless one of them has none
+ */
+export function isSameMedicine(a: MedicineAnalysis, b: MedicineAnalysis): boolean {
+    if (normalizeMedicineName(a.medicineName) !== normalizeMedicineName(b.medicineName)) return false;
+    const ingredientsA = normalizeIngredients(a.activeIngredients);
+    const ingredientsB = normalizeIngredients(b.activeIngredients);
+    return !ingredientsA || !ingredientsB || ingredientsA === ingredientsB;
+}
+
+/**
+ * Split a scan's medicines into new ones and ones already active in My
+ * Medications. Medicines saved from this same photo (a re-analysis) are in
+ * neither: they are not new, and matching them would offer a refill nobody bought.
+ */
+export async function matchScannedMedicines(
+    imageUri: string,
+    analysis: MedicineAnalysis[],
+): Promise<{ matches: MedicationMatch[]; unmatched: MedicineAnalysis[] }> {
+    const active = await getActiveMedications();
+    const matches: MedicationMatch[] = [];
+    const unmatched: MedicineAnalysis[] = [];
+
+    for (const medicine of analysis) {
+        const same = active.filter(med => isSameMedicine(med.analysis, medicine));
+        if (same.some(med => med.imageUri === imageUri)) continue;
+        const existing = same[0];
+        if (existing) {
+            matches.push({ id: createId(), imageUri, medicine, medicationId: existing.id, scannedAt: Date.now(), existing });
+        } else {
+            unmatched.push(medicine);
+        }
+    }
+    return { matches, unmatched };
+}
+
+/**
+ * Units a refill from this scan would add: the pack size read from the box,
+ * else the record's usual pack size. Undefined when neither is known.
+ */
+export function getRefillUnits(match: MedicationMatch): number | undefined {
+    return match.medicine.packQuantity ?? match.existing.inventory?.packSize;
+}
+
+/**
+ * Every stored match, whether or not its record is still active. Throws if
+ * they can't be read.
+ */
+export async function readPendingMatches(): Promise<StoredMatch[]> {
+    const data = await AsyncStorage.getItem(PENDING_MATCHES_KEY);
+    return data ? JSON.parse(data) : [];
+}
+
+async function writePendingMatches(matches: StoredMatch[]): Promise<void> {
+    await AsyncStorage.setItem(PENDING_MATCHES_KEY, JSON.stringify(matches));
+}
+
+/**
+ * Keep matches for the user to resolve later from My Medications
+ */
+export async function savePendingMatches(matches: MedicationMatch[]): Promise<void> {
+    if (matches.length === 0) return;
+    try {
+        const stored: StoredMatch[] = matches.map(match => ({
+            id: match.id,
+            imageUri: match.imageUri,
+            medicine: match.medicine,
+            medicationId: match.medicationId,
+            scannedAt: match.scannedAt,
+        }));
+        await writePendingMatches([...await readPendingMatches(), ...stored]);
+    } catch (error) {
+        console.error('Error saving pending matches:', error);
+    }
+}
+
+/**
+ * Matches waiting for the user, oldest first. Matches whose record is no
+ * longer active are left out; see settleUnmatchedScans.
+ */
+export async function getPendingMatches(): Promise<MedicationMatch[]> {
+    try {
+        const matches: MedicationMatch[] = [];
+        for (const match of await readPendingMatches()) {
+            const existing = await getMedication(match.medicationId);
+            if (existing?.status === 'active') matches.push({ ...match, existing });
+        }
+        return matches;
+    } catch (error) {
+        console.error('Error loading pending matches:', error);
+        return [];
+    }
+}
+
+/**
+ * Settle the matches whose record is no longer active: they are not
+ * duplicates any more, so each is saved as a new medication. One that clashes
+ * with the Medical ID is saved only if `confirm` says so, and dropped
+ * otherwise (the scan stays in history). Returns how many were saved.
+ */
+export async function settleUnmatchedScans(
+    confirm: (medicine: MedicineAnalysis, found: Contraindication[]) => Promise<boolean>,
+): Promise<number> {
+    try {
+        let saved = 0;
+        for (const match of await readPendingMatches()) {
+            const existing = await getMedication(match.medicationId);
+            if (existing?.status === 'active') continue;
+
+            const found = await checkAgainstMedicalId([match.medicine]);
+            if (found.length === 0 || await confirm(match.medicine, found)) {
+                await saveMedication(match.imageUri, match.medicine);
+                saved++;
+            }
+            // Re-read: the queue may have added matches meanwhile
+            await writePendingMatches((await readPendingMatches()).filter(m => m.id !== match.id));
+        }
+        return saved;
+    } catch (error) {
+        console.error('Error settling unmatched scans:', error);
+        return 0;
+    }
+}
+
+/**
+ * Apply the user's choice: update the record with the new scan, add the box
+ * to its stock, or save the scan as a separate medication. Clears the match
+ * from the pending list if it was there.
+ */
+export async function resolveMatch(match: MedicationMatch, resolution: MatchResolution): Promise<void> {
+    if (resolution === 'update') {
+        await rescanMedication(match.medicationId, match.imageUri, match.medicine);
+    } else if (resolution === 'refill') {
+        const units = getRefillUnits(match);
+        if (!units) throw new Error('Pack size unknown');
+        await refillMedication(match.medicationId, units);
+    } else {
+        await saveMedication(match.imageUri, match.medicine);
+    }
+
+    try {
+        const stored = await readPendingMatches();
+        if (stored.some(m => m.id === match.id)) {
+            await writePendingMatches(stored.filter(m => m.id !== match.id));
+        }
+    } catch (error) {
+        console.error('Error updating pending matches:', error);
+    }
+}
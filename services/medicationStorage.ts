@@ -1,19 +1,32 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createId, getDatabase, runOnce, withTransaction } from './database';
+import { DoseStatus, getDoseEvents, isDoseOutcome, recordDose, recordMissedDoses, slotTime, subscribeToDoseLog } from './doseLog';
 import { MedicineAnalysis } from './gemini';
+import { findTherapeuticDuplicates, getMedicineIngredients, TherapeuticDuplicate } from './ingredients';
+import { cancelRefillReminder, DEFAULT_REFILL_LEAD_DAYS, MedicationInventory, parseDoseUnits, syncRefillReminder } from './inventory';
+import { recordEdits } from './medicationAudit';
+import { getCourseEnd, isDoseDay, MEAL_TIMING_LABELS, parseRegimen, Regimen, sortTimes } from './regimen';
+import { cancelMedicationReminders, syncMedicationReminders } from './reminders';
 
-const MEDICATION_STORAGE_KEY = '@medimate_medications';
+// Where medications lived before SQLite; imported once by migrateLegacyMedications
+const LEGACY_MEDICATION_STORAGE_KEY = '@medimate_medications';
 
 export interface MedicationRecord {
     id: string;
     scanDate: Date;
     imageUri: string;
-    analysis: MedicineAnalysis;
+    analysis: MedicineAnalysis; // Includes the user's corrections
+    aiAnalysis: MedicineAnalysis; // As the scan read it, kept for the audit trail; read-only
+    regimen: Regimen; // Parsed from analysis.dosage at save time; the user may edit it
     status: 'active' | 'discontinued' | 'completed';
     startDate: Date;
     endDate?: Date;
-    refillDate?: Date;
+    refillDate?: Date; // Projected run-out day, kept up to date by syncRefillReminder; read-only
     notes?: string;
-    lastTaken?: Date;
+    reminderTone?: string; // ALARM_TONES id for its reminders
+    inventory?: MedicationInventory; // Unset when stock is not tracked; change with setMedicationInventory
+    lastTaken?: Date; // Derived from the dose log; read-only
 }
 
 export interface DailySchedule {
@@ -21,32 +34,233 @@ export interface DailySchedule {
     medicationId: string;
     medicationName: string;
     dosage: string;
-    taken: boolean;
+    instructions?: string; // Meal timing, e.g. "After meals"
+    scheduledFor: Date;  // This slot on the schedule's day
+    status?: DoseStatus; // Unset until the slot is logged
+    eventId?: string;    // Dose event that logged it, for undo
+    taken: boolean;      // Status is taken or late
     takenAt?: Date;
 }
 
+interface MedicationRow {
+    id: string;
+    scan_date: number;
+    image_uri: string;
+    analysis: string;
+    ai_analysis: string | null;
+    regimen: string | null;
+    status: MedicationRecord['status'];
+    start_date: number;
+    end_date: number | null;
+    refill_date: number | null;
+    notes: string | null;
+    reminder_tone: string | null;
+    quantity_on_hand: number | null;
+    units_per_dose: number | null;
+    pack_size: number | null;
+    refill_lead_days: number | null;
+    last_taken_at: number | null;
+}
+
+// Medication columns plus lastTaken from the dose log
+const SELECT_MEDICATIONS = `
+    SELECT m.*, (
+        SELECT MAX(d.taken_at) FROM dose_events d
+        WHERE d.medication_id = m.id AND d.voided_at IS NULL AND d.status IN ('taken', 'late')
+    ) AS last_taken_at
+    FROM medications m`;
+
+const toDate = (value: number | null) => value !== null ? new Date(value) : undefined;
+const toTime = (value?: Date) => value ? value.getTime() : null;
+
+function fromRow(row: MedicationRow): MedicationRecord {
+    const analysis: MedicineAnalysis = JSON.parse(row.analysis);
+    return {
+        id: row.id,
+        scanDate: new Date(row.scan_date),
+        imageUri: row.image_uri,
+        analysis,
+        aiAnalysis: row.ai_analysis ? JSON.parse(row.ai_analysis) : analysis,
+        regimen: row.regimen ? JSON.parse(row.regimen) : parseRegimen(analysis.dosage, analysis.recommendedTime),
+        status: row.status,
+        startDate: new Date(row.start_date),
+        endDate: toDate(row.end_date),
+        refillDate: toDate(row.refill_date),
+        notes: row.notes ?? undefined,
+        reminderTone: row.reminder_tone ?? undefined,
+        inventory: row.quantity_on_hand !== null ? {
+            onHand: row.quantity_on_hand,
+            perDose: row.units_per_dose ?? 1,
+            packSize: row.pack_size ?? undefined,
+            refillLeadDays: row.refill_lead_days ?? DEFAULT_REFILL_LEAD_DAYS,
+        } : undefined,
+        lastTaken: toDate(row.last_taken_at),
+    };
+}
+
+/**
+ * Insert or fully rewrite a medication, keeping its schedule rows in step
+ * with regimen.times. Call inside a transaction. Stock is left alone (the
+ * dose log changes it); see writeInventory. aiAnalysis is only written on insert.
+ */
+async function writeMedication(db: SQLiteDatabase, med: MedicationRecord): Promise<void> {
+    await db.runAsync(
+        // Upsert rather than REPLACE: a REPLACE deletes the row first, which would cascade to its dose events
+        `INSERT INTO medications
+            (id, scan_date, image_uri, analysis, ai_analysis, regimen, course_end, medicine_name, active_ingredients, status, start_date, end_date, refill_date, notes, reminder_tone)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+            scan_date = excluded.scan_date, image_uri = excluded.image_uri, analysis = excluded.analysis,
+            regimen = excluded.regimen, course_end = excluded.course_end,
+            medicine_name = excluded.medicine_name, active_ingredients = excluded.active_ingredients,
+            status = excluded.status, start_date = excluded.start_date, end_date = excluded.end_date,
+            refill_date = excluded.refill_date, notes = excluded.notes, reminder_tone = excluded.reminder_tone`,
+        med.id,
+        med.scanDate.getTime(),
+        med.imageUri,
+        JSON.stringify(med.analysis),
+        JSON.stringify(med.aiAnalysis ?? med.analysis), // Legacy imports have none
+        JSON.stringify(med.regimen),
+        toTime(getCourseEnd(med.regimen, med.startDate)),
+        med.analysis.medicineName,
+        getMedicineIngredients(med.analysis).join(', '),
+        med.status,
+        med.startDate.getTime(),
+        toTime(med.endDate),
+        toTime(med.refillDate),
+        med.notes ?? null,
+        med.reminderTone ?? null,
+    );
+
+    await db.runAsync('DELETE FROM schedules WHERE medication_id = ?', med.id);
+    for (const time of med.regimen.times) {
+        await db.runAsync(
+            'INSERT INTO schedules (id, medication_id, time) VALUES (?, ?, ?)',
+            createId(), med.id, time,
+        );
+    }
+}
+
+/**
+ * Give medications saved before regimens existed a parsed regimen, expanding
+ * their single recommendedTime schedule row where the dosage text says more
+ */
+async function parseLegacyRegimens(): Promise<void> {
+    await runOnce('legacy_regimens_parsed', async txn => {
+        const rows = await txn.getAllAsync<MedicationRow>(`${SELECT_MEDICATIONS} WHERE m.regimen IS NULL`);
+        for (const row of rows) {
+            await writeMedication(txn, fromRow(row));
+        }
+    });
+}
+
+/**
+ * Import medications saved to AsyncStorage by earlier versions, then drop the old key
+ */
+async function migrateLegacyMedications(): Promise<void> {
+    const data = await AsyncStorage.getItem(LEGACY_MEDICATION_STORAGE_KEY);
+    const legacy: any[] = data ? JSON.parse(data) : [];
+
+    const migrated = await runOnce('legacy_medications_migrated', async txn => {
+        for (const med of legacy) {
+            // Old ids were Date.now() and could repeat within one scan
+            const id = legacy.filter(other => other.id === med.id).length > 1 ? createId() : med.id;
+            await writeMedication(txn, {
+                ...med,
+                id,
+                scanDate: new Date(med.scanDate),
+                startDate: new Date(med.startDate),
+                endDate: med.endDate ? new Date(med.endDate) : undefined,
+                refillDate: med.refillDate ? new Date(med.refillDate) : undefined,
+                regimen: parseRegimen(med.analysis?.dosage, med.analysis?.recommendedTime),
+            });
+            if (med.lastTaken) {
+                const takenAt = new Date(med.lastTaken).getTime();
+                await txn.runAsync(
+                    "INSERT INTO dose_events (id, medication_id, status, recorded_at, taken_at) VALUES (?, ?, 'taken', ?, ?)",
+                    createId(), id, takenAt, takenAt,
+                );
+            }
+        }
+    });
+
+    if (migrated) {
+        await AsyncStorage.removeItem(LEGACY_MEDICATION_STORAGE_KEY);
+    }
+}
+
+let ready: Promise<SQLiteDatabase> | null = null;
+
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+function getMedicationDatabase(): Promise<SQLiteDatabase> {
+    if (!ready) {
+        ready = getDatabase().then(async db => {
+            await migrateLegacyMedications();
+            await parseLegacyRegimens();
+            return db;
+        }).catch(error => {
+            ready = null;
+            throw error;
+        });
+    }
+    return ready;
+}
+
+/**
+ * Replace a medication's stock settings; null stops tracking stock
+ */
+async function writeInventory(db: SQLiteDatabase, id: string, inventory: MedicationInventory | null): Promise<void> {
+    await db.runAsync(
+        'UPDATE medications SET quantity_on_hand = ?, units_per_dose = ?, pack_size = ?, refill_lead_days = ? WHERE id = ?',
+        inventory?.onHand ?? null,
+        inventory?.perDose ?? null,
+        inventory?.packSize ?? null,
+        inventory?.refillLeadDays ?? null,
+        id,
+    );
+}
+
 /**
- * Save a new medication record
+ * Save a new medication record. The regimen defaults to one parsed from the dosage text.
+ * When the scan read how many units the pack holds, stock tracking starts with a full pack.
  */
 export async function saveMedication(
     imageUri: string,
-    analysis: MedicineAnalysis
+    analysis: MedicineAnalysis,
+    regimen: Regimen = parseRegimen(analysis.dosage, analysis.recommendedTime)
 ): Promise<MedicationRecord> {
     try {
-        const medications = await getAllMedications();
+        await getMedicationDatabase();
 
         const newRecord: MedicationRecord = {
-            id: Date.now().toString(),
+            id: createId(),
             scanDate: new Date(),
             imageUri,
             analysis,
+            aiAnalysis: analysis,
+            regimen,
             status: 'active',
             startDate: new Date(),
         };
+        if (analysis.packQuantity) {
+            newRecord.inventory = {
+                onHand: analysis.packQuantity,
+                perDose: parseDoseUnits(regimen.doseAmount),
+                packSize: analysis.packQuantity,
+                refillLeadDays: DEFAULT_REFILL_LEAD_DAYS,
+            };
+        }
 
-        medications.push(newRecord);
-        await AsyncStorage.setItem(MEDICATION_STORAGE_KEY, JSON.stringify(medications));
-
+        await withTransaction(async txn => {
+            await writeMedication(txn, newRecord);
+            if (newRecord.inventory) await writeInventory(txn, newRecord.id, newRecord.inventory);
+        });
+        await syncMedicationReminders(newRecord);
+        await syncRefillReminder(newRecord);
+        notifyListeners();
         return newRecord;
     } catch (error) {
         console.error('Error saving medication:', error);
@@ -55,26 +269,17 @@ export async function saveMedication(
 }
 
 /**
- * Get all medication records
+ * Get all medication records. Throws rather than returning an empty list,
+ * which maintenance jobs would read as "no medications".
  */
 export async function getAllMedications(): Promise<MedicationRecord[]> {
     try {
-        const data = await AsyncStorage.getItem(MEDICATION_STORAGE_KEY);
-        if (!data) return [];
-
-        const medications = JSON.parse(data);
-        // Convert date strings back to Date objects
-        return medications.map((med: any) => ({
-            ...med,
-            scanDate: new Date(med.scanDate),
-            startDate: new Date(med.startDate),
-            endDate: med.endDate ? new Date(med.endDate) : undefined,
-            refillDate: med.refillDate ? new Date(med.refillDate) : undefined,
-            lastTaken: med.lastTaken ? new Date(med.lastTaken) : undefined,
-        }));
+        const db = await getMedicationDatabase();
+        const rows = await db.getAllAsync<MedicationRow>(`${SELECT_MEDICATIONS} ORDER BY m.scan_date`);
+        return rows.map(fromRow);
     } catch (error) {
         console.error('Error getting medications:', error);
-        return [];
+        throw error;
     }
 }
 
@@ -82,28 +287,61 @@ export async function getAllMedications(): Promise<MedicationRecord[]> {
  * Get only active medications
  */
 export async function getActiveMedications(): Promise<MedicationRecord[]> {
-    const all = await getAllMedications();
-    return all.filter(med => med.status === 'active');
+    try {
+        const db = await getMedicationDatabase();
+        const rows = await db.getAllAsync<MedicationRow>(
+            `${SELECT_MEDICATIONS} WHERE m.status = 'active' ORDER BY m.scan_date`,
+        );
+        return rows.map(fromRow);
+    } catch (error) {
+        console.error('Error getting active medications:', error);
+        return [];
+    }
 }
 
 /**
- * Update medication status
+ * Get one medication record
+ */
+export async function getMedication(id: string): Promise<MedicationRecord | null> {
+    try {
+        const db = await getMedicationDatabase();
+        const row = await db.getFirstAsync<MedicationRow>(`${SELECT_MEDICATIONS} WHERE m.id = ?`, id);
+        return row ? fromRow(row) : null;
+    } catch (error) {
+        console.error('Error getting medication:', error);
+        return null;
+    }
+}
+
+/**
+ * Update medication status. Reminders stop when it is no longer active.
  */
 export async function updateMedicationStatus(
     id: string,
     status: 'active' | 'discontinued' | 'completed'
 ): Promise<void> {
     try {
-        const medications = await getAllMedications();
-        const index = medications.findIndex(med => med.id === id);
+        const db = await getMedicationDatabase();
+        // Reactivating keeps the old end date, as before
+        await db.runAsync(
+            "UPDATE medications SET status = ?, end_date = CASE WHEN ? = 'active' THEN end_date ELSE ? END WHERE id = ?",
+            status,
+            status,
+            Date.now(),
+            id,
+        );
 
-        if (index !== -1) {
-            medications[index].status = status;
-            if (status !== 'active') {
-                medications[index].endDate = new Date();
+        if (status === 'active') {
+            const med = await getMedication(id);
+            if (med) {
+                await syncMedicationReminders(med);
+                await syncRefillReminder(med);
             }
-            await AsyncStorage.setItem(MEDICATION_STORAGE_KEY, JSON.stringify(medications));
+        } else {
+            await cancelMedicationReminders(id);
+            await cancelRefillReminder(id);
         }
+        notifyListeners();
     } catch (error) {
         console.error('Error updating medication status:', error);
         throw error;
@@ -111,80 +349,252 @@ export async function updateMedicationStatus(
 }
 
 /**
- * Mark medication as taken
+ * Update fields of a medication record (not its stock: see setMedicationInventory).
+ * Changes to the fields the edit screen shows go into the audit trail.
  */
-export async function markMedicationTaken(id: string): Promise<void> {
+export async function updateMedication(
+    id: string,
+    changes: Partial<Omit<MedicationRecord, 'id'>>
+): Promise<void> {
     try {
-        const medications = await getAllMedications();
-        const index = medications.findIndex(med => med.id === id);
+        await getMedicationDatabase();
+        await withTransaction(async txn => {
+            const row = await txn.getFirstAsync<MedicationRow>(`${SELECT_MEDICATIONS} WHERE m.id = ?`, id);
+            if (!row) return;
+            const before = fromRow(row);
+            const after = { ...before, ...changes };
+            await writeMedication(txn, after);
+            await recordEdits(txn, before, after);
+        });
 
-        if (index !== -1) {
-            medications[index].lastTaken = new Date();
-            await AsyncStorage.setItem(MEDICATION_STORAGE_KEY, JSON.stringify(medications));
+        const med = await getMedication(id);
+        if (med) {
+            await syncMedicationReminders(med);
+            await syncRefillReminder(med);
         }
+        notifyListeners();
     } catch (error) {
-        console.error('Error marking medication as taken:', error);
+        console.error('Error updating medication:', error);
+        throw error;
+    }
+}
+
+/**
+ * Replace a medication's scanned details and photo with a new scan of the
+ * same medicine. Schedule, stock, notes and dose history stay. The new reading
+ * becomes what corrections are measured against, so it is not logged as an edit.
+ */
+export async function rescanMedication(id: string, imageUri: string, analysis: MedicineAnalysis): Promise<void> {
+    try {
+        await getMedicationDatabase();
+        await withTransaction(async txn => {
+            const row = await txn.getFirstAsync<MedicationRow>(`${SELECT_MEDICATIONS} WHERE m.id = ?`, id);
+            if (!row) return;
+            await writeMedication(txn, { ...fromRow(row), imageUri, scanDate: new Date(), analysis });
+            await txn.runAsync('UPDATE medications SET ai_analysis = ? WHERE id = ?', JSON.stringify(analysis), id);
+        });
+
+        // Reminders show the medicine's name
+        const med = await getMedication(id);
+        if (med) {
+            await syncMedicationReminders(med);
+            await syncRefillReminder(med);
+        }
+        notifyListeners();
+    } catch (error) {
+        console.error('Error updating medication from scan:', error);
         throw error;
     }
 }
 
 /**
- * Get today's medication schedule
+ * Start, change or (with null) stop tracking a medication's stock
  */
-export async function getTodaySchedule(): Promise<DailySchedule[]> {
-    const activeMeds = await getActiveMedications();
-    const schedule: DailySchedule[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+export async function setMedicationInventory(id: string, inventory: MedicationInventory | null): Promise<void> {
+    try {
+        const db = await getMedicationDatabase();
+        await writeInventory(db, id, inventory);
+
+        const med = await getMedication(id);
+        if (med) await syncRefillReminder(med);
+    } catch (error) {
+        console.error('Error updating inventory:', error);
+        throw error;
+    }
+}
 
-    for (const med of activeMeds) {
-        if (med.analysis.recommendedTime) {
-            const taken = med.lastTaken &&
-                med.lastTaken.getTime() >= today.getTime();
+/**
+ * Add a new pack (or any number of units) to a medication's stock. Stock
+ * tracking starts here if it was off, taking the amount as the pack size.
+ */
+export async function refillMedication(id: string, units: number): Promise<void> {
+    try {
+        const med = await getMedication(id);
+        if (!med) throw new Error('Medication not found');
 
-            schedule.push({
-                time: med.analysis.recommendedTime,
-                medicationId: med.id,
-                medicationName: med.analysis.medicineName,
-                dosage: med.analysis.dosage,
-                taken: !!taken,
-                takenAt: taken ? med.lastTaken : undefined,
+        const db = await getMedicationDatabase();
+        if (med.inventory) {
+            await db.runAsync('UPDATE medications SET quantity_on_hand = quantity_on_hand + ? WHERE id = ?', units, id);
+        } else {
+            await writeInventory(db, id, {
+                onHand: units,
+                perDose: parseDoseUnits(med.regimen.doseAmount),
+                packSize: units,
+                refillLeadDays: DEFAULT_REFILL_LEAD_DAYS,
             });
         }
+
+        const refilled = await getMedication(id);
+        if (refilled) await syncRefillReminder(refilled);
+    } catch (error) {
+        console.error('Error refilling medication:', error);
+        throw error;
     }
+}
+
+/**
+ * Keep refill reminders in step with stock as doses are logged or undone.
+ * Returns an unsubscribe function; call once from the app root.
+ */
+export function startRefillReminders(): () => void {
+    getActiveMedications().then(async medications => {
+        for (const med of medications) await syncRefillReminder(med);
+    }).catch(error => console.error('Error syncing refill reminders:', error));
 
-    // Sort by time
-    schedule.sort((a, b) => a.time.localeCompare(b.time));
-    return schedule;
+    return subscribeToDoseLog(async medicationId => {
+        try {
+            const med = await getMedication(medicationId);
+            if (med) await syncRefillReminder(med);
+        } catch (error) {
+            console.error('Error syncing refill reminder:', error);
+        }
+    });
 }
 
 /**
- * Check for duplicate medications (same active ingredient)
+ * Remind at `time` ("HH:MM") every dose day with the given alarm tone, adding
+ * the time to the regimen. Interval and as-needed regimens become fixed times.
  */
-export async function findDuplicateMedications(): Promise<Array<{
-    ingredient: string;
-    medications: MedicationRecord[];
-}>> {
-    const activeMeds = await getActiveMedications();
-    const byIngredient = new Map<string, MedicationRecord[]>();
+export async function setMedicationReminder(id: string, time: string, tone: string): Promise<void> {
+    const med = await getMedication(id);
+    if (!med) throw new Error('Medication not found');
+
+    const times = med.regimen.kind === 'as-needed' ? [time] : sortTimes([...med.regimen.times, time]);
+    await updateMedication(id, {
+        regimen: { ...med.regimen, kind: 'scheduled', times, intervalHours: undefined, maxDailyDoses: undefined },
+        reminderTone: tone,
+    });
+}
 
-    for (const med of activeMeds) {
-        const ingredient = med.analysis.activeIngredients.toLowerCase();
-        if (!byIngredient.has(ingredient)) {
-            byIngredient.set(ingredient, []);
+/**
+ * Mark medication as taken. Without a slot, the dose goes to today's
+ * unlogged slot nearest to now (or is logged unscheduled if there is none).
+ */
+export async function markMedicationTaken(id: string, scheduledFor?: Date): Promise<void> {
+    try {
+        let slot = scheduledFor;
+        if (!slot) {
+            const now = Date.now();
+            const open = (await getTodaySchedule())
+                .filter(item => item.medicationId === id && !item.status)
+                .sort((a, b) => Math.abs(a.scheduledFor.getTime() - now) - Math.abs(b.scheduledFor.getTime() - now));
+            slot = open[0]?.scheduledFor;
         }
-        byIngredient.get(ingredient)!.push(med);
+        await recordDose({ medicationId: id, status: 'taken', scheduledFor: slot });
+    } catch (error) {
+        console.error('Error marking medication as taken:', error);
+        throw error;
+    }
+}
+
+/**
+ * Skip a scheduled dose on purpose
+ */
+export async function skipDose(id: string, scheduledFor: Date, note?: string): Promise<void> {
+    try {
+        await recordDose({ medicationId: id, status: 'skipped', scheduledFor, note });
+    } catch (error) {
+        console.error('Error skipping dose:', error);
+        throw error;
     }
+}
+
+/**
+ * Get today's medication schedule, with each slot's status from the dose log
+ */
+export function getTodaySchedule(): Promise<DailySchedule[]> {
+    return getScheduleForDay(new Date());
+}
+
+/**
+ * Get the medication schedule of any day, with each slot's status from the dose log
+ */
+export async function getScheduleForDay(day: Date): Promise<DailySchedule[]> {
+    try {
+        const db = await getMedicationDatabase();
+        const dayStart = new Date(day);
+        dayStart.setHours(0, 0, 0, 0);
+        const dayEnd = new Date(dayStart);
+        dayEnd.setHours(23, 59, 59, 999);
 
-    const duplicates: Array<{ ingredient: string; medications: MedicationRecord[] }> = [];
+        await recordMissedDoses();
+        const rows = await db.getAllAsync<{ id: string; analysis: string; regimen: string; time: string }>(
+            `SELECT m.id, m.analysis, m.regimen, s.time FROM schedules s
+             JOIN medications m ON m.id = s.medication_id
+             WHERE m.status = 'active' AND m.start_date <= ? AND (m.course_end IS NULL OR m.course_end > ?)
+             ORDER BY s.time`,
+            dayEnd.getTime(),
+            dayStart.getTime(),
+        );
 
-    for (const [ingredient, meds] of byIngredient) {
-        if (meds.length > 1) {
-            duplicates.push({ ingredient, medications: meds });
-        }
+        // Oldest first, so the latest event for a slot wins
+        const events = (await getDoseEvents({ from: dayStart, to: dayEnd }))
+            .filter(event => isDoseOutcome(event.status))
+            .reverse();
+        const bySlot = new Map(events
+            .filter(event => event.scheduledFor)
+            .map(event => [`${event.medicationId}@${event.scheduledFor!.getTime()}`, event]));
+        // Doses taken without a slot fill the earliest open slots
+        const unscheduled = events.filter(event => !event.scheduledFor && event.takenAt);
+
+        return rows.flatMap(row => {
+            const analysis: MedicineAnalysis = JSON.parse(row.analysis);
+            const regimen: Regimen = JSON.parse(row.regimen);
+            if (!isDoseDay(regimen, dayStart)) return [];
+
+            const scheduledFor = slotTime(dayStart, row.time);
+
+            let event = bySlot.get(`${row.id}@${scheduledFor.getTime()}`);
+            if (!event) {
+                const index = unscheduled.findIndex(e => e.medicationId === row.id);
+                if (index >= 0) event = unscheduled.splice(index, 1)[0];
+            }
+
+            return {
+                time: row.time,
+                medicationId: row.id,
+                medicationName: analysis.medicineName,
+                dosage: regimen.doseAmount ?? analysis.dosage,
+                instructions: regimen.mealTiming ? MEAL_TIMING_LABELS[regimen.mealTiming] : undefined,
+                scheduledFor,
+                status: event?.status,
+                eventId: event?.id,
+                taken: event?.status === 'taken' || event?.status === 'late',
+                takenAt: event?.takenAt,
+            };
+        });
+    } catch (error) {
+        console.error('Error getting schedule:', error);
+        return [];
     }
+}
 
-    return duplicates;
+/**
+ * Active medications that double up: the same ingredient after normalizing
+ * names, salts, strengths and combinations, or two drugs from the same class
+ */
+export async function findDuplicateMedications(): Promise<TherapeuticDuplicate[]> {
+    return findTherapeuticDuplicates(await getActiveMedications());
 }
 
 /**
@@ -192,9 +602,12 @@ export async function findDuplicateMedications(): Promise<Array<{
  */
 export async function deleteMedication(id: string): Promise<void> {
     try {
-        const medications = await getAllMedications();
-        const filtered = medications.filter(med => med.id !== id);
-        await AsyncStorage.setItem(MEDICATION_STORAGE_KEY, JSON.stringify(filtered));
+        const db = await getMedicationDatabase();
+        await cancelMedicationReminders(id);
+        await cancelRefillReminder(id);
+        // Schedules and dose events go with it (ON DELETE CASCADE)
+        await db.runAsync('DELETE FROM medications WHERE id = ?', id);
+        notifyListeners();
     } catch (error) {
         console.error('Error deleting medication:', error);
         throw error;
@@ -206,9 +619,26 @@ export async function deleteMedication(id: string): Promise<void> {
  */
 export async function clearAllMedications(): Promise<void> {
     try {
-        await AsyncStorage.removeItem(MEDICATION_STORAGE_KEY);
+        const db = await getMedicationDatabase();
+        const rows = await db.getAllAsync<{ id: string }>('SELECT id FROM medications');
+        for (const row of rows) {
+            await cancelMedicationReminders(row.id);
+            await cancelRefillReminder(row.id);
+        }
+        await db.runAsync('DELETE FROM medications');
+        notifyListeners();
     } catch (error) {
         console.error('Error clearing medications:', error);
         throw error;
     }
 }
+
+/**
+ * Be notified whenever a medication is added, changed or removed
+ */
+export function subscribeToMedications(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,244 @@
+export type RegimenKind = 'scheduled' | 'interval' | 'as-needed';
+export type MealTiming = 'before-meals' | 'with-meals' | 'after-meals' | 'empty-stomach' | 'bedtime';
+
+export interface Regimen {
+    kind: RegimenKind;
+    times: string[];          // "HH:MM" slots each day, sorted; empty for as-needed
+    intervalHours?: number;   // kind 'interval': hours between doses
+    mealTiming?: MealTiming;
+    doseAmount?: string;      // e.g. "1 tablet", "5 ml"
+    maxDailyDoses?: number;   // kind 'as-needed': upper limit, if the label gives one
+    courseDays?: number;      // Stop after this many days; unset means ongoing
+    daysOfWeek?: number[];    // Only on these days (0 = Sunday, as Date.getDay); unset means every day
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const MEAL_TIMING_LABELS: Record<MealTiming, string> = {
+    'before-meals': 'Before meals',
+    'with-meals': 'With meals',
+    'after-meals': 'After meals',
+    'empty-stomach': 'On an empty stomach',
+    'bedtime': 'At bedtime',
+};
+
+// Typical Filipino household meal times, used to place meal-relative doses
+const MEALS = ['07:00', '12:00', '18:00'];
+const MEAL_OFFSET_MINUTES: Partial<Record<MealTiming, number>> = {
+    'before-meals': -30,
+    'after-meals': 30,
+    'empty-stomach': -60,
+};
+const BEDTIME = '21:00';
+const FIRST_DOSE = '08:00';
+
+// Evenly spread default times for n doses a day
+const DEFAULT_TIMES: Record<number, string[]> = {
+    1: ['08:00'],
+    2: ['08:00', '20:00'],
+    3: ['08:00', '14:00', '20:00'],
+    4: ['08:00', '12:00', '16:00', '20:00'],
+};
+
+// Most specific first: "twice daily" must not match the once-a-day pattern
+const FREQUENCY_PATTERNS: [RegExp, number][] = [
+    [/\b(four times (a|per|every) day|qid|q\.i\.d\.?|4x a day|apat na beses)\b/, 4],
+    [/\b(three times (a|per|every) day|thrice (daily|a day)|tid|t\.i\.d\.?|3x a day|tatlong beses)\b/, 3],
+    [/\b(twice (a|per|every) day|twice daily|bid|b\.i\.d\.?|2x a day|dalawang beses)\b/, 2],
+    [/\b(once (a|per|every) day|once daily|daily|od|qd|1x a day|isang beses)\b/, 1],
+];
+
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+    const wrapped = ((total % 1440) + 1440) % 1440;
+    return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Whether a string is a valid 24-hour "HH:MM" time
+ */
+export function isValidTime(time: string): boolean {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    return !!match && Number(match[1]) < 24 && Number(match[2]) < 60;
+}
+
+/**
+ * Normalise, de-duplicate and sort a list of "HH:MM" times
+ */
+export function sortTimes(times: string[]): string[] {
+    const valid = times.filter(isValidTime).map(time => fromMinutes(toMinutes(time.trim())));
+    return [...new Set(valid)].sort((a, b) => toMinutes(a) - toMinutes(b));
+}
+
+/**
+ * Daily times for a dose every `intervalHours`, starting at `firstDose`
+ */
+export function intervalTimes(intervalHours: number, firstDose: string = FIRST_DOSE): string[] {
+    if (!(intervalHours > 0) || intervalHours > 24) return [firstDose];
+
+    const start = toMinutes(firstDose);
+    const times: string[] = [];
+    for (let offset = 0; offset < 24 * 60; offset += intervalHours * 60) {
+        times.push(fromMinutes(start + Math.round(offset)));
+    }
+    return sortTimes(times);
+}
+
+/**
+ * Daily times for `dosesPerDay` doses, placed around meals when the timing is meal-relative
+ */
+export function defaultTimes(dosesPerDay: number, mealTiming?: MealTiming, firstDose?: string): string[] {
+    if (mealTiming === 'bedtime' && dosesPerDay <= 1) return [BEDTIME];
+
+    if (mealTiming && mealTiming !== 'bedtime' && dosesPerDay <= MEALS.length) {
+        const meals = dosesPerDay === 1 ? [MEALS[0]] : dosesPerDay === 2 ? [MEALS[0], MEALS[2]] : MEALS;
+        const offset = MEAL_OFFSET_MINUTES[mealTiming] ?? 0;
+        return meals.map(meal => fromMinutes(toMinutes(meal) + offset));
+    }
+
+    if (firstDose && dosesPerDay <= 1) return [firstDose];
+    return DEFAULT_TIMES[dosesPerDay] ?? intervalTimes(24 / dosesPerDay, firstDose);
+}
+
+function parseNumber(value: string): number {
+    return WORD_NUMBERS[value] ?? Number(value);
+}
+
+/**
+ * Best-effort regimen from free-text dosage instructions such as
+ * "1 tab three times a day after meals for 7 days" or "every 8 hours as needed".
+ * `recommendedTime` (from the scan) anchors the first dose when the text gives no times.
+ * Unrecognised text yields a scheduled regimen with just that time, or no times at all.
+ */
+export function parseRegimen(dosage: string | undefined, recommendedTime?: string): Regimen {
+    const text = (dosage ?? '').toLowerCase().replace(/\s+/g, ' ');
+    const firstDose = recommendedTime && isValidTime(recommendedTime) ? sortTimes([recommendedTime])[0] : undefined;
+    const regimen: Regimen = { kind: 'scheduled', times: [] };
+
+    const amount = /(\d+(?:\.\d+)?|½|one|two|half)\s*(tablets?|tabs?|capsules?|caps?|ml|tsp|teaspoons?|puffs?|drops?|sachets?)\b/.exec(text);
+    if (amount) regimen.doseAmount = `${amount[1]} ${amount[2]}`;
+
+    if (/before (meals?|breakfast|eating)|\bac\b/.test(text)) regimen.mealTiming = 'before-meals';
+    else if (/after (meals?|breakfast|eating)|\bpc\b/.test(text)) regimen.mealTiming = 'after-meals';
+    else if (/with (meals?|food)/.test(text)) regimen.mealTiming = 'with-meals';
+    else if (/empty stomach/.test(text)) regimen.mealTiming = 'empty-stomach';
+    else if (/bedtime|before (sleep|bed)|\bhs\b|gabi bago matulog/.test(text)) regimen.mealTiming = 'bedtime';
+
+    const course = /(?:for|x|×)\s*(\d+|one|two|three|four|five|six)\s*(days?|weeks?)/.exec(text);
+    if (course) {
+        const count = parseNumber(course[1]);
+        regimen.courseDays = course[2].startsWith('week') ? count * 7 : count;
+    }
+
+    const weekdays = WEEKDAY_NAMES
+        .map((name, day) => new RegExp(`\\b${name}s?\\b`).test(text) ? day : -1)
+        .filter(day => day >= 0);
+    if (weekdays.length) {
+        regimen.daysOfWeek = weekdays;
+    } else if (/once (a|per|every) week|\bweekly\b/.test(text)) {
+        regimen.daysOfWeek = [new Date().getDay()];
+    }
+
+    const asNeeded = /as needed|when needed|if needed|\bprn\b|kung kailangan/.test(text);
+    const interval = /every (\d+(?:\.\d+)?|one|two|three|four|five|six)(?: ?(?:-|to) ?\d+)? ?(?:hours?|hrs?|h)\b|\bq ?(\d+) ?h\b/.exec(text);
+    const intervalHours = interval ? parseNumber(interval[1] ?? interval[2]) : undefined;
+
+    const maxDoses = /(?:not more than|no more than|max(?:imum)?(?: of)?|up to) (\d+|one|two|three|four|five|six) (?:tablets?|tabs?|capsules?|caps?|doses?|times)/.exec(text);
+
+    if (asNeeded) {
+        regimen.kind = 'as-needed';
+        if (intervalHours) regimen.intervalHours = intervalHours;
+        if (maxDoses) regimen.maxDailyDoses = parseNumber(maxDoses[1]);
+        return regimen;
+    }
+
+    if (intervalHours) {
+        regimen.kind = 'interval';
+        regimen.intervalHours = intervalHours;
+        regimen.times = intervalTimes(intervalHours, firstDose);
+        return regimen;
+    }
+
+    const timesPerDay = /(\d+|one|two|three|four|five|six) ?(?:times|x) (?:a|per|every) day|(\d+|one|two|three|four|five|six) ?(?:times|x) daily/.exec(text);
+    let dosesPerDay = timesPerDay
+        ? parseNumber(timesPerDay[1] ?? timesPerDay[2])
+        : FREQUENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+    if (!dosesPerDay && regimen.mealTiming) dosesPerDay = regimen.mealTiming === 'bedtime' ? 1 : MEALS.length;
+    if (!dosesPerDay && regimen.daysOfWeek) dosesPerDay = 1;
+
+    if (dosesPerDay) {
+        regimen.times = defaultTimes(dosesPerDay, regimen.mealTiming, firstDose);
+    } else if (firstDose) {
+        regimen.times = [firstDose];
+    }
+    return regimen;
+}
+
+/**
+ * Last day of the course (exclusive), or undefined when the regimen is ongoing
+ */
+export function getCourseEnd(regimen: Regimen, startDate: Date): Date | undefined {
+    if (!regimen.courseDays) return undefined;
+    const end = new Date(startDate);
+    end.setHours(0, 0, 0, 0);
+    end.setDate(end.getDate() + regimen.courseDays);
+    return end;
+}
+
+/**
+ * Whether the regimen has doses on the given day
+ */
+export function isDoseDay(regimen: Regimen, day: Date): boolean {
+    return !regimen.daysOfWeek?.length || regimen.daysOfWeek.includes(day.getDay());
+}
+
+function formatTime(time: string): string {
+    const minutes = toMinutes(time);
+    const hours = Math.floor(minutes / 60);
+    const suffix = hours < 12 ? 'AM' : 'PM';
+    return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * One-line summary for display and speech, e.g.
+ * "1 tablet, 3 times a day (8:00 AM, 2:00 PM, 8:00 PM), after meals, for 7 days"
+ */
+export function describeRegimen(regimen: Regimen): string {
+    const parts: string[] = [];
+    if (regimen.doseAmount) parts.push(regimen.doseAmount);
+
+    if (regimen.kind === 'as-needed') {
+        let text = 'as needed';
+        if (regimen.intervalHours) text += `, at least ${regimen.intervalHours} hours apart`;
+        if (regimen.maxDailyDoses) text += `, up to ${regimen.maxDailyDoses} a day`;
+        parts.push(text);
+    } else if (regimen.times.length === 0) {
+        parts.push('no set times');
+    } else {
+        const frequency = regimen.kind === 'interval'
+            ? `every ${regimen.intervalHours} hours`
+            : regimen.times.length === 1 ? 'once a day' : `${regimen.times.length} times a day`;
+        parts.push(`${frequency} (${regimen.times.map(formatTime).join(', ')})`);
+    }
+
+    if (regimen.daysOfWeek?.length) parts.push(`on ${regimen.daysOfWeek.map(day => WEEKDAY_LABELS[day]).join(', ')}`);
+    if (regimen.mealTiming) parts.push(MEAL_TIMING_LABELS[regimen.mealTiming].toLowerCase());
+    if (regimen.courseDays) parts.push(`for ${regimen.courseDays} day${regimen.courseDays !== 1 ? 's' : ''}`);
+    const summary = parts.join(', ');
+    return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+/**
+ * Short "when" label, e.g. "08:00, 20:00" or "As needed"
+ */
+export function formatRegimenTimes(regimen: Regimen): string {
+    if (regimen.kind === 'as-needed') return 'As needed';
+    return regimen.times.length ? regimen.times.join(', ') : '--';
+}
@@ -0,0 +1,141 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as Speech from 'expo-speech';
+import * as TaskManager from 'expo-task-manager';
+import { Vibration } from 'react-native';
+import { slotTime } from './doseLog';
+import { getActiveMedications, markMedicationTaken, skipDose } from './medicationStorage';
+import {
+    ALARM_TONES,
+    REALERT_REMINDER_KIND,
+    reconcileReminders,
+    REMINDER_ACTIONS,
+    REMINDER_KIND,
+    ReminderData,
+    SNOOZED_REMINDER_KIND,
+    snoozeReminder
+} from './reminders';
+
+const REMINDER_KINDS = [REMINDER_KIND, SNOOZED_REMINDER_KIND, REALERT_REMINDER_KIND];
+
+// Runs handleReminderResponse for buttons pressed while the app is in the
+// background or not running (Android delivers those only to a task)
+export const REMINDER_ACTION_TASK = 'reminder-action';
+
+// A response can arrive live, through the task and as the "last response" on
+// a cold start, possibly in different JS runtimes, so handled ones are stored
+const HANDLED_RESPONSES_KEY = 'handled_reminder_responses';
+const MAX_HANDLED_RESPONSES = 100;
+const handledResponses = new Set<string>();
+
+function getReminderData(notification: Notifications.Notification): ReminderData | null {
+    const data = notification.request.content.data as unknown as ReminderData | undefined;
+    return data && REMINDER_KINDS.includes(data.kind) ? data : null;
+}
+
+/**
+ * The dose slot a reminder is for: the original slot for a snoozed copy or
+ * re-alert, otherwise its regimen time on the day it fired
+ */
+function getSlot(notification: Notifications.Notification, data: ReminderData): Date {
+    if (data.scheduledFor) return new Date(data.scheduledFor);
+    return slotTime(new Date(notification.date), data.time);
+}
+
+/**
+ * Record a response as handled; false if it already was, here or in an
+ * earlier run of the app
+ */
+async function claimResponse(responseKey: string): Promise<boolean> {
+    if (handledResponses.has(responseKey)) return false;
+    handledResponses.add(responseKey);
+
+    try {
+        const json = await AsyncStorage.getItem(HANDLED_RESPONSES_KEY);
+        const stored: string[] = json ? JSON.parse(json) : [];
+        if (stored.includes(responseKey)) return false;
+        await AsyncStorage.setItem(HANDLED_RESPONSES_KEY, JSON.stringify([...stored, responseKey].slice(-MAX_HANDLED_RESPONSES)));
+    } catch (error) {
+        // Still handle it: the in-memory set covers this run
+        console.error('Error saving handled reminder responses:', error);
+    }
+    return true;
+}
+
+/**
+ * Vibrate and speak a reminder that arrives while the app is open
+ */
+export function announceReminder(notification: Notifications.Notification): void {
+    const data = notification.request.content.data;
+    // Not a medicine reminder (e.g. "Scan Ready")
+    if (!data?.medicine) return;
+
+    const medicineName = data.medicine;
+    const toneId = data.tone || 'standard';
+    const tone = ALARM_TONES.find(t => t.id === toneId);
+
+    if (toneId === 'silent') return;
+
+    // Vibrate
+    if (tone) Vibration.vibrate(tone.pattern);
+
+    // Speak the alarm
+    Speech.stop();
+    const urgency = toneId === 'alarm' || toneId === 'urgent';
+    const message = urgency
+        ? `Attention! It is time to take ${medicineName}. Please take your medicine now!`
+        : `Medicine reminder. It is time to take ${medicineName}.`;
+
+    Speech.speak(message, {
+        rate: urgency ? 1.2 : 1.0,
+        pitch: 1.0,
+        volume: 1.0,
+    });
+
+    // Repeat for urgent/alarm tones
+    if (urgency) {
+        setTimeout(() => {
+            Speech.speak(`Reminder: take ${medicineName} now.`, { rate: 1.1 });
+        }, 5000);
+    }
+}
+
+/**
+ * Apply a Taken / Snooze / Skip button press to the medication store.
+ * Returns true if the response was a reminder action (handled here), false
+ * for anything else, including a plain tap on the notification.
+ */
+export async function handleReminderResponse(response: Notifications.NotificationResponse): Promise<boolean> {
+    const { notification, actionIdentifier } = response;
+    const data = getReminderData(notification);
+    if (!data || !Object.values(REMINDER_ACTIONS).includes(actionIdentifier)) return false;
+
+    const responseKey = `${notification.request.identifier}:${notification.date}:${actionIdentifier}`;
+    if (!(await claimResponse(responseKey))) return true;
+
+    const scheduledFor = getSlot(notification, data);
+    try {
+        if (actionIdentifier === REMINDER_ACTIONS.taken) {
+            await markMedicationTaken(data.medicationId, scheduledFor);
+        } else if (actionIdentifier === REMINDER_ACTIONS.skip) {
+            await skipDose(data.medicationId, scheduledFor, 'Skipped from reminder');
+        } else {
+            await snoozeReminder(notification.request.content, scheduledFor);
+        }
+        await Notifications.dismissNotificationAsync(notification.request.identifier);
+        // Keeps a course's reminders going when the app itself isn't opened
+        await reconcileReminders(await getActiveMedications());
+    } catch (error) {
+        console.error('Error handling reminder action:', error);
+    }
+    return true;
+}
+
+// Defined when this module loads, so it exists in the runtime Android starts for the task
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(REMINDER_ACTION_TASK, async ({ data, error }) => {
+    if (error) {
+        console.error('Reminder action task failed:', error);
+        return;
+    }
+    if ('actionIdentifier' in data) await handleReminderResponse(data);
+});
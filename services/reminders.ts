@@ -0,0 +1,264 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { getDatabase } from './database';
+import { slotTime } from './doseLog';
+import type { MedicationRecord } from './medicationStorage';
+import { getCourseEnd, isDoseDay, MEAL_TIMING_LABELS } from './regimen';
+
+export const REMINDER_CHANNEL_ID = 'medicine-reminders';
+export const REMINDER_CATEGORY_ID = 'medication-reminder';
+
+// Buttons on a reminder (see setupReminderCategory)
+export const REMINDER_ACTIONS = {
+    taken: 'dose-taken',
+    snooze: 'dose-snooze',
+    skip: 'dose-skip',
+};
+
+export const SNOOZE_MINUTES = 10;
+
+// A course with an end gets one-off reminders this many days ahead, so none
+// ring after its last day; reconcileReminders tops the window up on app start
+// and after each reminder button press. Kept short because iOS holds at most
+// 64 scheduled notifications per app.
+const COURSE_REMINDER_DAYS = 7;
+
+// Marks our notifications in their data. Reconcile only touches REMINDER_KIND;
+// a snoozed copy or a missed-dose re-alert is a one-off and is left to fire.
+export const REMINDER_KIND = 'medication-reminder';
+export const SNOOZED_REMINDER_KIND = 'medication-reminder-snoozed';
+export const REALERT_REMINDER_KIND = 'medication-reminder-realert';
+
+export interface ReminderData {
+    kind: string;
+    medicationId: string;
+    medicine: string;
+    tone: string;
+    time: string;           // The regimen slot, "HH:MM"
+    scheduledFor?: number;  // Snoozed copies and re-alerts: the original slot's timestamp
+}
+
+// Alarm tone definitions
+export const ALARM_TONES = [
+    { id: 'gentle', name: 'Gentle', icon: 'musical-note', pattern: [0, 300, 200, 300], color: '#10B981' },
+    { id: 'standard', name: 'Standard', icon: 'notifications', pattern: [0, 400, 200, 400, 200, 400], color: '#0369A1' },
+    { id: 'urgent', name: 'Urgent', icon: 'alert-circle', pattern: [0, 200, 100, 200, 100, 200, 100, 200], color: '#F59E0B' },
+    { id: 'alarm', name: 'Alarm', icon: 'alarm', pattern: [0, 500, 100, 500, 100, 500, 100, 500], color: '#EF4444' },
+    { id: 'silent', name: 'Silent', icon: 'volume-mute', pattern: [0], color: '#64748B' },
+];
+
+export const DEFAULT_TONE_ID = 'standard';
+
+interface ReminderSlot {
+    time: string;           // "HH:MM"
+    weekday: number | null; // expo's 1 (Sunday) to 7; null repeats daily
+    tone: string;
+    fire_at: number | null; // Set for a one-off course reminder, which fires then and doesn't repeat
+}
+
+interface ReminderRow extends ReminderSlot {
+    notification_id: string;
+    medication_id: string;
+}
+
+const slotKey = (slot: ReminderSlot) => `${slot.time}@${slot.weekday ?? '*'}@${slot.tone}@${slot.fire_at ?? '*'}`;
+
+/**
+ * Android channel the reminders are posted to. Safe to call repeatedly.
+ */
+export async function setupReminderChannel(): Promise<void> {
+    if (Platform.OS !== 'android') return;
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Medicine Reminders',
+        importance: Notifications.AndroidImportance.MAX,
+        sound: 'default',
+        vibrationPattern: [0, 250, 250, 250],
+        enableVibrate: true,
+        showBadge: true,
+    });
+}
+
+/**
+ * Taken / Snooze / Skip buttons shown on reminders. Safe to call repeatedly.
+ */
+export async function setupReminderCategory(): Promise<void> {
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY_ID, [
+        { identifier: REMINDER_ACTIONS.taken, buttonTitle: 'Taken', options: { opensAppToForeground: false } },
+        { identifier: REMINDER_ACTIONS.snooze, buttonTitle: `Snooze ${SNOOZE_MINUTES} min`, options: { opensAppToForeground: false } },
+        { identifier: REMINDER_ACTIONS.skip, buttonTitle: 'Skip', options: { opensAppToForeground: false, isDestructive: true } },
+    ]);
+}
+
+/**
+ * Show the reminder again in SNOOZE_MINUTES. The copy keeps the original
+ * slot, so a dose logged from it still lands on that slot.
+ */
+export async function snoozeReminder(content: Notifications.NotificationContent, scheduledFor: Date): Promise<void> {
+    const data = content.data as unknown as ReminderData;
+    const snoozed: ReminderData = { ...data, kind: SNOOZED_REMINDER_KIND, scheduledFor: scheduledFor.getTime() };
+
+    await Notifications.scheduleNotificationAsync({
+        content: {
+            title: content.title ?? '💊 Medicine Reminder',
+            body: content.body,
+            sound: data.tone !== 'silent',
+            data: { ...snoozed },
+            categoryIdentifier: REMINDER_CATEGORY_ID,
+        },
+        trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+            seconds: SNOOZE_MINUTES * 60,
+            channelId: REMINDER_CHANNEL_ID,
+        },
+    });
+}
+
+/**
+ * The notifications a medication should have right now: one repeating
+ * reminder per regimen time (per weekday for weekly regimens), or for a
+ * course with an end, one per dose in the next COURSE_REMINDER_DAYS up to
+ * its last day. None once it is inactive or taken as needed.
+ */
+function getReminderSlots(med: MedicationRecord): ReminderSlot[] {
+    if (med.status !== 'active' || med.regimen.kind === 'as-needed') return [];
+
+    const tone = med.reminderTone ?? DEFAULT_TONE_ID;
+    const courseEnd = getCourseEnd(med.regimen, med.startDate);
+    if (!courseEnd) {
+        const weekdays = med.regimen.daysOfWeek?.length ? med.regimen.daysOfWeek.map(day => day + 1) : [null];
+        return med.regimen.times.flatMap(time => weekdays.map(weekday => ({ time, weekday, tone, fire_at: null })));
+    }
+
+    const now = Date.now();
+    const windowEnd = new Date(now);
+    windowEnd.setDate(windowEnd.getDate() + COURSE_REMINDER_DAYS);
+    const until = Math.min(courseEnd.getTime(), windowEnd.getTime());
+
+    const slots: ReminderSlot[] = [];
+    for (const day = new Date(now); day.getTime() < until; day.setDate(day.getDate() + 1)) {
+        if (!isDoseDay(med.regimen, day)) continue;
+        for (const time of med.regimen.times) {
+            const fireAt = slotTime(day, time).getTime();
+            if (fireAt > now && fireAt >= med.startDate.getTime() && fireAt < until) {
+                slots.push({ time, weekday: null, tone, fire_at: fireAt });
+            }
+        }
+    }
+    return slots;
+}
+
+async function scheduleSlot(med: MedicationRecord, slot: ReminderSlot): Promise<string> {
+    const [hour, minute] = slot.time.split(':').map(Number);
+    const tone = ALARM_TONES.find(t => t.id === slot.tone) || ALARM_TONES[1];
+    const details = [med.regimen.doseAmount, med.regimen.mealTiming && MEAL_TIMING_LABELS[med.regimen.mealTiming]]
+        .filter(Boolean)
+        .join(', ');
+    const data: ReminderData = { kind: REMINDER_KIND, medicationId: med.id, medicine: med.analysis.medicineName, tone: slot.tone, time: slot.time };
+
+    return Notifications.scheduleNotificationAsync({
+        content: {
+            title: '💊 Medicine Reminder',
+            body: `It's time for your ${med.analysis.medicineName}${details ? ` (${details})` : ''}`,
+            sound: slot.tone !== 'silent',
+            data: { ...data },
+            categoryIdentifier: REMINDER_CATEGORY_ID,
+            priority: slot.tone === 'urgent' || slot.tone === 'alarm'
+                ? Notifications.AndroidNotificationPriority.MAX
+                : Notifications.AndroidNotificationPriority.HIGH,
+            vibrate: tone.pattern,
+        },
+        trigger: slot.fire_at !== null
+            ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: slot.fire_at, channelId: REMINDER_CHANNEL_ID }
+            : slot.weekday === null
+                ? { type: Notifications.SchedulableTriggerInputTypes.DAILY, hour, minute, channelId: REMINDER_CHANNEL_ID }
+                : { type: Notifications.SchedulableTriggerInputTypes.WEEKLY, weekday: slot.weekday, hour, minute, channelId: REMINDER_CHANNEL_ID },
+    });
+}
+
+/**
+ * Cancel every reminder of a medication and forget their ids
+ */
+export async function cancelMedicationReminders(medicationId: string): Promise<void> {
+    try {
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<ReminderRow>('SELECT * FROM reminders WHERE medication_id = ?', medicationId);
+        for (const row of rows) {
+            await Notifications.cancelScheduledNotificationAsync(row.notification_id);
+        }
+        await db.runAsync('DELETE FROM reminders WHERE medication_id = ?', medicationId);
+    } catch (error) {
+        console.error('Error cancelling reminders:', error);
+    }
+}
+
+/**
+ * Replace a medication's reminders with ones matching its current regimen.
+ * Schedules nothing without notification permission (it never prompts);
+ * reconcileReminders catches up once permission is granted.
+ */
+export async function syncMedicationReminders(med: MedicationRecord): Promise<void> {
+    await cancelMedicationReminders(med.id);
+
+    const slots = getReminderSlots(med);
+    if (slots.length === 0) return;
+
+    try {
+        const { granted } = await Notifications.getPermissionsAsync();
+        if (!granted) return;
+
+        const db = await getDatabase();
+        for (const slot of slots) {
+            const notificationId = await scheduleSlot(med, slot);
+            await db.runAsync(
+                'INSERT INTO reminders (notification_id, medication_id, time, weekday, tone, fire_at) VALUES (?, ?, ?, ?, ?, ?)',
+                notificationId, med.id, slot.time, slot.weekday, slot.tone, slot.fire_at,
+            );
+        }
+    } catch (error) {
+        console.error('Error scheduling reminders:', error);
+    }
+}
+
+/**
+ * Bring scheduled notifications in line with the active medications (run on
+ * app start and after reminder actions): reschedule any medication whose
+ * stored reminders are missing or out of date, which moves a course's window
+ * of one-off reminders forward, and cancel reminders of medications that are
+ * no longer active.
+ */
+export async function reconcileReminders(activeMedications: MedicationRecord[]): Promise<void> {
+    try {
+        await setupReminderChannel();
+        await setupReminderCategory();
+
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<ReminderRow>('SELECT * FROM reminders');
+        const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+        const scheduledIds = new Set(scheduled.map(n => n.identifier));
+
+        // Ours, but not tracked (e.g. the app was killed mid-sync)
+        const trackedIds = new Set(rows.map(row => row.notification_id));
+        for (const notification of scheduled) {
+            if (notification.content.data?.kind === REMINDER_KIND && !trackedIds.has(notification.identifier)) {
+                await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+            }
+        }
+
+        const activeIds = new Set(activeMedications.map(med => med.id));
+        for (const medicationId of new Set(rows.map(row => row.medication_id))) {
+            if (!activeIds.has(medicationId)) await cancelMedicationReminders(medicationId);
+        }
+
+        // One-off course reminders that already fired are done, not missing
+        const now = Date.now();
+        for (const med of activeMedications) {
+            const stored = rows.filter(row => row.medication_id === med.id && (row.fire_at === null || row.fire_at > now));
+            const expected = getReminderSlots(med).map(slotKey).sort();
+            const upToDate = stored.every(row => scheduledIds.has(row.notification_id)) &&
+                stored.map(slotKey).sort().join() === expected.join();
+            if (!upToDate) await syncMedicationReminders(med);
+        }
+    } catch (error) {
+        console.error('Error reconciling reminders:', error);
+    }
+}
@@ -0,0 +1,508 @@
+import type { AffordabilityInfo, DrugInteraction, InteractionReport, MedicineAnalysis } from './gemini';
+
+/**
+ * Version of the response shape this parser understands.
+ * Models may wrap results as { "schemaVersion": 1, "medicines": [...] };
+ * bare arrays/objects are treated as the current version.
+ */
+export const RESPONSE_SCHEMA_VERSION = 1;
+
+export type FieldErrorCode = 'missing' | 'invalid-type' | 'invalid-format' | 'invalid-value' | 'unsupported-version' | 'malformed-json';
+
+export interface FieldError {
+    path: string;       // e.g. "[0].affordability.governmentPrograms"
+    code: FieldErrorCode;
+    message: string;
+}
+
+export type ParseResult<T> =
+    | { ok: true; value: T; schemaVersion: number; repaired: boolean; warnings: FieldError[] }
+    | { ok: false; errors: FieldError[]; raw: string };
+
+// ========== JSON REPAIR ==========
+
+/**
+ * Balances brackets and quotes of a (possibly truncated) JSON string
+ */
+function closeJson(text: string): string {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') stack.push('}');
+        else if (char === '[') stack.push(']');
+        else if (char === '}' || char === ']') stack.pop();
+    }
+
+    let closed = text;
+    if (inString) closed += '"';
+    // A dangling separator or key can't be closed, so drop it
+    closed = closed.replace(/,\s*$/, '').replace(/,?\s*"[^"]*"\s*:\s*$/, '');
+    return closed + stack.reverse().join('');
+}
+
+/**
+ * Position of every top-level-or-nested comma that sits outside a string
+ */
+function commaPositions(text: string): number[] {
+    const positions: number[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === ',') {
+            positions.push(i);
+        }
+    }
+    return positions;
+}
+
+function tryParse(text: string): { value: unknown } | null {
+    try {
+        return { value: JSON.parse(text) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parses model output that may be fenced, prefixed with prose, use smart
+ * quotes, carry trailing commas, or be cut off mid-object.
+ */
+export function repairJson(text: string): { value: unknown; repaired: boolean } | null {
+    const stripped = text.replace(/```json/gi, '').replace(/```/g, '').trim();
+
+    const direct = tryParse(stripped);
+    if (direct) return { value: direct.value, repaired: false };
+
+    const start = stripped.search(/[[{]/);
+    if (start === -1) return null;
+
+    let candidate = stripped
+        .slice(start)
+        .replace(/[“”]/g, '"')
+        .replace(/,\s*([}\]])/g, '$1');
+
+    // Drop prose after the last closing bracket
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (end !== -1) {
+        const trimmed = tryParse(candidate.slice(0, end + 1));
+        if (trimmed) return { value: trimmed.value, repaired: true };
+    }
+
+    // Truncated output: close what is open, backing off one element at a time
+    for (let attempt = 0; attempt < 20; attempt++) {
+        const parsed = tryParse(closeJson(candidate));
+        if (parsed) return { value: parsed.value, repaired: true };
+
+        const commas = commaPositions(candidate);
+        if (commas.length === 0) break;
+        candidate = candidate.slice(0, commas[commas.length - 1]);
+    }
+
+    return null;
+}
+
+// ========== FIELD COERCION ==========
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) =>
+    value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const NAMED_TIMES: Record<string, string> = {
+    morning: '08:00',
+    breakfast: '08:00',
+    noon: '12:00',
+    lunch: '12:00',
+    afternoon: '15:00',
+    evening: '18:00',
+    dinner: '18:00',
+    night: '21:00',
+    bedtime: '21:00',
+};
+
+/**
+ * Coerces "8 AM", "8:30pm", "20:00", "0800" or "bedtime" to strict "HH:MM".
+ * Returns undefined when the value can't be read as a time of day.
+ */
+export function normalizeTime(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const text = value.trim().toLowerCase();
+    if (!text) return undefined;
+
+    for (const [name, time] of Object.entries(NAMED_TIMES)) {
+        if (text === name || text === `at ${name}`) return time;
+    }
+
+    const match = text.match(/^(\d{1,2})(?::?(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/);
+    if (!match) return undefined;
+
+    let hour = Number(match[1]);
+    const minute = match[2] ? Number(match[2]) : 0;
+    const meridiem = match[3]?.[0];
+
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return undefined;
+        if (meridiem === 'p' && hour < 12) hour += 12;
+        if (meridiem === 'a' && hour === 12) hour = 0;
+    } else if (!match[2]) {
+        // A bare number like "8" is too ambiguous to schedule
+        return undefined;
+    }
+
+    if (hour > 23 || minute > 59) return undefined;
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+class FieldReader {
+    constructor(private readonly item: Record<string, unknown>, private readonly path: string, readonly issues: FieldError[]) { }
+
+    private at(key: string) {
+        return `${this.path}.${key}`;
+    }
+
+    requiredString(key: string): string | undefined {
+        const value = this.item[key];
+        if (isBlank(value)) {
+            this.issues.push({ path: this.at(key), code: 'missing', message: `${key} is required` });
+            return undefined;
+        }
+        if (typeof value !== 'string') {
+            this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} must be a string` });
+            return undefined;
+        }
+        return value.trim();
+    }
+
+    text(key: string, fallback: string): string {
+        const value = this.item[key];
+        if (isBlank(value)) {
+            this.issues.push({ path: this.at(key), code: 'missing', message: `${key} missing, using "${fallback}"` });
+            return fallback;
+        }
+        if (typeof value === 'string') return value.trim();
+        if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join('. ');
+        if (typeof value === 'number') return String(value);
+        this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} must be text, using "${fallback}"` });
+        return fallback;
+    }
+
+    optionalText(key: string): string | undefined {
+        const value = this.item[key];
+        if (isBlank(value)) return undefined;
+        if (typeof value === 'string') return value.trim();
+        if (typeof value === 'number') return String(value);
+        this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} must be text` });
+        return undefined;
+    }
+
+    optionalBoolean(key: string): boolean | undefined {
+        const value = this.item[key];
+        if (isBlank(value)) return undefined;
+        if (typeof value === 'boolean') return value;
+        if (typeof value === 'string') {
+            const lowered = value.trim().toLowerCase();
+            if (['true', 'yes', 'y'].includes(lowered)) return true;
+            if (['false', 'no', 'n'].includes(lowered)) return false;
+        }
+        this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} must be true or false` });
+        return undefined;
+    }
+
+    optionalCount(key: string): number | undefined {
+        const value = this.item[key];
+        if (isBlank(value)) return undefined;
+        // Accept "30", "30 tablets" or "Box of 30"
+        const count = typeof value === 'number' ? value : Number(/\d+(\.\d+)?/.exec(String(value))?.[0]);
+        if (Number.isFinite(count) && count > 0) return count;
+        this.issues.push({ path: this.at(key), code: 'invalid-value', message: `${key} "${String(value)}" is not a positive number` });
+        return undefined;
+    }
+
+    stringList(key: string): string[] {
+        const value = this.item[key];
+        if (isBlank(value)) return [];
+        if (typeof value === 'string') {
+            return value.split(/[,;\n]/).map(s => s.trim()).filter(Boolean);
+        }
+        if (Array.isArray(value)) {
+            const strings = value.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+            if (strings.length !== value.length) {
+                this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} contained non-text entries` });
+            }
+            return strings.map(s => s.trim());
+        }
+        this.issues.push({ path: this.at(key), code: 'invalid-type', message: `${key} must be a list` });
+        return [];
+    }
+
+    time(key: string): string | undefined {
+        const value = this.item[key];
+        if (isBlank(value)) return undefined;
+        const normalized = normalizeTime(value);
+        if (!normalized) {
+            this.issues.push({ path: this.at(key), code: 'invalid-format', message: `${key} "${String(value)}" is not a valid HH:MM time` });
+        }
+        return normalized;
+    }
+}
+
+// ========== SCHEMAS ==========
+
+/**
+ * Validates an affordability object. Missing data falls back to the
+ * defaults every Philippine medicine qualifies for.
+ */
+export function validateAffordability(value: unknown, path: string = 'affordability'): { value: AffordabilityInfo; warnings: FieldError[] } {
+    const warnings: FieldError[] = [];
+    if (isBlank(value)) {
+        return { value: { seniorDiscountEligible: true, governmentPrograms: [] }, warnings };
+    }
+    if (!isRecord(value)) {
+        warnings.push({ path, code: 'invalid-type', message: 'affordability must be an object' });
+        return { value: { seniorDiscountEligible: true, governmentPrograms: [] }, warnings };
+    }
+
+    const reader = new FieldReader(value, path, warnings);
+    return {
+        value: {
+            genericAlternative: reader.optionalText('genericAlternative'),
+            estimatedSavings: reader.optionalText('estimatedSavings'),
+            seniorDiscountEligible: reader.optionalBoolean('seniorDiscountEligible') !== false,
+            philHealthCoverage: reader.optionalText('philHealthCoverage'),
+            governmentPrograms: reader.stringList('governmentPrograms'),
+        },
+        warnings,
+    };
+}
+
+/**
+ * Validates one medicine object. Only a missing/invalid medicineName is fatal;
+ * other fields are coerced or defaulted and reported as warnings.
+ */
+export function validateMedicineAnalysis(value: unknown, path: string = '[0]'): { value?: MedicineAnalysis; errors: FieldError[]; warnings: FieldError[] } {
+    if (!isRecord(value)) {
+        return { errors: [{ path, code: 'invalid-type', message: 'medicine entry must be an object' }], warnings: [] };
+    }
+
+    const errors: FieldError[] = [];
+    const warnings: FieldError[] = [];
+    const required = new FieldReader(value, path, errors);
+    const reader = new FieldReader(value, path, warnings);
+
+    const medicineName = required.requiredString('medicineName');
+    if (!medicineName) return { errors, warnings };
+
+    const affordability = validateAffordability(value.affordability, `${path}.affordability`);
+    warnings.push(...affordability.warnings);
+
+    return {
+        value: {
+            medicineName,
+            activeIngredients: reader.text('activeIngredients', 'Not identified'),
+            commonUses: reader.text('commonUses', 'Not available'),
+            dosage: reader.text('dosage', 'Not visible'),
+            warnings: reader.text('warnings', 'Consult a doctor'),
+            recommendedTime: reader.time('recommendedTime'),
+            packQuantity: reader.optionalCount('packQuantity'),
+            foodWarnings: reader.stringList('foodWarnings'),
+            prescribedBy: reader.optionalText('prescribedBy'),
+            hospital: reader.optionalText('hospital'),
+            signatureVerified: reader.optionalBoolean('signatureVerified'),
+            licenseNumber: reader.optionalText('licenseNumber'),
+            patientName: reader.optionalText('patientName'),
+            patientAge: reader.optionalText('patientAge'),
+            patientSex: reader.optionalText('patientSex'),
+            affordability: affordability.value,
+        },
+        errors,
+        warnings,
+    };
+}
+
+const SEVERITY_ALIASES: Record<string, InteractionReport['severity']> = {
+    high: 'high',
+    severe: 'high',
+    major: 'high',
+    medium: 'medium',
+    moderate: 'medium',
+    low: 'low',
+    minor: 'low',
+    none: 'none',
+};
+
+function readSeverity(value: unknown): InteractionReport['severity'] | undefined {
+    return typeof value === 'string' ? SEVERITY_ALIASES[value.trim().toLowerCase()] : undefined;
+}
+
+const SEVERITY_RANK: Record<InteractionReport['severity'], number> = { high: 3, medium: 2, low: 1, none: 0 };
+
+/**
+ * Validates one interacting pair or group. It needs at least two medicines
+ * and a severity; missing explanations fall back to general advice.
+ */
+export function validateDrugInteraction(value: unknown, path: string = 'interactions[0]'): { value?: DrugInteraction; errors: FieldError[]; warnings: FieldError[] } {
+    if (!isRecord(value)) {
+        return { errors: [{ path, code: 'invalid-type', message: 'interaction must be an object' }], warnings: [] };
+    }
+
+    const errors: FieldError[] = [];
+    const warnings: FieldError[] = [];
+    const reader = new FieldReader(value, path, warnings);
+
+    const medicines = new FieldReader(value, path, errors).stringList('medicines');
+    if (medicines.length < 2) {
+        errors.push({ path: `${path}.medicines`, code: 'invalid-value', message: 'interaction must name at least two medicines' });
+    }
+    const severity = readSeverity(value.severity);
+    if (!severity || severity === 'none') {
+        errors.push({ path: `${path}.severity`, code: 'invalid-value', message: `severity "${String(value.severity)}" is not high, medium or low` });
+    }
+    if (errors.length > 0 || !severity || severity === 'none') return { errors, warnings };
+
+    return {
+        value: {
+            medicines,
+            severity,
+            mechanism: reader.text('mechanism', 'Not explained'),
+            effect: reader.text('effect', 'Not explained'),
+            action: reader.text('action', 'Ask your doctor or pharmacist before taking these together'),
+        },
+        errors,
+        warnings,
+    };
+}
+
+/**
+ * Validates an interaction report. Severity synonyms ("moderate", "severe")
+ * are mapped onto the four levels the UI knows. Invalid pairs are dropped
+ * with a warning; the overall severity is at least the worst remaining pair.
+ */
+export function validateInteractionReport(value: unknown, path: string = '$'): { value?: InteractionReport; errors: FieldError[]; warnings: FieldError[] } {
+    if (!isRecord(value)) {
+        return { errors: [{ path, code: 'invalid-type', message: 'interaction report must be an object' }], warnings: [] };
+    }
+
+    const errors: FieldError[] = [];
+    const warnings: FieldError[] = [];
+    const reader = new FieldReader(value, path, errors);
+
+    const interactions: DrugInteraction[] = [];
+    if (Array.isArray(value.interactions)) {
+        value.interactions.forEach((item, index) => {
+            const result = validateDrugInteraction(item, `${path}.interactions[${index}]`);
+            warnings.push(...result.errors, ...result.warnings);
+            if (result.value) interactions.push(result.value);
+        });
+    } else if (!isBlank(value.interactions)) {
+        warnings.push({ path: `${path}.interactions`, code: 'invalid-type', message: 'interactions must be a list' });
+    }
+    interactions.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+    const worst = interactions[0]?.severity ?? 'none';
+    let severity = readSeverity(value.severity);
+    if (!severity && interactions.length === 0) {
+        errors.push({ path: `${path}.severity`, code: 'invalid-value', message: `severity "${String(value.severity)}" is not high, medium, low or none` });
+    }
+    if (!severity || SEVERITY_RANK[worst] > SEVERITY_RANK[severity]) severity = worst;
+
+    const description = reader.requiredString('description');
+    const hasConflict = reader.optionalBoolean('hasConflict');
+
+    if (errors.length > 0 || !description) return { errors, warnings };
+
+    return {
+        value: {
+            hasConflict: interactions.length > 0 || (hasConflict ?? severity !== 'none'),
+            severity,
+            description,
+            interactions,
+        },
+        errors,
+        warnings,
+    };
+}
+
+// ========== ENTRY POINTS ==========
+
+function unwrapEnvelope(value: unknown, key: string): { items: unknown; version: number } | FieldError {
+    if (isRecord(value) && key in value) {
+        const version = Number(value.schemaVersion ?? value.version ?? RESPONSE_SCHEMA_VERSION);
+        if (!Number.isFinite(version) || version > RESPONSE_SCHEMA_VERSION) {
+            return { path: '$.schemaVersion', code: 'unsupported-version', message: `schema version ${String(value.schemaVersion ?? value.version)} is not supported` };
+        }
+        return { items: value[key], version };
+    }
+    return { items: value, version: RESPONSE_SCHEMA_VERSION };
+}
+
+/**
+ * Parses a medicine-image response into validated MedicineAnalysis entries.
+ * Invalid entries are dropped; the result only fails when nothing usable remains.
+ */
+export function parseMedicineList(text: string): ParseResult<MedicineAnalysis[]> {
+    const repaired = repairJson(text);
+    if (!repaired) {
+        return { ok: false, errors: [{ path: '$', code: 'malformed-json', message: 'Response is not JSON' }], raw: text };
+    }
+
+    const envelope = unwrapEnvelope(repaired.value, 'medicines');
+    if ('code' in envelope) return { ok: false, errors: [envelope], raw: text };
+
+    const items = Array.isArray(envelope.items) ? envelope.items : [envelope.items];
+    const medicines: MedicineAnalysis[] = [];
+    const errors: FieldError[] = [];
+    const warnings: FieldError[] = [];
+
+    items.forEach((item, index) => {
+        const result = validateMedicineAnalysis(item, `[${index}]`);
+        warnings.push(...result.warnings);
+        if (result.value) medicines.push(result.value);
+        else errors.push(...result.errors);
+    });
+
+    if (medicines.length === 0) {
+        return {
+            ok: false,
+            errors: errors.length > 0 ? errors : [{ path: '$', code: 'missing', message: 'No medicines in response' }],
+            raw: text,
+        };
+    }
+
+    return { ok: true, value: medicines, schemaVersion: envelope.version, repaired: repaired.repaired, warnings: [...errors, ...warnings] };
+}
+
+/**
+ * Parses an interaction-check response into a validated InteractionReport
+ */
+export function parseInteractionReport(text: string): ParseResult<InteractionReport> {
+    const repaired = repairJson(text);
+    if (!repaired) {
+        return { ok: false, errors: [{ path: '$', code: 'malformed-json', message: 'Response is not JSON' }], raw: text };
+    }
+
+    const envelope = unwrapEnvelope(repaired.value, 'report');
+    if ('code' in envelope) return { ok: false, errors: [envelope], raw: text };
+
+    const result = validateInteractionReport(envelope.items);
+    if (!result.value) return { ok: false, errors: result.errors, raw: text };
+
+    return { ok: true, value: result.value, schemaVersion: envelope.version, repaired: repaired.repaired, warnings: result.warnings };
+}
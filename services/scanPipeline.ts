@@ -0,0 +1,93 @@
+import { getAIProvider } from './aiProvider';
+import { AnalysisOptions, InteractionReport, MedicineAnalysis, PROMPT_VERSION } from './gemini';
+import { persistImage } from './imageStore';
+import { checkInteractions, narrowReport } from './interactions';
+import { isSameMedicine, MedicationMatch, matchScannedMedicines } from './medicationMatching';
+import { getActiveMedications, saveMedication } from './medicationStorage';
+import { RESPONSE_SCHEMA_VERSION } from './responseSchema';
+import { getScan, SavedScan, saveScan, ScanDetails, updateScan } from './storage';
+
+/**
+ * Interaction check for a scan's medicines together with the user's active
+ * medications (other than ones the scan shows again); null when that makes
+ * only one medicine. Only pairs involving a scanned medicine are kept: pairs
+ * among the active medications are the standing review's (interactionReview.ts).
+ */
+export async function checkScanInteractions(analysis: MedicineAnalysis[], options?: AnalysisOptions): Promise<InteractionReport | null> {
+    const active = (await getActiveMedications())
+        .filter(med => !analysis.some(medicine => isSameMedicine(medicine, med.analysis)));
+    const medicines = [...analysis, ...active.map(med => med.analysis)];
+    if (medicines.length < 2) return null;
+
+    const report = narrowReport(await checkInteractions(medicines, options), analysis);
+    return active.length ? { ...report, checkedWith: active.map(med => med.analysis.medicineName) } : report;
+}
+
+export interface CompletedScan {
+    scan: SavedScan;
+    matches: MedicationMatch[]; // Medicines already in My Medications, left for the user to resolve
+}
+
+/**
+ * Persist a successful analysis: copy the photo into the image store, add it
+ * to recent scans (with the interaction report the user saw and how it was
+ * produced) and save each new medicine to My Medications. Medicines that are
+ * already there are not saved again but returned as matches. Shared by live
+ * scans and the offline queue. A refill scan only re-reads a known medicine's
+ * box, so it passes saveMedications: false. skipMedicines stay in the scan
+ * but are not added, e.g. ones the user declined after a Medical ID warning.
+ * Re-analyzing a photo already in history passes its id as replaceScanId, so
+ * that scan is updated (keeping its stored photo) instead of a second one
+ * added, and medicines already saved from that photo are left alone.
+ */
+export async function completeScan(
+    photoUri: string,
+    analysis: MedicineAnalysis[],
+    interactionReport: InteractionReport | null,
+    startedAt: number,
+    { saveMedications = true, skipMedicines = [], replaceScanId }: {
+        saveMedications?: boolean;
+        skipMedicines?: MedicineAnalysis[];
+        replaceScanId?: string;
+    } = {},
+): Promise<CompletedScan> {
+    // A scan to replace that was deleted from history meanwhile is saved as new
+    const replaced = replaceScanId ? await getScan(replaceScanId) : null;
+    const imageUri = replaced ? replaced.imageUri : await persistImage(photoUri);
+
+    let model: string | undefined;
+    try {
+        model = (await getAIProvider()).model;
+    } catch {
+        // Provider went away after the analysis finished; the scan is still worth keeping
+    }
+
+    const details: ScanDetails = {
+        interactionReport,
+        model,
+        promptVersion: PROMPT_VERSION,
+        schemaVersion: RESPONSE_SCHEMA_VERSION,
+        durationMs: Date.now() - startedAt,
+    };
+    let scan: SavedScan;
+    if (replaced) {
+        await updateScan(replaced.id, { analysis, ...details });
+        scan = { ...replaced, analysis, ...details };
+    } else {
+        scan = await saveScan(analysis, imageUri, details);
+    }
+
+    if (!saveMedications) return { scan, matches: [] };
+
+    const toSave = analysis.filter(medicine => !skipMedicines.includes(medicine));
+    const { matches, unmatched } = await matchScannedMedicines(imageUri, toSave);
+    for (const medicine of unmatched) {
+        try {
+            await saveMedication(imageUri, medicine);
+        } catch (err) {
+            console.error('Error saving to medication storage:', err);
+        }
+    }
+
+    return { scan, matches };
+}
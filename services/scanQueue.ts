@@ -0,0 +1,229 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as Notifications from 'expo-notifications';
+import { classifyAIError } from './aiRequest';
+import { checkAgainstMedicalId } from './contraindications';
+import { analyzeMedicineImage } from './gemini';
+import { persistImage } from './imageStore';
+import { savePendingMatches } from './medicationMatching';
+import { checkScanInteractions, completeScan } from './scanPipeline';
+
+export type PendingScanStatus = 'pending' | 'analyzing' | 'failed';
+
+export interface PendingScan {
+    id: string;
+    imageUri: string;
+    createdAt: number;
+    status: PendingScanStatus;
+    attempts: number;
+    lastError?: string;
+    retryAt?: number;   // Failed while online: not tried again before this
+}
+
+const QUEUE_KEY = 'pending_scans';
+const MAX_ATTEMPTS = 3;
+// Wait before retrying a scan that failed while online; doubles with each attempt
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+let isProcessing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(scans: PendingScan[]) => void>();
+
+async function writeQueue(scans: PendingScan[]): Promise<void> {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(scans));
+    listeners.forEach(listener => listener(scans));
+}
+
+async function updatePendingScan(id: string, changes: Partial<PendingScan>): Promise<void> {
+    const scans = await getPendingScans();
+    await writeQueue(scans.map(scan => scan.id === id ? { ...scan, ...changes } : scan));
+}
+
+const isOnline = (state: NetInfoState) =>
+    !!state.isConnected && state.isInternetReachable !== false;
+
+/**
+ * Every scan still waiting for analysis, oldest first. Throws if the queue
+ * can't be read; see getPendingScans for the UI.
+ */
+export async function readPendingScans(): Promise<PendingScan[]> {
+    const json = await AsyncStorage.getItem(QUEUE_KEY);
+    return json ? JSON.parse(json) : [];
+}
+
+/**
+ * Get every scan still waiting for analysis, oldest first
+ */
+export async function getPendingScans(): Promise<PendingScan[]> {
+    try {
+        return await readPendingScans();
+    } catch (error) {
+        console.error('Failed to load pending scans:', error);
+        return [];
+    }
+}
+
+/**
+ * Queue a photo to be analyzed once the device is back online.
+ * The photo is moved into the image store first so the OS can't purge it while waiting.
+ */
+export async function enqueueScan(photoUri: string): Promise<PendingScan> {
+    const pending: PendingScan = {
+        id: Date.now().toString(),
+        imageUri: await persistImage(photoUri),
+        createdAt: Date.now(),
+        status: 'pending',
+        attempts: 0,
+    };
+
+    const scans = await getPendingScans();
+    await writeQueue([...scans, pending]);
+    return pending;
+}
+
+/**
+ * Remove a scan from the queue without analyzing it
+ */
+export async function removePendingScan(id: string): Promise<void> {
+    const scans = await getPendingScans();
+    await writeQueue(scans.filter(scan => scan.id !== id));
+}
+
+/**
+ * Put a failed scan back in line for another round of attempts
+ */
+export async function retryPendingScan(id: string): Promise<void> {
+    await updatePendingScan(id, { status: 'pending', attempts: 0, lastError: undefined, retryAt: undefined });
+    processPendingScans();
+}
+
+/**
+ * Whether the device currently has a usable connection
+ */
+export async function isNetworkAvailable(): Promise<boolean> {
+    return isOnline(await NetInfo.fetch());
+}
+
+async function notifyScanReady(medicineNames: string[], matchCount: number, heldNames: string[]): Promise<void> {
+    const matched = matchCount
+        ? ` ${matchCount === 1 ? 'One is' : `${matchCount} are`} already saved; open My Medications to update it, add a refill or keep both.`
+        : '';
+    const held = heldNames.length
+        ? ` Not added because of your Medical ID: ${heldNames.join(', ')}. Scan again to review the warning.`
+        : '';
+    try {
+        await Notifications.scheduleNotificationAsync({
+            content: {
+                title: heldNames.length ? '⚠️ Scan Ready: Check Your Medical ID' : '💊 Scan Ready',
+                body: `Your saved photo was identified: ${medicineNames.join(', ')}.${matched}${held}`,
+            },
+            trigger: null,
+        });
+    } catch (error) {
+        console.warn('Could not show scan-ready notification:', error);
+    }
+}
+
+/**
+ * Wake the queue when the earliest scan waiting out a retry delay is due.
+ * Coming back online wakes it too (see startScanQueue).
+ */
+async function scheduleRetry(): Promise<void> {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+
+    const retryAts = (await getPendingScans())
+        .filter(scan => scan.status === 'pending' && scan.retryAt)
+        .map(scan => scan.retryAt!);
+    if (retryAts.length === 0) return;
+
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        processPendingScans();
+    }, Math.max(Math.min(...retryAts) - Date.now(), 0));
+}
+
+/**
+ * Analyze every pending scan in order. Successful scans go through the normal
+ * save pipeline and leave the queue; a scan that fails while online is tried
+ * again after a growing delay, and marked failed after MAX_ATTEMPTS so it
+ * stops burning requests.
+ */
+export async function processPendingScans(): Promise<void> {
+    if (isProcessing) return;
+    isProcessing = true;
+
+    try {
+        let queue = await getPendingScans();
+
+        // Only one run happens at a time, so "analyzing" here was left by a closed app
+        if (queue.some(s => s.status === 'analyzing')) {
+            queue = queue.map(s => s.status === 'analyzing' ? { ...s, status: 'pending' } : s);
+            await writeQueue(queue);
+        }
+
+        for (const scan of queue.filter(s => s.status !== 'failed')) {
+            if (!(await isNetworkAvailable())) break;
+            if (scan.retryAt && scan.retryAt > Date.now()) continue;
+
+            await updatePendingScan(scan.id, { status: 'analyzing' });
+            const startedAt = Date.now();
+            try {
+                const analysis = await analyzeMedicineImage(scan.imageUri);
+                const report = await checkScanInteractions(analysis);
+                // Nobody is there to confirm a Medical ID warning, so those are not added
+                const warnings = await checkAgainstMedicalId(analysis);
+                const held = analysis.filter(m => warnings.some(w => w.medicineName === m.medicineName));
+                const { matches } = await completeScan(scan.imageUri, analysis, report, startedAt, { skipMedicines: held });
+                // Nobody is there to ask; My Medications shows them
+                await savePendingMatches(matches);
+                await removePendingScan(scan.id);
+                await notifyScanReady(analysis.map(m => m.medicineName), matches.length, held.map(m => m.medicineName));
+            } catch (err) {
+                const attempts = scan.attempts + 1;
+                const stillOnline = await isNetworkAvailable();
+                // Honour a rate limit's requested wait when it is longer than the backoff
+                const delay = Math.max(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), classifyAIError(err).retryAfterMs ?? 0);
+                await updatePendingScan(scan.id, {
+                    // Going offline mid-request doesn't count against the scan
+                    status: stillOnline && attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+                    attempts: stillOnline ? attempts : scan.attempts,
+                    lastError: err instanceof Error ? err.message : 'Analysis failed.',
+                    retryAt: stillOnline ? Date.now() + delay : undefined,
+                });
+            }
+        }
+    } catch (error) {
+        console.error('Failed to process pending scans:', error);
+    } finally {
+        isProcessing = false;
+        await scheduleRetry();
+    }
+}
+
+/**
+ * Watch connectivity and drain the queue whenever the device comes online.
+ * Returns an unsubscribe function; call once from the app root.
+ */
+export function startScanQueue(): () => void {
+    processPendingScans();
+
+    const unsubscribe = NetInfo.addEventListener(state => {
+        if (isOnline(state)) processPendingScans();
+    });
+    return () => {
+        unsubscribe();
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+    };
+}
+
+/**
+ * Be notified whenever the queue changes
+ */
+export function subscribeToScanQueue(listener: (scans: PendingScan[]) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
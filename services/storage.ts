@@ -1,32 +1,188 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { MedicineAnalysis } from './gemini';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createId, getDatabase, runOnce, withTransaction } from './database';
+import { FraudDetection, InteractionReport, MedicineAnalysis } from './gemini';
 
 export interface SavedScan {
     id: string;
     timestamp: number;
     imageUri: string;
     analysis: MedicineAnalysis[];
+    interactionReport: InteractionReport | null; // What the user was shown at scan time; null if not checked
+    model?: string;          // Model that produced the analysis
+    promptVersion?: number;  // PROMPT_VERSION at scan time
+    schemaVersion?: number;  // RESPONSE_SCHEMA_VERSION at scan time
+    durationMs?: number;     // Time from tapping identify to final result
+    version: number;         // Record format, see SCAN_RECORD_VERSION
 }
 
-const STORAGE_KEY = 'recent_scans';
+export type ScanDetails = Partial<Pick<SavedScan, 'interactionReport' | 'model' | 'promptVersion' | 'schemaVersion' | 'durationMs'>>;
+
+// Worst fraud risk among a scan's medicines; 'none' when nothing was a prescription
+export type ScanRiskLevel = FraudDetection['riskLevel'] | 'none';
+
+export interface ScanQuery {
+    search?: string;              // Matches medicine name, ingredients, doctor or hospital
+    from?: number;                // Inclusive timestamp
+    to?: number;                  // Inclusive timestamp
+    riskLevels?: ScanRiskLevel[]; // Any of these
+    after?: Pick<SavedScan, 'timestamp' | 'id'>; // Last scan of the previous page
+    limit?: number;
+}
+
+export interface ScanPage {
+    scans: SavedScan[];
+    total: number;   // Matches across all pages
+    hasMore: boolean;
+}
+
+interface ScanRow {
+    id: string;
+    timestamp: number;
+    image_uri: string;
+    analysis: string;
+    interaction_report: string | null;
+    model: string | null;
+    prompt_version: number | null;
+    schema_version: number | null;
+    duration_ms: number | null;
+}
+
+// AsyncStorage keys from before SQLite, imported once by migrateLegacyScans
+const LEGACY_RECENT_SCANS_KEY = 'recent_scans'; // One array capped at 20
+const LEGACY_INDEX_KEY = 'scan_index';           // Per-scan records plus an index
+const LEGACY_SCAN_KEY_PREFIX = 'scan_';
+const SCAN_RECORD_VERSION = 2;
+const DEFAULT_PAGE_SIZE = 20;
+
+const RISK_ORDER: ScanRiskLevel[] = ['none', 'safe', 'caution', 'suspicious', 'high-risk'];
+
+/**
+ * Bring a stored scan up to the current record format.
+ * v1 (no version field): analysis could be a single object and no report was kept.
+ */
+function migrateScan(item: any): SavedScan {
+    if (item.version === SCAN_RECORD_VERSION) return item;
+
+    return {
+        ...item,
+        analysis: Array.isArray(item.analysis) ? item.analysis : [item.analysis],
+        interactionReport: item.interactionReport ?? null,
+        version: SCAN_RECORD_VERSION,
+    };
+}
 
 /**
- * Save a new scan to the recent list
+ * Risk level shown for a whole scan: the worst of its medicines
  */
-export const saveScan = async (analysis: MedicineAnalysis[], imageUri: string): Promise<SavedScan> => {
+export function getScanRiskLevel(scan: SavedScan): ScanRiskLevel {
+    return scan.analysis.reduce<ScanRiskLevel>((worst, medicine) => {
+        const level = medicine.fraudDetection?.riskLevel ?? 'none';
+        return RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(worst) ? level : worst;
+    }, 'none');
+}
+
+function getSearchText(scan: SavedScan): string {
+    return scan.analysis
+        .flatMap(m => [m.medicineName, m.activeIngredients, m.prescribedBy, m.hospital])
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+}
+
+function fromRow(row: ScanRow): SavedScan {
+    return {
+        id: row.id,
+        timestamp: row.timestamp,
+        imageUri: row.image_uri,
+        analysis: JSON.parse(row.analysis),
+        interactionReport: row.interaction_report ? JSON.parse(row.interaction_report) : null,
+        model: row.model ?? undefined,
+        promptVersion: row.prompt_version ?? undefined,
+        schemaVersion: row.schema_version ?? undefined,
+        durationMs: row.duration_ms ?? undefined,
+        version: SCAN_RECORD_VERSION,
+    };
+}
+
+async function writeScan(db: SQLiteDatabase, scan: SavedScan): Promise<void> {
+    await db.runAsync(
+        `INSERT OR REPLACE INTO scans
+            (id, timestamp, image_uri, analysis, interaction_report, model, prompt_version, schema_version, duration_ms, search_text, risk_level)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        scan.id,
+        scan.timestamp,
+        scan.imageUri,
+        JSON.stringify(scan.analysis),
+        scan.interactionReport ? JSON.stringify(scan.interactionReport) : null,
+        scan.model ?? null,
+        scan.promptVersion ?? null,
+        scan.schemaVersion ?? null,
+        scan.durationMs ?? null,
+        getSearchText(scan),
+        getScanRiskLevel(scan),
+    );
+}
+
+/**
+ * Import scans saved to AsyncStorage by earlier versions, then drop the old keys
+ */
+async function migrateLegacyScans(): Promise<void> {
+    const recentJson = await AsyncStorage.getItem(LEGACY_RECENT_SCANS_KEY);
+    const indexJson = await AsyncStorage.getItem(LEGACY_INDEX_KEY);
+    const scanKeys: string[] = indexJson
+        ? JSON.parse(indexJson).map((entry: { id: string }) => `${LEGACY_SCAN_KEY_PREFIX}${entry.id}`)
+        : [];
+    const stored = scanKeys.length ? await AsyncStorage.multiGet(scanKeys) : [];
+
+    const scans: SavedScan[] = [
+        ...(recentJson ? JSON.parse(recentJson) : []),
+        ...stored.filter(([, json]) => json).map(([, json]) => JSON.parse(json as string)),
+    ].map(migrateScan);
+
+    const migrated = await runOnce('legacy_scans_migrated', async txn => {
+        for (const scan of scans) {
+            await writeScan(txn, scan);
+        }
+    });
+
+    if (migrated) {
+        await AsyncStorage.multiRemove([LEGACY_RECENT_SCANS_KEY, LEGACY_INDEX_KEY, ...scanKeys]);
+    }
+}
+
+let ready: Promise<SQLiteDatabase> | null = null;
+
+function getScanDatabase(): Promise<SQLiteDatabase> {
+    if (!ready) {
+        ready = getDatabase().then(async db => {
+            await migrateLegacyScans();
+            return db;
+        }).catch(error => {
+            ready = null;
+            throw error;
+        });
+    }
+    return ready;
+}
+
+/**
+ * Save a new scan to history
+ */
+export const saveScan = async (analysis: MedicineAnalysis[], imageUri: string, details: ScanDetails = {}): Promise<SavedScan> => {
     try {
         const newScan: SavedScan = {
-            id: Date.now().toString(),
+            id: createId(),
             timestamp: Date.now(),
             imageUri,
             analysis,
+            ...details,
+            interactionReport: details.interactionReport ?? null,
+            version: SCAN_RECORD_VERSION,
         };
 
-        const existingScans = await getRecentScans();
-        // Keep only top 20 recent scans
-        const updatedScans = [newScan, ...existingScans].slice(0, 20);
-
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedScans));
+        const db = await getScanDatabase();
+        await writeScan(db, newScan);
         return newScan;
     } catch (error) {
         console.error('Failed to save scan:', error);
@@ -35,33 +191,128 @@ export const saveScan = async (analysis: MedicineAnalysis[], imageUri: string):
 };
 
 /**
- * Get all recent scans
+ * Search and page through scan history, newest first. Pages continue from
+ * the previous page's last scan rather than an offset, so deleting or adding
+ * scans in between doesn't repeat or skip any.
  */
-export const getRecentScans = async (): Promise<SavedScan[]> => {
+export const queryScans = async (query: ScanQuery = {}): Promise<ScanPage> => {
+    const { search, from, to, riskLevels, after, limit = DEFAULT_PAGE_SIZE } = query;
+
     try {
-        const json = await AsyncStorage.getItem(STORAGE_KEY);
-        if (!json) return [];
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        for (const term of (search ?? '').toLowerCase().split(/\s+/).filter(Boolean)) {
+            conditions.push("search_text LIKE ? ESCAPE '\\'");
+            params.push(`%${term.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+        }
+        if (from !== undefined) {
+            conditions.push('timestamp >= ?');
+            params.push(from);
+        }
+        if (to !== undefined) {
+            conditions.push('timestamp <= ?');
+            params.push(to);
+        }
+        if (riskLevels?.length) {
+            conditions.push(`risk_level IN (${riskLevels.map(() => '?').join(', ')})`);
+            params.push(...riskLevels);
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+        const db = await getScanDatabase();
+        const count = await db.getFirstAsync<{ total: number }>(`SELECT COUNT(*) AS total FROM scans ${where}`, params);
+
+        const pageConditions = after ? [...conditions, '(timestamp < ? OR (timestamp = ? AND id < ?))'] : conditions;
+        const pageParams = after ? [...params, after.timestamp, after.timestamp, after.id] : params;
+        // One extra row tells whether another page follows
+        const rows = await db.getAllAsync<ScanRow>(
+            `SELECT * FROM scans ${pageConditions.length ? `WHERE ${pageConditions.join(' AND ')}` : ''} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+            [...pageParams, limit + 1],
+        );
+
+        return { scans: rows.slice(0, limit).map(fromRow), total: count?.total ?? 0, hasMore: rows.length > limit };
+    } catch (error) {
+        console.error('Failed to query scans:', error);
+        return { scans: [], total: 0, hasMore: false };
+    }
+};
 
-        const data = JSON.parse(json);
+/**
+ * Get the newest scans
+ */
+export const getRecentScans = async (limit: number = DEFAULT_PAGE_SIZE): Promise<SavedScan[]> => {
+    const { scans } = await queryScans({ limit });
+    return scans;
+};
 
-        // Migration: Ensure all items have analysis as an array
-        return data.map((item: any) => ({
-            ...item,
-            analysis: Array.isArray(item.analysis) ? item.analysis : [item.analysis]
-        }));
+/**
+ * Get a single scan by id
+ */
+export const getScan = async (id: string): Promise<SavedScan | null> => {
+    try {
+        const db = await getScanDatabase();
+        const row = await db.getFirstAsync<ScanRow>('SELECT * FROM scans WHERE id = ?', id);
+        return row ? fromRow(row) : null;
+    } catch (error) {
+        console.error('Failed to load scan:', error);
+        return null;
+    }
+};
+
+/**
+ * Get every scan, newest first (for maintenance jobs; the UI should page with queryScans).
+ * Throws rather than returning an empty list, which would read as "no scans".
+ */
+export const getAllScans = async (): Promise<SavedScan[]> => {
+    try {
+        const db = await getScanDatabase();
+        const rows = await db.getAllAsync<ScanRow>('SELECT * FROM scans ORDER BY timestamp DESC');
+        return rows.map(fromRow);
     } catch (error) {
         console.error('Failed to load scans:', error);
-        return [];
+        throw error;
+    }
+};
+
+/**
+ * Update fields of a saved scan
+ */
+export const updateScan = async (id: string, changes: Partial<Omit<SavedScan, 'id'>>): Promise<void> => {
+    try {
+        await getScanDatabase();
+        await withTransaction(async txn => {
+            const row = await txn.getFirstAsync<ScanRow>('SELECT * FROM scans WHERE id = ?', id);
+            if (row) await writeScan(txn, { ...fromRow(row), ...changes });
+        });
+    } catch (error) {
+        console.error('Failed to update scan:', error);
+        throw error;
     }
 };
 
 /**
- * Clear all recent scans
+ * Delete one scan from history
+ */
+export const deleteScan = async (id: string): Promise<void> => {
+    try {
+        const db = await getScanDatabase();
+        await db.runAsync('DELETE FROM scans WHERE id = ?', id);
+    } catch (error) {
+        console.error('Failed to delete scan:', error);
+        throw error;
+    }
+};
+
+/**
+ * Clear the whole scan history
  */
 export const clearScans = async (): Promise<void> => {
     try {
-        await AsyncStorage.removeItem(STORAGE_KEY);
+        const db = await getScanDatabase();
+        await db.runAsync('DELETE FROM scans');
     } catch (error) {
         console.error('Failed to clear scans:', error);
+        throw error;
     }
 };